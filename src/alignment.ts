@@ -9,34 +9,35 @@ type HorizontalAlignment = 'left' | 'center' | 'right';
  * @param diagrams diagrams to be aligned
  * @param alignment vertical alignment of the diagrams
  * alignment can be 'top', 'center', or 'bottom'
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of aligned diagrams
  */
-export function align_vertical(diagrams : Diagram[], alignment : VerticalAlignment = 'center') : Diagram {
+export function align_vertical(diagrams : Diagram[], alignment : VerticalAlignment = 'center', text_scale? : number) : Diagram {
     // align all the diagrams following the first diagram
     if (diagrams.length == 0) { return empty(); }
     let newdiagrams = [...diagrams]
 
     if (alignment == 'top'){
-        let top_y = newdiagrams[0].get_anchor("top-left").y;
-        // return diagrams.map(d => d.translate(V2(0, top_y - d.get_anchor("top-left").y)));
+        let top_y = newdiagrams[0].get_anchor("top-left", text_scale).y;
+        // return diagrams.map(d => d.translate(V2(0, top_y - d.get_anchor("top-left", text_scale).y)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(0, top_y - newdiagrams[i].get_anchor("top-left").y));
+            newdiagrams[i] = newdiagrams[i].translate(V2(0, top_y - newdiagrams[i].get_anchor("top-left", text_scale).y));
         }
         return diagram_combine(...newdiagrams);
     }
     else if (alignment == 'center'){
-        let center_y = newdiagrams[0].get_anchor("center-left").y;
-        // return diagrams.map(d => d.translate(V2(0, center_y - d.get_anchor("center-left").y)));
+        let center_y = newdiagrams[0].get_anchor("center-left", text_scale).y;
+        // return diagrams.map(d => d.translate(V2(0, center_y - d.get_anchor("center-left", text_scale).y)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(0, center_y - newdiagrams[i].get_anchor("center-left").y));
+            newdiagrams[i] = newdiagrams[i].translate(V2(0, center_y - newdiagrams[i].get_anchor("center-left", text_scale).y));
         }
         return diagram_combine(...newdiagrams);
     }
     else if (alignment == 'bottom'){
-        let bottom_y = newdiagrams[0].get_anchor("bottom-left").y;
-        // return diagrams.map(d => d.translate(V2(0, bottom_y - d.get_anchor("bottom-left").y)));
+        let bottom_y = newdiagrams[0].get_anchor("bottom-left", text_scale).y;
+        // return diagrams.map(d => d.translate(V2(0, bottom_y - d.get_anchor("bottom-left", text_scale).y)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(0, bottom_y - newdiagrams[i].get_anchor("bottom-left").y));
+            newdiagrams[i] = newdiagrams[i].translate(V2(0, bottom_y - newdiagrams[i].get_anchor("bottom-left", text_scale).y));
         }
         return diagram_combine(...newdiagrams);
     }
@@ -50,35 +51,36 @@ export function align_vertical(diagrams : Diagram[], alignment : VerticalAlignme
  * @param diagrams diagrams to be aligned
  * @param alignment horizontal alignment of the diagrams
  * alignment can be 'left', 'center', or 'right'
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of aligned diagrams
  */
-export function align_horizontal(diagrams : Diagram[], alignment : HorizontalAlignment = 'center') : Diagram {
+export function align_horizontal(diagrams : Diagram[], alignment : HorizontalAlignment = 'center', text_scale? : number) : Diagram {
 
     // align all the diagrams following the first diagram
     if (diagrams.length == 0) { return empty(); }
     let newdiagrams = [...diagrams]
 
     if (alignment == 'left'){
-        let left_x = newdiagrams[0].get_anchor("top-left").x;
-        // return newdiagrams.map(d => d.translate(V2(left_x - d.get_anchor("top-left").x, 0)));
+        let left_x = newdiagrams[0].get_anchor("top-left", text_scale).x;
+        // return newdiagrams.map(d => d.translate(V2(left_x - d.get_anchor("top-left", text_scale).x, 0)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(left_x - newdiagrams[i].get_anchor("top-left").x, 0));
+            newdiagrams[i] = newdiagrams[i].translate(V2(left_x - newdiagrams[i].get_anchor("top-left", text_scale).x, 0));
         }
         return diagram_combine(...newdiagrams);
     }
     else if (alignment == 'center'){
-        let center_x = newdiagrams[0].get_anchor("top-center").x;
-        // return newdiagrams.map(d => d.translate(V2(center_x - d.get_anchor("top-center").x, 0)));
+        let center_x = newdiagrams[0].get_anchor("top-center", text_scale).x;
+        // return newdiagrams.map(d => d.translate(V2(center_x - d.get_anchor("top-center", text_scale).x, 0)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(center_x - newdiagrams[i].get_anchor("top-center").x, 0));
+            newdiagrams[i] = newdiagrams[i].translate(V2(center_x - newdiagrams[i].get_anchor("top-center", text_scale).x, 0));
         }
         return diagram_combine(...newdiagrams);
     }
     else if (alignment == 'right'){
-        let right_x = newdiagrams[0].get_anchor("top-right").x;
-        // return newdiagrams.map(d => d.translate(V2(right_x - d.get_anchor("top-right").x, 0)));
+        let right_x = newdiagrams[0].get_anchor("top-right", text_scale).x;
+        // return newdiagrams.map(d => d.translate(V2(right_x - d.get_anchor("top-right", text_scale).x, 0)));
         for (let i = 0; i < newdiagrams.length; i++) {
-            newdiagrams[i] = newdiagrams[i].translate(V2(right_x - newdiagrams[i].get_anchor("top-right").x, 0));
+            newdiagrams[i] = newdiagrams[i].translate(V2(right_x - newdiagrams[i].get_anchor("top-right", text_scale).x, 0));
         }
         return diagram_combine(...newdiagrams);
     }
@@ -91,9 +93,10 @@ export function align_horizontal(diagrams : Diagram[], alignment : HorizontalAli
  * Distribute diagrams horizontally
  * @param diagrams diagrams to be distributed
  * @param space space between the diagrams (default = 0)
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of distributed diagrams
  */
-export function distribute_horizontal(diagrams : Diagram[], space : number = 0) : Diagram {
+export function distribute_horizontal(diagrams : Diagram[], space : number = 0, text_scale? : number) : Diagram {
     if (diagrams.length == 0) { return empty(); }
     let newdiagrams = [...diagrams]
 
@@ -101,8 +104,8 @@ export function distribute_horizontal(diagrams : Diagram[], space : number = 0)
     for (let i = 1; i < newdiagrams.length; i++) {
         let prev_diagram = distributed_diagrams[i-1];
         let this_diagram = newdiagrams[i];
-        let prev_right = prev_diagram.get_anchor("top-right").x;
-        let this_left  = this_diagram.get_anchor("top-left").x;
+        let prev_right = prev_diagram.get_anchor("top-right", text_scale).x;
+        let this_left  = this_diagram.get_anchor("top-left", text_scale).x;
         let dx = prev_right - this_left + space;
         distributed_diagrams.push(this_diagram.translate(V2(dx, 0)));
     }
@@ -113,9 +116,10 @@ export function distribute_horizontal(diagrams : Diagram[], space : number = 0)
  * Distribute diagrams vertically
  * @param diagrams diagrams to be distributed
  * @param space space between the diagrams (default = 0)
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of distributed diagrams
  */
-export function distribute_vertical(diagrams : Diagram[], space : number = 0) : Diagram {
+export function distribute_vertical(diagrams : Diagram[], space : number = 0, text_scale? : number) : Diagram {
     if (diagrams.length == 0) { return empty(); }
     let newdiagrams = [...diagrams]
 
@@ -123,8 +127,8 @@ export function distribute_vertical(diagrams : Diagram[], space : number = 0) :
     for (let i = 1; i < newdiagrams.length; i++) {
         let prev_diagram = distributed_diagrams[i-1];
         let this_diagram = newdiagrams[i];
-        let prev_bottom = prev_diagram.get_anchor("bottom-left").y;
-        let this_top    = this_diagram.get_anchor("top-left").y;
+        let prev_bottom = prev_diagram.get_anchor("bottom-left", text_scale).y;
+        let this_top    = this_diagram.get_anchor("top-left", text_scale).y;
         let dy = prev_bottom - this_top - space;
         distributed_diagrams.push(this_diagram.translate(V2(0, dy)));
     }
@@ -137,11 +141,12 @@ export function distribute_vertical(diagrams : Diagram[], space : number = 0) :
  * @param horizontal_space space between the diagrams (default = 0)
  * @param alignment vertical alignment of the diagrams
  * alignment can be 'top', 'center', or 'bottom'
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of distributed and aligned diagrams
  */
 export function distribute_horizontal_and_align(diagrams : Diagram[], horizontal_space : number = 0,
-    alignment : VerticalAlignment = 'center') : Diagram {
-    return distribute_horizontal(align_vertical(diagrams, alignment).children, horizontal_space);
+    alignment : VerticalAlignment = 'center', text_scale? : number) : Diagram {
+    return distribute_horizontal(align_vertical(diagrams, alignment, text_scale).children, horizontal_space, text_scale);
 }
 
 /**
@@ -150,11 +155,12 @@ export function distribute_horizontal_and_align(diagrams : Diagram[], horizontal
  * @param vertical_space space between the diagrams (default = 0)
  * @param alignment horizontal alignment of the diagrams
  * alignment can be 'left', 'center', or 'right'
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns array of distributed and aligned diagrams
  */
 export function distribute_vertical_and_align(diagrams : Diagram[], vertical_space : number = 0,
-    alignment : HorizontalAlignment = 'center') : Diagram {
-    return distribute_vertical(align_horizontal(diagrams, alignment).children, vertical_space);
+    alignment : HorizontalAlignment = 'center', text_scale? : number) : Diagram {
+    return distribute_vertical(align_horizontal(diagrams, alignment, text_scale).children, vertical_space, text_scale);
 }
 
 /**
@@ -163,11 +169,12 @@ export function distribute_vertical_and_align(diagrams : Diagram[], vertical_spa
  * @param column_count number of columns
  * @param vectical_space space between the diagrams vertically (default = 0)
  * @param horizontal_space space between the diagrams horizontally (default = 0)
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * NODE: the behaviour is updated in v1.3.0 
  * (now the returned diagram's children is the distributed diagrams instead of list of list of diagrams)
  */
 export function distribute_grid_row(diagrams : Diagram[], column_count : number, 
-    vectical_space : number = 0, horizontal_space : number = 0,
+    vectical_space : number = 0, horizontal_space : number = 0, text_scale? : number,
 ) : Diagram {
     if (diagrams.length == 0) { return empty(); }
     let newdiagrams = [...diagrams]
@@ -177,8 +184,8 @@ export function distribute_grid_row(diagrams : Diagram[], column_count : number,
     for (let i = 0; i < row_count; i++) {
         rows.push(newdiagrams.slice(i * column_count, (i+1) * column_count));
     }
-    let distributed_rows = rows.map(row => distribute_horizontal(row, horizontal_space));
-    let distributed_diagrams = distribute_vertical(distributed_rows, vectical_space);
+    let distributed_rows = rows.map(row => distribute_horizontal(row, horizontal_space, text_scale));
+    let distributed_diagrams = distribute_vertical(distributed_rows, vectical_space, text_scale);
 
     let grid_diagrams = []
     for (let i = 0; i < distributed_diagrams.children.length; i++) {
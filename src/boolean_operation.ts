@@ -0,0 +1,225 @@
+import { Vector2 } from './vector.js';
+
+// Boolean operation on polygonal regions
+// every edge of both operands is split at all the intersections,
+// then each piece is kept if the result is inside on one side and outside on the other side,
+// finally the kept pieces are chained into rings (oriented so that the result is on the left)
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+/**
+ * A region bounded by closed rings
+ * a point is inside the region according to `fill_rule`
+ */
+export type Region = { rings : Vector2[][], fill_rule : 'evenodd' | 'nonzero' };
+
+type Edge = { p0 : Vector2, p1 : Vector2 };
+
+function winding_number(p : Vector2, ring : Vector2[]) : number {
+    let wn = 0;
+    for (let i = 0; i < ring.length; i++) {
+        let a = ring[i];
+        let b = ring[(i + 1) % ring.length];
+        let side = b.sub(a).cross(p.sub(a));
+        if (a.y <= p.y) {
+            if (b.y > p.y && side > 0) wn++;
+        } else {
+            if (b.y <= p.y && side < 0) wn--;
+        }
+    }
+    return wn;
+}
+
+/**
+ * Check whether a point is inside a region
+ */
+export function region_contains(region : Region, p : Vector2) : boolean {
+    let total = 0;
+    for (let ring of region.rings) {
+        let wn = winding_number(p, ring);
+        total += region.fill_rule == 'evenodd' ? Math.abs(wn) % 2 : wn;
+    }
+    return region.fill_rule == 'evenodd' ? total % 2 == 1 : total != 0;
+}
+
+/**
+ * Check whether a point is inside any of the regions
+ */
+function regions_contain(regions : Region[], p : Vector2) : boolean {
+    return regions.some(r => region_contains(r, p));
+}
+
+function apply_operation(op : BooleanOperation, in_a : boolean, in_b : boolean) : boolean {
+    switch (op) {
+        case 'union'        : return in_a || in_b;
+        case 'intersection' : return in_a && in_b;
+        case 'difference'   : return in_a && !in_b;
+        case 'xor'          : return in_a != in_b;
+    }
+}
+
+function regions_edges(regions : Region[]) : Edge[] {
+    let edges : Edge[] = [];
+    for (let region of regions) {
+        for (let ring of region.rings) {
+            for (let i = 0; i < ring.length; i++) {
+                edges.push({ p0 : ring[i], p1 : ring[(i + 1) % ring.length] });
+            }
+        }
+    }
+    return edges;
+}
+
+/**
+ * Get the parameters (along edge a) where edge a is crossed or touched by edge b
+ * for collinear overlapping edges, the endpoints of b are used
+ */
+function intersection_params(a : Edge, b : Edge, eps : number) : number[] {
+    let d = a.p1.sub(a.p0);
+    let e = b.p1.sub(b.p0);
+    let len_sq = d.length_sq();
+    if (len_sq == 0 || e.length_sq() == 0) return [];
+    let denom = d.cross(e);
+    let w = b.p0.sub(a.p0);
+    if (Math.abs(denom) <= 1e-12 * Math.sqrt(len_sq * e.length_sq())) {
+        // parallel, check if collinear
+        if (Math.abs(d.cross(w)) / Math.sqrt(len_sq) > eps) return [];
+        return [b.p0, b.p1].map(p => p.sub(a.p0).dot(d) / len_sq);
+    }
+    let t = w.cross(e) / denom;
+    let u = w.cross(d) / denom;
+    let tol_t = eps / Math.sqrt(len_sq);
+    let tol_u = eps / e.length();
+    if (t < -tol_t || t > 1 + tol_t || u < -tol_u || u > 1 + tol_u) return [];
+    return [t];
+}
+
+/**
+ * Pool of points, points closer than `eps` are merged
+ */
+class PointPool {
+    points : Vector2[] = [];
+    constructor(public eps : number) { }
+    index(p : Vector2) : number {
+        for (let i = 0; i < this.points.length; i++) {
+            if (Math.abs(this.points[i].x - p.x) <= this.eps && Math.abs(this.points[i].y - p.y) <= this.eps) return i;
+        }
+        this.points.push(p);
+        return this.points.length - 1;
+    }
+}
+
+/**
+ * Remove the points that are collinear with their neighbours
+ */
+function remove_collinear(ring : Vector2[]) : Vector2[] {
+    let result = ring.slice();
+    let changed = true;
+    while (changed && result.length > 3) {
+        changed = false;
+        for (let i = 0; i < result.length; i++) {
+            let prev = result[(i - 1 + result.length) % result.length];
+            let next = result[(i + 1) % result.length];
+            let a = result[i].sub(prev);
+            let b = next.sub(result[i]);
+            if (Math.abs(a.cross(b)) <= 1e-9 * a.length() * b.length() && a.dot(b) > 0) {
+                result.splice(i, 1);
+                changed = true;
+                break;
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Choose the next edge when chaining, the edge that turns the most to the left is chosen
+ * so that regions touching at a single vertex are separated into different rings
+ */
+function next_edge(points : Vector2[], incoming : [number, number], candidates : [number, number][]) : [number, number] | undefined {
+    let dir_in = points[incoming[1]].sub(points[incoming[0]]);
+    let best : [number, number] | undefined = undefined;
+    let best_angle = -Infinity;
+    for (let edge of candidates) {
+        let dir_out = points[edge[1]].sub(points[edge[0]]);
+        let angle = Math.atan2(dir_in.cross(dir_out), dir_in.dot(dir_out));
+        if (angle > best_angle) { best_angle = angle; best = edge; }
+    }
+    return best;
+}
+
+/**
+ * Calculate the boolean operation of two regions
+ * @param regions_a first operand (union of the regions)
+ * @param regions_b second operand (union of the regions)
+ * @param op the operation
+ * @returns the rings of the result, oriented counterclockwise for the outer boundary and clockwise for the holes
+ */
+export function boolean_operation(regions_a : Region[], regions_b : Region[], op : BooleanOperation) : Vector2[][] {
+    let edges = regions_edges(regions_a).concat(regions_edges(regions_b));
+    if (edges.length == 0) return [];
+
+    // tolerance relative to the size of the diagram
+    let xs = edges.map(e => e.p0.x);
+    let ys = edges.map(e => e.p0.y);
+    let scale = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys), 1e-12);
+    let eps_snap   = scale * 1e-9;
+    let eps_offset = scale * 1e-7;
+
+    // split every edge at the intersections with all the other edges
+    let pool = new PointPool(eps_snap);
+    let pieces : [number, number][] = [];
+    for (let i = 0; i < edges.length; i++) {
+        let a = edges[i];
+        let ts = [0, 1];
+        for (let j = 0; j < edges.length; j++) {
+            if (j == i) continue;
+            for (let t of intersection_params(a, edges[j], eps_snap)) if (t > 0 && t < 1) ts.push(t);
+        }
+        ts.sort((x, y) => x - y);
+        let indices = ts.map(t => pool.index(a.p0.add(a.p1.sub(a.p0).scale(t))));
+        for (let k = 1; k < indices.length; k++) {
+            if (indices[k] != indices[k-1]) pieces.push([indices[k-1], indices[k]]);
+        }
+    }
+
+    // keep the pieces that are on the boundary of the result
+    let kept = new Map<string, [number, number]>();
+    for (let [i0, i1] of pieces) {
+        let p0 = pool.points[i0], p1 = pool.points[i1];
+        let dir  = p1.sub(p0).normalize();
+        let mid  = p0.add(p1).scale(0.5);
+        let normal = new Vector2(-dir.y, dir.x).scale(eps_offset);
+        let left  = mid.add(normal);
+        let right = mid.sub(normal);
+        let in_left  = apply_operation(op, regions_contain(regions_a, left),  regions_contain(regions_b, left));
+        let in_right = apply_operation(op, regions_contain(regions_a, right), regions_contain(regions_b, right));
+        if (in_left == in_right) continue;
+        // orient the edge so that the result is on the left, coincident pieces are merged
+        let edge : [number, number] = in_left ? [i0, i1] : [i1, i0];
+        kept.set(`${edge[0]},${edge[1]}`, edge);
+    }
+
+    // chain the pieces into rings
+    let outgoing = new Map<number, [number, number][]>();
+    for (let edge of kept.values()) {
+        if (!outgoing.has(edge[0])) outgoing.set(edge[0], []);
+        outgoing.get(edge[0])?.push(edge);
+    }
+    let rings : Vector2[][] = [];
+    for (let start_edge of kept.values()) {
+        let start_list = outgoing.get(start_edge[0]) ?? [];
+        if (!start_list.includes(start_edge)) continue; // already used
+        let ring : number[] = [];
+        let edge : [number, number] | undefined = start_edge;
+        while (edge != undefined) {
+            let list = outgoing.get(edge[0]) ?? [];
+            list.splice(list.indexOf(edge), 1);
+            ring.push(edge[0]);
+            if (edge[1] == start_edge[0]) break;
+            edge = next_edge(pool.points, edge, outgoing.get(edge[1]) ?? []);
+        }
+        if (ring.length >= 3) rings.push(remove_collinear(ring.map(i => pool.points[i])));
+    }
+    return rings;
+}
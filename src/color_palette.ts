@@ -27,3 +27,37 @@ export const tab_color : {[key : string]: string} = {
 export function get_color(colorname : string, palette : {[key : string]: string}) : string {
     return palette[colorname] ?? colorname;
 }
+
+// basic css color names (the other css names are not supported by `color_to_rgba`)
+const css_colors : {[key : string]: string} = {
+    'black'   : '#000000', 'white'   : '#ffffff', 'red'     : '#ff0000', 'green'  : '#008000',
+    'blue'    : '#0000ff', 'yellow'  : '#ffff00', 'cyan'    : '#00ffff', 'aqua'   : '#00ffff',
+    'magenta' : '#ff00ff', 'fuchsia' : '#ff00ff', 'gray'    : '#808080', 'grey'   : '#808080',
+    'silver'  : '#c0c0c0', 'maroon'  : '#800000', 'olive'   : '#808000', 'lime'   : '#00ff00',
+    'teal'    : '#008080', 'navy'    : '#000080', 'purple'  : '#800080', 'orange' : '#ffa500',
+    'brown'   : '#a52a2a', 'pink'    : '#ffc0cb', 'gold'    : '#ffd700', 'violet' : '#ee82ee',
+    'darkgray': '#a9a9a9', 'darkgrey': '#a9a9a9', 'lightgray' : '#d3d3d3', 'lightgrey' : '#d3d3d3',
+}
+
+/**
+ * Parse a css color (`#rgb`, `#rrggbb`, `#rrggbbaa`, `rgb()`, `rgba()`, or a basic color name)
+ * the palette names (e.g. `tab_color`) have to be resolved with `get_color()` first
+ * @returns `[r, g, b, a]` with values from 0 to 1, or undefined if the color is `none` or can't be parsed
+ */
+export function color_to_rgba(color : string) : [number, number, number, number] | undefined {
+    let c = color.trim().toLowerCase();
+    c = css_colors[c] ?? c;
+    let hex = c.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+    if (hex) {
+        let h = hex[1].length <= 4 ? hex[1].split('').map(x => x + x).join('') : hex[1];
+        let values = [0, 2, 4, 6].map(i => i < h.length ? parseInt(h.substring(i, i + 2), 16) / 255 : 1);
+        return values as [number, number, number, number];
+    }
+    let rgb = c.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+    if (rgb) {
+        let [r, g, b] = rgb.slice(1, 4).map(x => Math.min(1, parseFloat(x) / 255));
+        let a = rgb[4] == undefined ? 1 : Math.min(1, parseFloat(rgb[4]));
+        return [r, g, b, a];
+    }
+    return undefined;
+}
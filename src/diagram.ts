@@ -1,5 +1,17 @@
-import { Vector2, V2, Transform } from './vector.js';
+import { Vector2, V2, Vdir, Transform, Affine2 } from './vector.js';
 import { BB_multiline } from './BBcode.js'
+import {
+    PathSegment, is_line, segment_copy, segment_transform, segment_point, segment_length, segment_signed_area,
+    segment_t_at_length_fraction, segment_bounding_box, segment_sample, segment_derivative, segment_closest_t,
+} from './path_segment.js';
+import { BooleanOperation, Region, boolean_operation, region_contains } from './boolean_operation.js';
+import { Paint } from './paint.js';
+import { LineJoin, LineCap, stroke_outline, signed_area } from './offset.js';
+import {
+    DIAGRAM_JSON_FORMAT, DIAGRAM_JSON_VERSION, DiagramJSONError, migrate_diagram_json, validate_diagram_json,
+} from './serialization.js';
+import { MarkerShape, MarkerData, default_markerdata, marker_outline } from './marker.js';
+import { FontSpec, TEXT_ASCENT, TEXT_DESCENT, measure_text_width, get_text_auto_scale, with_text_auto_scale } from './text_metrics.js';
 
 function assert(condition : boolean, message : string) : void {
     if (!condition) {
@@ -14,10 +26,13 @@ export enum DiagramType {
     Image   = 'image',
     Diagram = 'diagram',
     MultilineText = 'multilinetext',
+    CompoundPolygon = 'compoundpolygon',
 }
 
 export const DEFAULT_FONTSIZE = "18";
 
+export type Orientation = 'clockwise' | 'counterclockwise' | 'collinear';
+
 export type Anchor = 
     'top-left'    | 'top-center'    | 'top-right'    | 
     'center-left' | 'center-center' | 'center-right' | 
@@ -30,13 +45,14 @@ export type Anchor =
 
 export type DiagramStyle = {
     "stroke"           : string,
-    "fill"             : string,
+    "fill"             : string | Paint, // color or gradient/pattern (see `paint.ts`)
     "opacity"          : string,
     "stroke-width"     : string, // number
     "stroke-linecap"   : string,
     "stroke-dasharray" : string, // number[]
     "stroke-linejoin"  : string,
     "vector-effect"    : string,
+    "fill-rule"        : string,
     // TODO : add more style
 }
 
@@ -56,6 +72,19 @@ export type TextData = {
     // "writing-mode"     : string,
 }
 
+export const default_textdata : TextData = {
+    "text"             : "",
+    "font-family"      : "Latin Modern Math, sans-serif",
+    "font-size"        : DEFAULT_FONTSIZE,
+    "font-weight"      : "normal",
+    "text-anchor"      : "middle",
+    "dy"               : "0.25em",
+    "angle"            : "0",
+    "font-style"       : "normal",
+    "font-scale"       : "auto",
+}
+export const _init_default_textdata : TextData = {...default_textdata}
+
 export type ImageData = {
     "src"    : string,
 }
@@ -93,6 +122,29 @@ function anchor_to_textdata(anchor : Anchor) : Partial<TextData> {
     }
 }
 
+/**
+ * Selector used to query the diagram tree
+ * - a string selects the diagrams that have the tag
+ * - an object selects the diagrams that have all of the `tags` and one of the `type`
+ * - a function selects the diagrams for which it returns true
+ */
+export type DiagramSelector = string
+    | { tags? : string | string[], type? : DiagramType | DiagramType[] }
+    | ((d : Diagram) => boolean);
+
+function match_selector(d : Diagram, selector : DiagramSelector) : boolean {
+    if (typeof selector == 'string') return d.tags.includes(selector);
+    if (typeof selector == 'function') return selector(d);
+    if (selector.tags != undefined) {
+        let tags = typeof selector.tags == 'string' ? [selector.tags] : selector.tags;
+        if (!tags.every(t => d.tags.includes(t))) return false;
+    }
+    if (selector.type != undefined) {
+        let types = Array.isArray(selector.type) ? selector.type : [selector.type];
+        if (!types.includes(d.type)) return false;
+    }
+    return true;
+}
 
 /**
 * Diagram Class 
@@ -101,6 +153,7 @@ function anchor_to_textdata(anchor : Anchor) : Partial<TextData> {
 * Diagram can be a polygon, curve, text, image, or diagram
 * Polygon is a closed path
 * Curve is an open path
+* CompoundPolygon is a closed path made of multiple rings (its children are the rings)
 * Diagram is a tree of Diagrams
 */
 export class Diagram {
@@ -112,8 +165,14 @@ export class Diagram {
     textdata      : Partial<TextData>          = {};
     multilinedata : Partial<MultilineTextData> = {};
     imgdata       : Partial<ImageData>         = {};
+    markerdata    : Partial<MarkerData>        = {};
     mutable       : boolean   = false;
     tags : string[] = [];
+    clippath : Diagram | undefined = undefined; // only the part inside clippath is drawn
+    // lazy transform (only for DiagramType.Diagram), children and clippath are in the local coordinate
+    // and are drawn transformed by the matrix, origin is in the parent coordinate
+    matrix : Affine2 | undefined = undefined;
+    key : string | undefined = undefined; // stable identity of the diagram, used to match the svg elements between draws
 
     constructor(type_ : DiagramType, 
         args : { 
@@ -178,6 +237,9 @@ export class Diagram {
             Object.setPrototypeOf(objd.path, Path.prototype);
             objd.path = objd.path.copy();
         }
+
+        if (objd.clippath != undefined) Diagram.deep_setPrototypeOf(objd.clippath);
+        if (objd.matrix != undefined) Object.setPrototypeOf(objd.matrix, Affine2.prototype);
     }
 
     /**
@@ -195,6 +257,53 @@ export class Diagram {
         return this.mutable ? this : this.copy();
     }
 
+    /**
+     * Serialize the diagram into a versioned JSON string (see `serialization.ts`)
+     */
+    public to_json() : string {
+        return JSON.stringify({ format : DIAGRAM_JSON_FORMAT, version : DIAGRAM_JSON_VERSION, diagram : this });
+    }
+
+    /**
+     * Load a diagram serialized by `to_json()`
+     * older versions (and raw `JSON.stringify(diagram)`) are migrated to the current version
+     * @param json the JSON string or the parsed object
+     * @throws DiagramJSONError if the data is malformed
+     */
+    public static from_json(json : string | object) : Diagram {
+        let data : unknown;
+        if (typeof json == 'string') {
+            try {
+                data = JSON.parse(json);
+            } catch (e) {
+                throw new DiagramJSONError("Invalid JSON : " + (e as Error).message);
+            }
+        } else {
+            data = json;
+        }
+        let migrated = migrate_diagram_json(data);
+        if (migrated.format != DIAGRAM_JSON_FORMAT)
+            throw new DiagramJSONError("Unknown format : " + migrated.format, "format");
+        validate_diagram_json(migrated.diagram, Object.values(DiagramType));
+
+        let d = JSON.parse(JSON.stringify(migrated.diagram));
+        Diagram.deep_setPrototypeOf(d);
+        return (d as Diagram).immut();
+    }
+
+    /**
+     * Set the key of the diagram
+     * `draw_to_svg()` uses the key to match the svg elements between draws (e.g. in an `Interactive`),
+     * so the element of the diagram is updated instead of recreated even if the children before it changed
+     * the key only needs to be unique among the siblings
+     * @param key the key
+     */
+    public set_key(key : string) : Diagram {
+        let newd = this.copy_if_not_mutable();
+        newd.key = key;
+        return newd;
+    }
+
     /**
      * Append a tag to the diagram
      */
@@ -221,13 +330,68 @@ export class Diagram {
         return newd;
     }
 
+    /**
+     * Find the first diagram in the tree (depth first, including this diagram) that matches the selector
+     * @param selector a tag, `{tags, type}`, or a predicate (see `DiagramSelector`)
+     * @returns the diagram, or undefined if nothing matches
+     */
+    public find(selector : DiagramSelector) : Diagram | undefined {
+        if (match_selector(this, selector)) return this;
+        for (let c of this.children) {
+            let found = c.find(selector);
+            if (found != undefined) return found;
+        }
+        return undefined;
+    }
+
+    /**
+     * Find all the diagrams in the tree (depth first, including this diagram) that match the selector
+     * @param selector a tag, `{tags, type}`, or a predicate (see `DiagramSelector`)
+     */
+    public find_all(selector : DiagramSelector) : Diagram[] {
+        let result : Diagram[] = match_selector(this, selector) ? [this] : [];
+        for (let c of this.children) result = result.concat(c.find_all(selector));
+        return result;
+    }
+
+    /**
+     * Replace the diagrams in the tree that match the selector
+     * the subtree of a matching diagram is not searched further
+     * \* the children of a lazily transformed diagram are passed in its local coordinate
+     * @param selector a tag, `{tags, type}`, or a predicate (see `DiagramSelector`)
+     * @param func function that takes the matching diagram and returns its replacement
+     */
+    public update(selector : DiagramSelector, func : (d : Diagram) => Diagram) : Diagram {
+        if (match_selector(this, selector)) return func(this.copy_if_not_mutable());
+        let newd : Diagram = this.copy_if_not_mutable();
+        newd.update_children(selector, func);
+        return newd;
+    }
+
+    /**
+     * Replace the matching children in place
+     * helper function for update(), `this` is already a copy
+     */
+    private update_children(selector : DiagramSelector, func : (d : Diagram) => Diagram) : void {
+        for (let i = 0; i < this.children.length; i++) {
+            let c = this.children[i];
+            if (match_selector(c, selector)) {
+                this.children[i] = func(c);
+            } else {
+                c.update_children(selector, func);
+            }
+        }
+    }
+
     /**
      * Collect all children and subchildren of the diagram
      * helper function for flatten()
      */
     private collect_children() : Diagram[] {
         let children : Diagram[] = [];
-        if (this.type == DiagramType.Diagram) {
+        // a clipped or lazily transformed diagram is kept as a single child
+        // so that the clip and the transform still apply
+        if (this.type == DiagramType.Diagram && this.clippath == undefined && this.matrix == undefined) {
             for (let c of this.children) {
                 children = children.concat(c.collect_children());
             }
@@ -244,7 +408,8 @@ export class Diagram {
      */
     public flatten() : Diagram {
         let newd : Diagram = this.copy_if_not_mutable();
-        newd.children = newd.collect_children();
+        newd.children = (newd.clippath == undefined && newd.matrix == undefined) ?
+            newd.collect_children() : newd.children.map(c => c.collect_children()).flat();
         return newd;
     }
 
@@ -273,6 +438,20 @@ export class Diagram {
         return newd;
     }
 
+    /**
+     * Clip the diagram by another diagram
+     * only the part of this diagram that is inside `clip_diagram` is drawn
+     * @param clip_diagram the diagram to clip with (polygons and compound polygons)
+     */
+    public clip(clip_diagram : Diagram) : Diagram {
+        // clip is stored in a diagram, wrap the diagram if it can't hold the clip directly
+        // (the clip of a lazily transformed diagram is in its local coordinate)
+        let newd : Diagram = (this.type == DiagramType.Diagram && this.clippath == undefined && this.matrix == undefined) ?
+            this.copy_if_not_mutable() : diagram_combine(this);
+        newd.clippath = clip_diagram.copy();
+        return newd;
+    }
+
     /**
      * Combine another diagram with this diagram
      * @param diagrams a diagram or a list of diagrams
@@ -290,6 +469,14 @@ export class Diagram {
         let newd : Diagram = this.copy_if_not_mutable();
         if (newd.type == DiagramType.Polygon) {
             newd.type = DiagramType.Curve;
+        } else if (newd.type == DiagramType.CompoundPolygon) {
+            // split the rings into separate curves with the style of the compound polygon
+            newd.type = DiagramType.Diagram;
+            for (let i = 0; i < newd.children.length; i++) {
+                newd.children[i] = newd.children[i].to_curve();
+                newd.children[i].style = {...newd.style};
+            }
+            newd.style = {};
         } else if (newd.type == DiagramType.Diagram) {
             // newd.children = newd.children.map(c => c.to_curve());
             for (let i = 0; i < newd.children.length; i++) 
@@ -334,15 +521,15 @@ export class Diagram {
         return newd;
     }
 
-    private update_style(stylename : keyof Diagram['style'], stylevalue : string, excludedType? : DiagramType[]) : Diagram {
+    private update_style(stylename : keyof Diagram['style'], stylevalue : string | Paint, excludedType? : DiagramType[]) : Diagram {
         let newd : Diagram = this.copy_if_not_mutable();
         if (excludedType?.includes(newd.type)) { 
             return newd; 
         } else if (newd.type == DiagramType.Polygon || newd.type == DiagramType.Curve 
             || newd.type == DiagramType.Text || newd.type == DiagramType.Image 
-            || newd.type == DiagramType.MultilineText
+            || newd.type == DiagramType.MultilineText || newd.type == DiagramType.CompoundPolygon
         ) {
-            newd.style[stylename] = stylevalue;
+            (newd.style as {[key : string] : string | Paint})[stylename] = stylevalue;
         } else if (newd.type == DiagramType.Diagram) {
             // newd.children = newd.children.map(c => c.update_style(stylename, stylevalue, excludedType));
             for (let i = 0; i < newd.children.length; i++)
@@ -353,7 +540,11 @@ export class Diagram {
         return newd;
     }
 
-    public fill(color : string) : Diagram { 
+    /**
+     * Set the fill of the diagram
+     * @param color color, or a gradient/pattern e.g. `linear_gradient(['red', 'blue'])`, `hatch_pattern(Math.PI/4, 1)`
+     */
+    public fill(color : string | Paint) : Diagram { 
         return this.update_style('fill', color, [DiagramType.Text]);
     }
     public stroke(color : string) : Diagram { 
@@ -374,6 +565,9 @@ export class Diagram {
     public strokedasharray(dasharray : number[]) : Diagram {
         return this.update_style('stroke-dasharray', dasharray.join(','));
     }
+    public fillrule(fillrule : 'nonzero' | 'evenodd') : Diagram {
+        return this.update_style('fill-rule', fillrule, [DiagramType.Text]);
+    }
     public vectoreffect(vectoreffect : 'none' | 'non-scaling-stroke' | 'non-scaling-size' | 'non-rotation' | 'fixed-position'
 ) : Diagram {
         return this.update_style('vector-effect', vectoreffect);
@@ -398,13 +592,55 @@ export class Diagram {
             // newd.children = newd.children.map(c => c.update_textdata(textdataname, textdatavalue));
             for (let i = 0; i < newd.children.length; i++)
                 newd.children[i] = newd.children[i].update_textdata(textdataname, textdatavalue);
-        } else if (newd.type == DiagramType.Polygon || newd.type == DiagramType.Curve) {
+        } else if (newd.type == DiagramType.Polygon || newd.type == DiagramType.Curve
+            || newd.type == DiagramType.CompoundPolygon) {
             // do nothing
         } else {
             throw new Error("Unreachable, unknown diagram type : " + newd.type);
         }
         return newd;
     }
+    private update_markerdata(markerdataname : keyof Diagram['markerdata'], markerdatavalue : MarkerShape | 'none' | number) : Diagram {
+        let newd : Diagram = this.copy_if_not_mutable();
+        if (newd.type == DiagramType.Curve) {
+            (newd.markerdata as {[key : string] : MarkerShape | 'none' | number})[markerdataname] = markerdatavalue;
+        } else if (newd.type == DiagramType.Diagram) {
+            for (let i = 0; i < newd.children.length; i++)
+                newd.children[i] = newd.children[i].update_markerdata(markerdataname, markerdatavalue);
+        } else {
+            // markers are only drawn on curves
+        }
+        return newd;
+    }
+    /**
+     * Set the marker at the start of the curves
+     * @param shape 'triangle', 'open', 'stealth', 'bar', 'dot', 'circle', or 'none'
+     */
+    public markerstart(shape : MarkerShape | 'none' = 'triangle') : Diagram {
+        return this.update_markerdata('start', shape);
+    }
+    /**
+     * Set the marker at the middle vertices of the curves
+     * @param shape 'triangle', 'open', 'stealth', 'bar', 'dot', 'circle', or 'none'
+     */
+    public markermid(shape : MarkerShape | 'none' = 'dot') : Diagram {
+        return this.update_markerdata('mid', shape);
+    }
+    /**
+     * Set the marker at the end of the curves
+     * @param shape 'triangle', 'open', 'stealth', 'bar', 'dot', 'circle', or 'none'
+     */
+    public markerend(shape : MarkerShape | 'none' = 'triangle') : Diagram {
+        return this.update_markerdata('end', shape);
+    }
+    /**
+     * Set the size of the markers, relative to the stroke width
+     * (with the default stroke width of 1, the size is in diagram unit)
+     */
+    public markersize(size : number) : Diagram {
+        return this.update_markerdata('size', size);
+    }
+
     public fontfamily(fontfamily : string) : Diagram {
         return this.update_textdata('font-family', fontfamily);
     }
@@ -459,9 +695,10 @@ export class Diagram {
      * @returns [min, max] where min is the top left corner and max is the bottom right corner
      */
     public bounding_box() : [Vector2, Vector2] {
+        if (this.matrix != undefined) return this.bake_transform().bounding_box();
         let minx = Infinity, miny = Infinity;
         let maxx = -Infinity, maxy = -Infinity;
-        if (this.type == DiagramType.Diagram){
+        if (this.type == DiagramType.Diagram || this.type == DiagramType.CompoundPolygon){
                 for (let c = 0; c < this.children.length; c++){
                     let child = this.children[c];
                     let [min, max] = child.bounding_box();
@@ -470,10 +707,33 @@ export class Diagram {
                     maxx = Math.max(maxx, max.x);
                     maxy = Math.max(maxy, max.y);
                 }
+                if (this.clippath != undefined) {
+                    // only the part inside the clip is visible
+                    let [cmin, cmax] = this.clippath.bounding_box();
+                    minx = Math.max(minx, cmin.x);
+                    miny = Math.max(miny, cmin.y);
+                    maxx = Math.min(maxx, cmax.x);
+                    maxy = Math.min(maxy, cmax.y);
+                    // nothing is visible, collapse the bounding box
+                    if (minx > maxx) minx = maxx = (minx + maxx) / 2;
+                    if (miny > maxy) miny = maxy = (miny + maxy) / 2;
+                }
                 return [new Vector2(minx, miny), new Vector2(maxx, maxy)];
         }
-        else if (this.type == DiagramType.Curve || this.type == DiagramType.Polygon 
-            || this.type == DiagramType.Image){
+        else if (this.type == DiagramType.Curve || this.type == DiagramType.Polygon){
+                if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
+                let [min, max] = this.path.bounding_box(this.type == DiagramType.Polygon);
+                // include the markers
+                let scale = marker_scale(this);
+                for (let [shape, pos, angle] of marker_placements(this)) {
+                    for (let p of marker_outline(shape, pos, angle, scale)) {
+                        min = new Vector2(Math.min(min.x, p.x), Math.min(min.y, p.y));
+                        max = new Vector2(Math.max(max.x, p.x), Math.max(max.y, p.y));
+                    }
+                }
+                return [min, max];
+        }
+        else if (this.type == DiagramType.Image){
                 if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
                 for (let p = 0; p < this.path.points.length; p++) {
                     let point = this.path.points[p];
@@ -485,7 +745,10 @@ export class Diagram {
                 return [new Vector2(minx, miny), new Vector2(maxx, maxy)];
         } 
         else if (this.type == DiagramType.Text || this.type == DiagramType.MultilineText){
-            return [this.origin.copy(), this.origin.copy()];
+            // the size of an auto scaled text is unknown until the scale is known (see `set_text_auto_scale`)
+            let auto_scale = get_text_auto_scale();
+            if (auto_scale == undefined && has_auto_font_scale(this)) return [this.origin.copy(), this.origin.copy()];
+            return text_bounding_box(this, auto_scale ?? 1);
         }
         else {
             throw new Error("Unreachable, unknown diagram type : " + this.type);
@@ -493,22 +756,85 @@ export class Diagram {
     }
 
     /**
-     * Transform the diagram by a function
-     * @param transform_function function to transform the diagram
+     * Transform the diagram by a function or an affine matrix
+     * if the diagram is lazily transformed (see `lazy_transform()`), a matrix is composed with
+     * the diagram matrix instead of transforming every point
+     * @param transform_function function or matrix to transform the diagram
      */
-    public transform(transform_function : (p : Vector2) => Vector2) : Diagram {
+    public transform(transform_function : ((p : Vector2) => Vector2) | Affine2) : Diagram {
+        if (this.matrix != undefined && !(transform_function instanceof Affine2))
+            return this.bake_transform().transform(transform_function);
         let newd : Diagram = this.copy_if_not_mutable();
+        if (newd.matrix != undefined && transform_function instanceof Affine2) {
+            newd.matrix = transform_function.mul(newd.matrix);
+            newd.origin = transform_function.apply(newd.origin);
+            return newd;
+        }
         // transform all children
         // newd.children = newd.children.map(c => c.transform(transform_function));
         for (let i = 0; i < newd.children.length; i++)
             newd.children[i] = newd.children[i].transform(transform_function);
+        let f = transform_function instanceof Affine2 ? transform_function.to_function() : transform_function;
         // transform path
-        if (newd.path != undefined) newd.path = newd.path.transform(transform_function);
+        if (newd.path != undefined) newd.path = newd.path.transform(f);
+        // transform clip
+        if (newd.clippath != undefined) newd.clippath = newd.clippath.transform(f);
         // transform origin
-        newd.origin = transform_function(newd.origin);
+        newd.origin = f(newd.origin);
+        return newd;
+    }
+
+    /**
+     * Keep the transformations of the diagram as a matrix instead of applying them to every point
+     * the matrix is drawn as a `transform` in svg, and the texts inside follow its rotation and scale
+     * (non-Diagram types are wrapped in a Diagram)
+     */
+    public lazy_transform() : Diagram {
+        if (this.matrix != undefined) return this.copy_if_not_mutable();
+        let newd : Diagram = (this.type == DiagramType.Diagram && this.clippath == undefined) ?
+            this.copy_if_not_mutable() : diagram_combine(this);
+        newd.matrix = Affine2.identity();
+        return newd;
+    }
+
+    /**
+     * Apply the lazy transformations of the diagram and all of its children to their points
+     * the angle and size of the texts are updated to follow the transformations
+     */
+    public bake_transform() : Diagram {
+        let newd : Diagram = this.copy_if_not_mutable();
+        for (let i = 0; i < newd.children.length; i++)
+            newd.children[i] = newd.children[i].bake_transform();
+        if (newd.clippath != undefined) newd.clippath = newd.clippath.bake_transform();
+        if (newd.matrix == undefined) return newd;
+
+        let m = newd.matrix;
+        newd.matrix = undefined;
+        let origin = newd.origin;
+        newd = newd.transform(m).transformtext(m);
+        newd.origin = origin; // origin is already in the parent coordinate
         return newd;
     }
 
+    /**
+     * Rotate and scale the texts contained in the diagram to follow a transformation
+     * (texts position is not changed)
+     * @param m the transformation
+     */
+    private transformtext(m : Affine2) : Diagram {
+        let angle = m.rotation();
+        let scale = m.scale_factor();
+        let newd = scale == 1 ? this : this.scaletext(scale);
+        if (angle == 0) return newd;
+        return newd.apply_recursive(d => {
+            if (d.type != DiagramType.Text) return d;
+            let newtext = d.copy_if_not_mutable();
+            // text angle is in the svg coordinate (y flipped)
+            newtext.textdata['angle'] = (parseFloat(newtext.textdata['angle'] ?? "0") - angle).toString();
+            return newtext;
+        });
+    }
+
     /**
      * Translate the diagram by a vector
      * @param v vector to translate
@@ -656,10 +982,11 @@ export class Diagram {
      *   'top-left', 'top-center', 'top-right'
      *   'center-left', 'center-center', 'center-right'
      *   'bottom-left', 'bottom-center', 'bottom-right'
+     * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
      * @returns the position of the anchor
      */
-    public get_anchor(anchor : Anchor) : Vector2 {
-        let [min, max] = this.bounding_box();
+    public get_anchor(anchor : Anchor, text_scale? : number) : Vector2 {
+        let [min, max] = with_text_auto_scale(text_scale, () => this.bounding_box());
         let minx = min.x, miny = min.y;
         let maxx = max.x, maxy = max.y;
         let midx = (minx + maxx) / 2;
@@ -686,13 +1013,14 @@ export class Diagram {
      *  'center-left', 'center-center', 'center-right'
      *  'bottom-left', 'bottom-center', 'bottom-right'
      * * for texts, use `move_origin_text()`
+     * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
      */
-    public move_origin(pos : Vector2 | Anchor) : Diagram {
+    public move_origin(pos : Vector2 | Anchor, text_scale? : number) : Diagram {
         let newd : Diagram = this.copy_if_not_mutable();
         if (pos instanceof Vector2) {
             newd.origin = pos;
         } else {
-            newd.origin = newd.get_anchor(pos);
+            newd.origin = newd.get_anchor(pos, text_scale);
         }
         return newd;
     }
@@ -737,16 +1065,108 @@ export class Diagram {
         return newd;
     }
 
+    /**
+     * Get the area of the diagram
+     * the holes of compound polygons are subtracted, the areas of the children of a Diagram are added
+     */
+    public area() : number {
+        if (this.matrix != undefined) return this.bake_transform().area();
+        switch (this.type) {
+            case DiagramType.Polygon : {
+                if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
+                return Math.abs(this.path.signed_area());
+            }
+            case DiagramType.CompoundPolygon : {
+                // the rings are in the same order as the children with a path
+                let paths = this.children.filter(c => c.path != undefined).map(c => c.path as Path);
+                return compound_rings(this).reduce((a, [_, sign], i) => a + sign * Math.abs(paths[i].signed_area()), 0);
+            }
+            case DiagramType.Diagram :
+                return this.children.reduce((a, c) => a + c.area(), 0);
+            default : return 0;
+        }
+    }
+
+    /**
+     * Get the perimeter of the diagram (the length of all of its paths)
+     * texts and images are ignored
+     */
+    public perimeter() : number {
+        if (this.matrix != undefined) return this.bake_transform().perimeter();
+        switch (this.type) {
+            case DiagramType.Polygon :
+            case DiagramType.Curve :
+            case DiagramType.CompoundPolygon : return this.path_length();
+            case DiagramType.Diagram : return this.children.reduce((a, c) => a + c.perimeter(), 0);
+            default : return 0;
+        }
+    }
+
+    /**
+     * Get the centroid of the diagram
+     * polygons use the centroid of their area and curves use the centroid of their length,
+     * a Diagram uses the area-weighted centroid of its children (length-weighted if it has no area)
+     */
+    public centroid() : Vector2 {
+        if (this.matrix != undefined) return this.bake_transform().centroid();
+        let [centroid, area, length] = centroid_data(this);
+        if (area == 0 && length == 0) return this.origin.copy();
+        return centroid;
+    }
+
+    /**
+     * Get the orientation of the points of a polygon or curve (the curve is treated as closed)
+     */
+    public orientation() : Orientation {
+        if (this.matrix != undefined) return this.bake_transform().orientation();
+        // a lazily transformed shape is wrapped in a Diagram (see `lazy_transform()`)
+        if (this.type == DiagramType.Diagram && this.children.length == 1) return this.children[0].orientation();
+        if (this.path == undefined) { throw new Error(this.type + " doesn't have a path"); }
+        let area = this.path.signed_area();
+        if (area == 0) return 'collinear';
+        return area > 0 ? 'counterclockwise' : 'clockwise';
+    }
+
+    /**
+     * Check whether the diagram is a convex polygon
+     */
+    public is_convex() : boolean {
+        if (this.type != DiagramType.Polygon || this.path == undefined) return false;
+        let points = this.path.flatten(true).points;
+        let n = points.length;
+        if (n < 3) return false;
+        let sign = 0;
+        let total_turn = 0;
+        for (let i = 0; i < n; i++) {
+            let u = points[(i + 1) % n].sub(points[i]);
+            let v = points[(i + 2) % n].sub(points[(i + 1) % n]);
+            if (u.length_sq() == 0 || v.length_sq() == 0) continue;
+            let cross = u.cross(v);
+            total_turn += Math.atan2(cross, u.dot(v));
+            if (Math.abs(cross) < 1e-12 * Math.sqrt(u.length_sq() * v.length_sq())) continue;
+            if (sign == 0) sign = Math.sign(cross);
+            else if (Math.sign(cross) != sign) return false;
+        }
+        // a star polygon turns more than once
+        return sign != 0 && Math.abs(Math.abs(total_turn) - 2 * Math.PI) < 1e-6;
+    }
+
+    /**
+     * Get the length of the path of the diagram
+     * the length of a polygon includes its closing edge (the same path as `parametric_point()`)
+     */
     public path_length() : number {
-        if (this.type == DiagramType.Diagram) {
+        if (this.matrix != undefined) return this.bake_transform().path_length();
+        if (this.type == DiagramType.Diagram || this.type == DiagramType.CompoundPolygon) {
             let length = 0;
             for (let c = 0; c < this.children.length; c++) {
+                if (!has_parametric_path(this.children[c])) continue; // texts and images
                 length += this.children[c].path_length();
             }
             return length;
         } else if (this.type == DiagramType.Curve || this.type == DiagramType.Polygon) {
             if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
-            return this.path.length();
+            return this.path.length(this.type == DiagramType.Polygon);
         } else {
             throw new Error("Unreachable, unknown diagram type : " + this.type);
         }
@@ -763,12 +1183,13 @@ export class Diagram {
      * @returns the position of the point
      */
     public parametric_point(t : number, segment_index? : number) : Vector2 {
-        if (this.type == DiagramType.Diagram) {
+        if (this.matrix != undefined) return this.bake_transform().parametric_point(t, segment_index);
+        if (this.type == DiagramType.Diagram || this.type == DiagramType.CompoundPolygon) {
             // use entire length, use the childrens
             let cumuative_length = [];
             let length   = 0.0;
             for (let c = 0; c < this.children.length; c++) {
-                length += this.children[c].path_length();
+                if (has_parametric_path(this.children[c])) length += this.children[c].path_length();
                 cumuative_length.push(length);
             }
             let total_length = length;
@@ -776,7 +1197,7 @@ export class Diagram {
 
             // figure out which children t is in
             for (let i = 0; i < cumulative_t.length; i++) {
-                if (t <= cumulative_t[i]) {
+                if (t <= cumulative_t[i] && has_parametric_path(this.children[i])) {
                     let child_id = i;
 
                     let prev_t = (i == 0) ? 0 : cumulative_t[i-1];
@@ -798,6 +1219,213 @@ export class Diagram {
         }
     }
 
+    /**
+     * Check whether a point is inside the diagram
+     * polygons, compound polygons, and images use their area, texts use their bounding box,
+     * curves never contain a point
+     * @param p the point
+     */
+    public contains(p : Vector2) : boolean {
+        if (this.matrix != undefined) return this.bake_transform().contains(p);
+        if (this.clippath != undefined && !this.clippath.contains(p)) return false;
+        switch (this.type) {
+            case DiagramType.Polygon :
+            case DiagramType.CompoundPolygon :
+                return diagram_to_regions(this).some(r => region_contains(r, p));
+            case DiagramType.Image : {
+                if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
+                return region_contains({ rings : [this.path.points], fill_rule : 'nonzero' }, p);
+            }
+            case DiagramType.Text :
+            case DiagramType.MultilineText : {
+                let [min, max] = this.bounding_box();
+                return p.x >= min.x && p.x <= max.x && p.y >= min.y && p.y <= max.y;
+            }
+            case DiagramType.Curve : return false;
+            case DiagramType.Diagram : return this.children.some(c => c.contains(p));
+            default : throw new Error("Unreachable, unknown diagram type : " + this.type);
+        }
+    }
+
+    /**
+     * Get the distance from a point to the diagram
+     * for polygons and curves, this is the distance to the path (the outline)
+     * for texts and images, this is the distance to the bounding box
+     * @param p the point
+     */
+    public distance_to(p : Vector2) : number {
+        if (this.matrix != undefined) return this.bake_transform().distance_to(p);
+        switch (this.type) {
+            case DiagramType.Polygon :
+            case DiagramType.Curve : {
+                if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
+                let point = this.path.closest_point(p, this.type == DiagramType.Polygon)[1];
+                return point.sub(p).length();
+            }
+            case DiagramType.Text :
+            case DiagramType.MultilineText :
+            case DiagramType.Image : {
+                let [min, max] = this.bounding_box();
+                let dx = Math.max(min.x - p.x, 0, p.x - max.x);
+                let dy = Math.max(min.y - p.y, 0, p.y - max.y);
+                return Math.sqrt(dx*dx + dy*dy);
+            }
+            case DiagramType.Diagram :
+            case DiagramType.CompoundPolygon :
+                return Math.min(...this.children.map(c => c.distance_to(p)));
+            default : throw new Error("Unreachable, unknown diagram type : " + this.type);
+        }
+    }
+
+    /**
+     * Get the parameter t of the point on the path that is closest to p
+     * (the point can be obtained with `parametric_point(t)`)
+     * @param p the point
+     */
+    public closest_point(p : Vector2) : number {
+        if (this.matrix != undefined) return this.bake_transform().closest_point(p);
+        return this.closest_point_data(p)[0];
+    }
+
+    /**
+     * helper function for closest_point()
+     * @returns `[t, point]`
+     */
+    private closest_point_data(p : Vector2) : [number, Vector2] {
+        if (this.type == DiagramType.Diagram || this.type == DiagramType.CompoundPolygon) {
+            // the parameter is distributed over the children by length (same as `parametric_point()`)
+            // texts and images are skipped
+            let lengths = this.children.map(c => has_parametric_path(c) ? c.path_length() : 0);
+            let total_length = lengths.reduce((a, b) => a + b, 0);
+            let best : [number, Vector2] | undefined = undefined;
+            let length_before = 0;
+            for (let i = 0; i < this.children.length; i++) {
+                if (!has_parametric_path(this.children[i])) continue;
+                let [t, point] = this.children[i].closest_point_data(p);
+                if (best == undefined || point.sub(p).length_sq() < best[1].sub(p).length_sq()) {
+                    let global_t = total_length == 0 ? 0 : (length_before + t * lengths[i]) / total_length;
+                    best = [global_t, point];
+                }
+                length_before += lengths[i];
+            }
+            if (best == undefined) throw new Error("Diagram has no path");
+            return best;
+        } else if (this.type == DiagramType.Curve || this.type == DiagramType.Polygon) {
+            if (this.path == undefined) { throw new Error(this.type + " must have a path"); }
+            return this.path.closest_point(p, this.type == DiagramType.Polygon);
+        } else {
+            throw new Error("Unreachable, unknown diagram type : " + this.type);
+        }
+    }
+
+    /**
+     * Find the diagram under a point, the children drawn last are checked first
+     * @param p the point
+     * @param tolerance maximum distance from the outline of a shape (or from a curve) to count as a hit
+     * @returns the indices of the children from this diagram to the diagram that is hit
+     * (`[]` if this diagram itself is hit), or undefined if nothing is hit
+     */
+    public hit_test(p : Vector2, tolerance : number = 0) : number[] | undefined {
+        if (this.matrix != undefined) return this.bake_transform().hit_test(p, tolerance);
+        if (this.clippath != undefined && !this.clippath.contains(p)) return undefined;
+        if (this.type == DiagramType.Diagram) {
+            for (let i = this.children.length - 1; i >= 0; i--) {
+                let hit = this.children[i].hit_test(p, tolerance);
+                if (hit != undefined) return [i, ...hit];
+            }
+            return undefined;
+        }
+        let is_hit = this.contains(p) || (tolerance > 0 && this.distance_to(p) <= tolerance);
+        return is_hit ? [] : undefined;
+    }
+
+    /**
+     * Convert the stroke of the diagram into a filled polygon
+     * curves become polygons, polygons become compound polygons (with a hole),
+     * using the `stroke-linejoin` and `stroke-linecap` of the diagram
+     * \* curved segments are sampled into points, and markers are not included
+     * @param width width of the stroke in diagram unit
+     * (if left undefined, `stroke-width` is used, note that the stroke is non-scaling by default)
+     */
+    public stroke_to_outline(width? : number) : Diagram {
+        if (this.matrix != undefined) return this.bake_transform().stroke_to_outline(width);
+        if (this.type == DiagramType.Diagram) {
+            let newd : Diagram = this.copy_if_not_mutable();
+            for (let i = 0; i < newd.children.length; i++)
+                newd.children[i] = newd.children[i].stroke_to_outline(width);
+            return newd;
+        }
+        if (this.type != DiagramType.Curve && this.type != DiagramType.Polygon && this.type != DiagramType.CompoundPolygon)
+            return this.copy_if_not_mutable();
+
+        let w = width ?? parseFloat(this.style["stroke-width"] ?? "1");
+        let linejoin = this.style["stroke-linejoin"] ?? "round";
+        let join : LineJoin = (linejoin == "round" || linejoin == "bevel") ? linejoin : "miter";
+        let linecap = this.style["stroke-linecap"] ?? "butt";
+        let cap : LineCap = (linecap == "round" || linecap == "square") ? linecap : "butt";
+        let paths = this.type == DiagramType.CompoundPolygon ?
+            this.children.map(c => c.path).filter((p) : p is Path => p != undefined) : [this.path as Path];
+        let closed = this.type != DiagramType.Curve;
+        let rings = paths.map(p => stroke_outline(p.flatten(closed).points, w, closed, join, cap)).flat();
+
+        if (rings.length == 0) return empty(this.origin);
+        let newd = rings.length == 1 ? polygon(rings[0]) : compound_polygon(rings.map(r => polygon(r)));
+        // the stroke is drawn as the fill
+        newd.style = {...this.style, "fill" : this.style["stroke"] ?? "black", "stroke" : "none"};
+        if (rings.length > 1) newd.style["fill-rule"] = "evenodd";
+        newd.tags = [...this.tags];
+        newd.origin = this.origin.copy();
+        return newd;
+    }
+
+    /**
+     * Apply a boolean operation between this diagram and another diagram
+     * only polygons and compound polygons are used, curved segments are sampled into points
+     * the style of the result is taken from this diagram
+     * @param other the other diagram
+     * @param op the boolean operation
+     */
+    private boolean_operation(other : Diagram, op : BooleanOperation) : Diagram {
+        let rings = boolean_operation(diagram_to_regions(this), diagram_to_regions(other), op);
+        if (rings.length == 0) return empty(this.origin);
+        let result = rings.length == 1 ? polygon(rings[0]) : compound_polygon(rings.map(r => polygon(r)));
+        result.style  = {...result.style, ...region_style(this)};
+        result.origin = this.origin.copy();
+        return result;
+    }
+
+    /**
+     * Get the union of this diagram and another diagram
+     * @param other the other diagram
+     */
+    public union(other : Diagram) : Diagram {
+        return this.boolean_operation(other, 'union');
+    }
+
+    /**
+     * Get the intersection of this diagram and another diagram
+     * @param other the other diagram
+     */
+    public intersect(other : Diagram) : Diagram {
+        return this.boolean_operation(other, 'intersection');
+    }
+
+    /**
+     * Subtract another diagram from this diagram
+     * @param other the other diagram
+     */
+    public subtract(other : Diagram) : Diagram {
+        return this.boolean_operation(other, 'difference');
+    }
+
+    /**
+     * Get the region that is inside exactly one of this diagram and another diagram
+     * @param other the other diagram
+     */
+    public xor(other : Diagram) : Diagram {
+        return this.boolean_operation(other, 'xor');
+    }
+
     public debug_bbox() : Diagram {
         // TODO : let user supply the styling function
         let style_bbox = (d : Diagram) => {
@@ -827,7 +1455,7 @@ export class Diagram {
         };
 
         // handle each type separately
-        if (this.type == DiagramType.Diagram) {
+        if (this.type == DiagramType.Diagram || this.type == DiagramType.CompoundPolygon) {
             return this.debug_bbox();
         } 
         else if (this.type == DiagramType.Text){
@@ -871,35 +1499,200 @@ export class Diagram {
     }
 }
 
+// number of points to sample for each curved segment in boolean operations
+const BOOLEAN_CURVE_SAMPLES = 32;
+
+/**
+ * Convert the polygons in a diagram into regions for boolean operations
+ */
+function diagram_to_regions(d : Diagram) : Region[] {
+    let fill_rule : Region['fill_rule'] = d.style["fill-rule"] == "evenodd" ? "evenodd" : "nonzero";
+    if (d.type == DiagramType.Polygon) {
+        if (d.path == undefined) { throw new Error(d.type + " must have a path"); }
+        return [{ rings : [d.path.flatten(true, BOOLEAN_CURVE_SAMPLES).points], fill_rule }];
+    } else if (d.type == DiagramType.CompoundPolygon) {
+        let rings = d.children.filter(c => c.path != undefined)
+            .map(c => (c.path as Path).flatten(true, BOOLEAN_CURVE_SAMPLES).points);
+        return [{ rings, fill_rule }];
+    } else if (d.type == DiagramType.Diagram) {
+        if (d.matrix != undefined) return diagram_to_regions(d.bake_transform());
+        return d.children.map(diagram_to_regions).flat();
+    } else {
+        return [];
+    }
+}
+
+/**
+ * Get the rings of a compound polygon with their sign
+ * a ring inside an odd number of other rings is a hole (sign -1)
+ */
+function compound_rings(d : Diagram) : [Vector2[], number][] {
+    let rings = d.children.filter(c => c.path != undefined).map(c => (c.path as Path).flatten(true).points);
+    return rings.map((ring, i) => {
+        let depth = rings.filter((other, j) => j != i && ring.length > 0
+            && region_contains({ rings : [other], fill_rule : 'nonzero' }, ring[0])).length;
+        return [ring, depth % 2 == 0 ? 1 : -1];
+    });
+}
+
+/**
+ * Centroid of a closed polyline (area weighted)
+ * @returns `[centroid, signed area]`
+ */
+function ring_centroid(points : Vector2[]) : [Vector2, number] {
+    let cx = 0, cy = 0;
+    for (let i = 0; i < points.length; i++) {
+        let p = points[i], q = points[(i + 1) % points.length];
+        let cross = p.cross(q);
+        cx += (p.x + q.x) * cross;
+        cy += (p.y + q.y) * cross;
+    }
+    let area = signed_area(points);
+    if (area == 0) return [points.length > 0 ? points[0].copy() : new Vector2(0, 0), 0];
+    return [new Vector2(cx / (6 * area), cy / (6 * area)), area];
+}
+
+/**
+ * helper function for Diagram.centroid()
+ * @returns `[centroid, area, length]`
+ */
+function centroid_data(d : Diagram) : [Vector2, number, number] {
+    if (d.matrix != undefined) return centroid_data(d.bake_transform());
+    switch (d.type) {
+        case DiagramType.Polygon : {
+            if (d.path == undefined) { throw new Error(d.type + " must have a path"); }
+            let [centroid, area] = ring_centroid(d.path.flatten(true).points);
+            return [centroid, Math.abs(area), d.path.length(true)];
+        }
+        case DiagramType.Curve : {
+            if (d.path == undefined) { throw new Error(d.type + " must have a path"); }
+            // length-weighted midpoints of the edges
+            let points = d.path.flatten(false).points;
+            let sum = new Vector2(0, 0), length = 0;
+            for (let i = 0; i < points.length - 1; i++) {
+                let l = points[i + 1].sub(points[i]).length();
+                sum = sum.add(points[i].add(points[i + 1]).scale(l / 2));
+                length += l;
+            }
+            return [length == 0 ? (points[0] ?? d.origin).copy() : sum.scale(1 / length), 0, length];
+        }
+        case DiagramType.CompoundPolygon :
+        case DiagramType.Diagram : {
+            let parts : [Vector2, number, number][] = d.type == DiagramType.CompoundPolygon ?
+                compound_rings(d).map(([ring, sign]) => {
+                    let [centroid, area] = ring_centroid(ring);
+                    return [centroid, sign * Math.abs(area), 0];
+                }) : d.children.map(centroid_data);
+            let area = parts.reduce((a, p) => a + p[1], 0);
+            let length = parts.reduce((a, p) => a + p[2], 0);
+            let use_area = parts.some(p => p[1] != 0);
+            let total = use_area ? area : length;
+            if (total == 0) return [d.origin.copy(), 0, 0];
+            let sum = parts.reduce((s, p) => s.add(p[0].scale(use_area ? p[1] : p[2])), new Vector2(0, 0));
+            return [sum.scale(1 / total), area, length];
+        }
+        default : return [d.origin.copy(), 0, 0];
+    }
+}
+
+/**
+ * Get the style of the first polygon in a diagram
+ */
+function region_style(d : Diagram) : Partial<DiagramStyle> | undefined {
+    if (d.type == DiagramType.Polygon || d.type == DiagramType.CompoundPolygon) return {...d.style};
+    for (let c of d.children) {
+        let style = region_style(c);
+        if (style != undefined) return style;
+    }
+    return undefined;
+}
+
 export class Path {
     mutable : boolean = false;
-    constructor(public points : Vector2[]) { }
+    /**
+     * `segments[i]` describes how `points[i]` is connected to the next point
+     * (for a closed path, the last segment connects the last point to the first point)
+     * if `segments[i]` is not defined, the points are connected by a straight line
+     */
+    segments : (PathSegment | null)[] = [];
+    constructor(public points : Vector2[], segments? : (PathSegment | null)[]) {
+        if (segments != undefined) this.segments = segments;
+    }
 
     copy() : Path {
         let newpoints = this.points.map(p => new Vector2(p.x,p.y));
-        return new Path(newpoints);
+        let newsegments = (this.segments ?? []).map(s => s == null ? null : segment_copy(s));
+        return new Path(newpoints, newsegments);
     }
     copy_if_not_mutable() : Path {
         return this.mutable ? this : this.copy();
     }
 
+    /**
+     * Get the nth segment of the path
+     */
+    public get_segment(index : number) : PathSegment {
+        return this.segments[index] ?? { type : "line" };
+    }
+
+    /**
+     * Check whether the path has segments that are not straight lines
+     */
+    public has_curved_segment() : boolean {
+        return this.segments.some(s => !is_line(s));
+    }
+
+    /**
+     * Get the number of segments of the path
+     * @param closed if true, the path is closed
+     */
+    public segment_count(closed : boolean = false) : number {
+        if (this.points.length == 0) return 0;
+        return closed ? this.points.length : this.points.length - 1;
+    }
+
+    /**
+     * Get the start point, end point, and segment of the nth segment
+     * @param index index of the segment
+     */
+    public segment_data(index : number) : [PathSegment, Vector2, Vector2] {
+        let p0 = this.points[index];
+        let p1 = this.points[(index + 1) % this.points.length];
+        return [this.get_segment(index), p0, p1];
+    }
+
     /**
      * Get the length of the path
+     * @param closed if true, the path is closed
      */
-    public length() : number {
+    public length(closed : boolean = false) : number {
         let length = 0;
-        for (let i = 1; i < this.points.length; i++) {
-            length += this.points[i].sub(this.points[i-1]).length();
+        for (let i = 0; i < this.segment_count(closed); i++) {
+            length += segment_length(...this.segment_data(i));
         }
         return length;
     }
 
+    /**
+     * Get the signed area enclosed by the path (treated as closed), positive if counterclockwise
+     * (curved segments are integrated exactly)
+     */
+    public signed_area() : number {
+        let area = 0;
+        for (let i = 0; i < this.segment_count(true); i++) {
+            area += segment_signed_area(...this.segment_data(i));
+        }
+        return area;
+    }
+
     /**
      * add points to the path
      * @param points points to add
      */
     public add_points(points : Vector2[]) : Path {
         let newp : Path = this.copy_if_not_mutable();
+        // remove the closing segment (if any), the new points are connected by straight lines
+        newp.segments = newp.segments.slice(0, Math.max(0, newp.points.length - 1));
         newp.points = newp.points.concat(points);
         return newp;
     }
@@ -916,17 +1709,16 @@ export class Path {
      * @returns the position of the point
     */
     public parametric_point(t : number, closed : boolean = false, segment_index? : number) : Vector2 {
-        let extended_points = this.points;
-        if (closed) extended_points = this.points.concat(this.points[0]);
         // for a closed path, there's an extra segment connecting the last point to the first point
+        let n_segments = this.segment_count(closed);
 
         if (segment_index == undefined) { 
             if (t < 0 || t > 1) { throw Error("t must be between 0 and 1"); }
             // use entire length
             let cumulative_length = [];
             let length   = 0.0;
-            for (let i = 1; i < extended_points.length; i++) {
-                length += extended_points[i].sub(extended_points[i-1]).length();
+            for (let i = 0; i < n_segments; i++) {
+                length += segment_length(...this.segment_data(i));
                 cumulative_length.push(length);
             }
             let total_length = length;
@@ -937,7 +1729,9 @@ export class Path {
                     let segment_id = i;
 
                     let prev_t = (i == 0) ? 0 : cumulative_t[i-1];
-                    let segment_t = (t - prev_t) / (cumulative_t[i] - prev_t);
+                    let length_fraction = (t - prev_t) / (cumulative_t[i] - prev_t);
+                    // convert the fraction of the length into the parameter of the segment
+                    let segment_t = segment_t_at_length_fraction(...this.segment_data(segment_id), length_fraction);
                     return this.parametric_point(segment_t, closed, segment_id);
                 }
             }
@@ -945,14 +1739,79 @@ export class Path {
             throw Error("Unreachable");
         } else {
             // take nth segment
-            if (segment_index < 0 || segment_index > extended_points.length - 1) { 
+            if (segment_index < 0 || segment_index > n_segments - 1) { 
                 throw Error("segment_index must be between 0 and n-1"); 
             }
-            let start = extended_points[segment_index];
-            let end   = extended_points[segment_index + 1];
-            let dir : Vector2 = end.sub(start);
-            return start.add(dir.scale(t));
+            return segment_point(...this.segment_data(segment_index), t);
+        }
+    }
+
+    /**
+     * Get the bounding box of the path
+     * @param closed if true, the path is closed
+     * @returns [min, max]
+     */
+    public bounding_box(closed : boolean = false) : [Vector2, Vector2] {
+        let minx = Infinity, miny = Infinity;
+        let maxx = -Infinity, maxy = -Infinity;
+        for (let point of this.points) {
+            minx = Math.min(minx, point.x);
+            miny = Math.min(miny, point.y);
+            maxx = Math.max(maxx, point.x);
+            maxy = Math.max(maxy, point.y);
+        }
+        for (let i = 0; i < this.segment_count(closed); i++) {
+            if (is_line(this.segments[i])) continue;
+            let [min, max] = segment_bounding_box(...this.segment_data(i));
+            minx = Math.min(minx, min.x);
+            miny = Math.min(miny, min.y);
+            maxx = Math.max(maxx, max.x);
+            maxy = Math.max(maxy, max.y);
+        }
+        return [new Vector2(minx, miny), new Vector2(maxx, maxy)];
+    }
+
+    /**
+     * Get the point on the path that is closest to p
+     * @param p the point
+     * @param closed if true, the path is closed
+     * @returns `[t, point]` where t is the parameter of the point (same as `parametric_point()`)
+     */
+    public closest_point(p : Vector2, closed : boolean = false) : [number, Vector2] {
+        let n_segments = this.segment_count(closed);
+        if (n_segments == 0) return [0, this.points.length > 0 ? this.points[0].copy() : p.copy()];
+        let best_index = 0, best_t = 0, best_dist = Infinity;
+        for (let i = 0; i < n_segments; i++) {
+            let t = segment_closest_t(...this.segment_data(i), p);
+            let dist = segment_point(...this.segment_data(i), t).sub(p).length_sq();
+            if (dist < best_dist) { best_index = i; best_t = t; best_dist = dist; }
         }
+        // convert the parameter of the segment into the parameter of the whole path
+        let length_before = 0, total_length = 0;
+        for (let i = 0; i < n_segments; i++) {
+            let l = segment_length(...this.segment_data(i));
+            if (i < best_index) length_before += l;
+            total_length += l;
+        }
+        let length_in = segment_length(...this.segment_data(best_index), 0, best_t);
+        let t = total_length == 0 ? 0 : (length_before + length_in) / total_length;
+        return [t, segment_point(...this.segment_data(best_index), best_t)];
+    }
+
+    /**
+     * Convert the path into a path with only straight segments
+     * @param closed if true, the path is closed
+     * @param n number of points to sample for each curved segment
+     */
+    public flatten(closed : boolean = false, n : number = 32) : Path {
+        if (!this.has_curved_segment()) return new Path(this.points.map(p => p.copy()));
+        let new_points : Vector2[] = [this.points[0].copy()];
+        for (let i = 0; i < this.segment_count(closed); i++) {
+            new_points = new_points.concat(segment_sample(...this.segment_data(i), n));
+        }
+        // the last sampled point of a closed path is the first point
+        if (closed) new_points.pop();
+        return new Path(new_points);
     }
 
     /**
@@ -964,10 +1823,29 @@ export class Path {
         // transform all the points
         // newp.points = newp.points.map(p => transform_function(p));
         for (let i = 0; i < newp.points.length; i++) newp.points[i] = transform_function(newp.points[i]);
+        // transform the control points of the segments
+        for (let i = 0; i < newp.segments.length; i++) {
+            let seg = newp.segments[i];
+            if (seg != null) newp.segments[i] = segment_transform(seg, transform_function);
+        }
         return newp;
     }
 }
 
+/**
+ * Check whether a diagram has a curve or a polygon
+ * (texts and images don't have a parametric path)
+ */
+function has_parametric_path(diagram : Diagram) : boolean {
+    switch (diagram.type) {
+        case DiagramType.Curve   :
+        case DiagramType.Polygon : return true;
+        case DiagramType.Diagram :
+        case DiagramType.CompoundPolygon : return diagram.children.some(has_parametric_path);
+        default : return false;
+    }
+}
+
 /**
  * Combine multiple diagrams into one diagram
  * @param diagrams list of diagrams to combine
@@ -1000,10 +1878,11 @@ export function diagram_combine(...diagrams : Diagram[]) : Diagram {
 /**
  * Create a curve from a list of points
  * @param points list of points
+ * @param segments segments connecting the points (see `Path.segments`), straight lines if not defined
  * @returns a curve diagram
  */
-export function curve(points : Vector2[]) : Diagram {
-    let path : Path = new Path(points);
+export function curve(points : Vector2[], segments? : (PathSegment | null)[]) : Diagram {
+    let path : Path = new Path(points, segments);
     let curve = new Diagram(DiagramType.Curve, {path : path});
     return curve;
 }
@@ -1022,18 +1901,43 @@ export function line(start : Vector2, end : Vector2) : Diagram {
 /**
  * Create a polygon from a list of points
  * @param points list of points
- * @param names list of names for each path
+ * @param segments segments connecting the points (see `Path.segments`), straight lines if not defined
  * @returns a polygon diagram
  */
-export function polygon(points: Vector2[]) : Diagram {
-    assert(points.length >= 3, "Polygon must have at least 3 points");
-    let path : Path = new Path(points);
+export function polygon(points: Vector2[], segments? : (PathSegment | null)[]) : Diagram {
+    assert(points.length >= 3 || (segments != undefined && points.length >= 2),
+        "Polygon must have at least 3 points");
+    let path : Path = new Path(points, segments);
 
     // create diagram
     let polygon = new Diagram(DiagramType.Polygon, {path : path});
     return polygon;
 }
 
+/**
+ * Create a compound polygon from a list of rings
+ * the rings are drawn as a single path, so the inner rings can be holes
+ * the style of the compound polygon is taken from the first ring
+ * @param rings list of polygons (a diagram containing polygons is also accepted)
+ * @param fill_rule rule to determine the inside of the compound polygon
+ * @returns a compound polygon diagram
+ */
+export function compound_polygon(rings : Diagram[], fill_rule : 'evenodd' | 'nonzero' = 'evenodd') : Diagram {
+    let collect_rings = (d : Diagram) : Diagram[] => {
+        if (d.type == DiagramType.Polygon || d.type == DiagramType.Curve) return [d.to_polygon()];
+        if (d.type == DiagramType.Diagram || d.type == DiagramType.CompoundPolygon)
+            return d.children.map(collect_rings).flat();
+        throw new Error("Compound polygon can only be made from polygons, found " + d.type);
+    };
+    let ring_diagrams = rings.map(collect_rings).flat();
+    assert(ring_diagrams.length >= 1, "Compound polygon must have at least 1 ring");
+
+    let compound = new Diagram(DiagramType.CompoundPolygon, {children : ring_diagrams.map(r => r.copy())});
+    compound.style  = {...ring_diagrams[0].style, "fill-rule" : fill_rule};
+    compound.origin = ring_diagrams[0].origin.copy();
+    return compound;
+}
+
 /**
  * Create an empty diagram, contain just a single point
  * @param v position of the point
@@ -1044,6 +1948,161 @@ export function empty(v : Vector2 = V2(0,0)) : Diagram {
     return emp;
 }
 
+/**
+ * Get the size of the markers of a curve in diagram unit
+ */
+export function marker_scale(diagram : Diagram) : number {
+    let size = diagram.markerdata.size ?? default_markerdata.size;
+    return size * parseFloat(diagram.style["stroke-width"] ?? "1");
+}
+
+/**
+ * Get the placement of the markers of a curve
+ * mid markers are directed along the bisector of the incoming and outgoing direction
+ * @returns list of `[marker shape, position, direction angle]`
+ */
+export function marker_placements(diagram : Diagram) : [MarkerShape, Vector2, number][] {
+    if (diagram.type != DiagramType.Curve || diagram.path == undefined) return [];
+    let markerdata = {...default_markerdata, ...diagram.markerdata};
+    let path = diagram.path;
+    let n = path.segment_count(false);
+    if (n == 0) return [];
+    let direction = (i : number, t : number) => segment_derivative(...path.segment_data(i), t);
+
+    let placements : [MarkerShape, Vector2, number][] = [];
+    if (markerdata.start != 'none') {
+        placements.push([markerdata.start, path.points[0], direction(0, 0).angle() + Math.PI]);
+    }
+    if (markerdata.mid != 'none') {
+        for (let i = 1; i < n; i++) {
+            let bisector = Vdir(direction(i-1, 1).angle()).add(Vdir(direction(i, 0).angle()));
+            if (bisector.length_sq() == 0) bisector = direction(i, 0);
+            placements.push([markerdata.mid, path.points[i], bisector.angle()]);
+        }
+    }
+    if (markerdata.end != 'none') {
+        placements.push([markerdata.end, path.points[n], direction(n-1, 1).angle()]);
+    }
+    return placements;
+}
+
+/**
+ * Parse a length in `em` or in diagram unit (e.g. `dy`, `dx`)
+ * @param length the length string
+ * @param font_size font size in diagram unit
+ */
+function parse_text_length(length : string | undefined, font_size : number) : number {
+    if (length == undefined) return 0;
+    let value = parseFloat(length);
+    if (isNaN(value)) return 0;
+    return length.trim().endsWith("em") ? value * font_size : value;
+}
+
+/**
+ * Measure a piece of text
+ * @param text the text
+ * @param data text data of the text
+ * @param auto_scale scale used for `font-scale : auto`
+ * @param scale_factor extra scale of the font size
+ * @returns width and font size in diagram unit
+ */
+function measure_text_span(text : string, data : Partial<TextData>, italic : boolean, auto_scale : number,
+    scale_factor : number = 1) : { width : number, size : number } {
+    let fontscale = data["font-scale"] ?? default_textdata["font-scale"];
+    let scale = fontscale == "auto" ? auto_scale : parseFloat(fontscale);
+    let font : FontSpec = {
+        family : data["font-family"] ?? default_textdata["font-family"],
+        size   : parseFloat(data["font-size"] ?? default_textdata["font-size"]) * scale_factor,
+        weight : data["font-weight"] ?? default_textdata["font-weight"],
+        style  : italic ? "italic" : data["font-style"] ?? default_textdata["font-style"],
+    };
+    return { width : measure_text_width(text, font) * scale, size : font.size * scale };
+}
+
+/**
+ * Check whether a text or multiline text diagram has a part with `font-scale : auto`
+ */
+function has_auto_font_scale(diagram : Diagram) : boolean {
+    let textdata = {...default_textdata, ...diagram.textdata};
+    if (diagram.type == DiagramType.Text) return textdata["font-scale"] == "auto";
+    return (diagram.multilinedata.content ?? []).some(tspandata =>
+        tspandata.text != "\n" && ({...textdata, ...tspandata.style})["font-scale"] == "auto");
+}
+
+/**
+ * Calculate the bounding box of a text or multiline text diagram
+ * the width is measured using the text metrics provider (see `text_metrics.ts`)
+ * @param diagram text or multiline text diagram
+ * @param auto_scale scale used for texts with `font-scale : auto` (diagram unit per pixel)
+ */
+export function text_bounding_box(diagram : Diagram, auto_scale : number) : [Vector2, Vector2] {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    let pos = diagram.path.points[0];
+
+    // horizontal extent of each line is [0, width], vertical extent is relative to the text position
+    let lines : { width : number, top : number, bottom : number }[] = [];
+    let textdata : Partial<TextData>;
+    let angle = 0;
+    if (diagram.type == DiagramType.Text) {
+        textdata = {...default_textdata, ...diagram.textdata};
+        angle = parseFloat(textdata["angle"] ?? "0");
+        let italic = diagram.tags.includes('textvar');
+        let { width, size } = measure_text_span(textdata["text"] ?? "", textdata, italic, auto_scale);
+        let baseline = -parse_text_length(textdata["dy"], size);
+        lines.push({ width, top : baseline + TEXT_ASCENT*size, bottom : baseline - TEXT_DESCENT*size });
+    } else {
+        // follow the layout of the tspans in the renderer
+        textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+        let scale_factor = diagram.multilinedata["scale-factor"] ?? 1;
+        let baseline = 0;
+        let is_firstline = true;
+        let is_in_front  = true;
+        let newline_dy   = "1em";
+        for (let tspandata of diagram.multilinedata.content ?? []) {
+            if (tspandata.text == "\n") {
+                is_in_front = true;
+                newline_dy = tspandata.style["dy"] ?? "1em";
+                continue;
+            }
+            let style = {...textdata, ...tspandata.style};
+            let { width, size } = measure_text_span(tspandata.text, style, tspandata.style["textvar"] ?? false,
+                auto_scale, scale_factor);
+            let dy = tspandata.style["dy"];
+            if (is_in_front) {
+                if (dy == undefined) dy = is_firstline ? textdata["dy"] : newline_dy;
+                lines.push({ width : 0, top : -Infinity, bottom : Infinity });
+                is_in_front = false;
+            }
+            let line = lines[lines.length - 1];
+            baseline -= parse_text_length(dy, size);
+            line.width += parse_text_length(tspandata.style["dx"], size) + width;
+            line.top    = Math.max(line.top, baseline + TEXT_ASCENT*size);
+            line.bottom = Math.min(line.bottom, baseline - TEXT_DESCENT*size);
+            is_firstline = false;
+        }
+    }
+    if (lines.length == 0) return [pos.copy(), pos.copy()];
+
+    let corners : Vector2[] = [];
+    for (let line of lines) {
+        let x0 = 0;
+        switch (textdata["text-anchor"]) {
+            case "middle" : x0 = -line.width/2; break;
+            case "end"    : x0 = -line.width;   break;
+        }
+        corners.push(
+            new Vector2(x0, line.bottom), new Vector2(x0 + line.width, line.bottom),
+            new Vector2(x0, line.top),    new Vector2(x0 + line.width, line.top),
+        );
+    }
+    // svg rotation is clockwise, in diagram coordinate it is counterclockwise
+    corners = corners.map(c => c.rotate(-angle).add(pos));
+    return [
+        new Vector2(Math.min(...corners.map(c => c.x)), Math.min(...corners.map(c => c.y))),
+        new Vector2(Math.max(...corners.map(c => c.x)), Math.max(...corners.map(c => c.y))),
+    ];
+}
+
 /**
  * Create a text diagram
  * @param str text to display
@@ -1107,12 +2166,7 @@ export function multiline_bb(bbstr : string, linespace? : string) : Diagram {
 
 export function diagram_from_jsonstring(str : string) : Diagram {
     try {
-        // turn str into JSON object
-        let d : Diagram = JSON.parse(str);
-        // turn d into Diagram
-        Object.setPrototypeOf(d, Diagram.prototype);
-        d = d.copy();
-        return d;
+        return Diagram.from_json(str);
     } catch (e) {
         // if there's a mistake, return an empty diagram
         console.warn(e);
@@ -0,0 +1,146 @@
+import { Diagram } from './diagram.js';
+import { Vector2 } from './vector.js';
+import { PathSegment } from './path_segment.js';
+
+// Structural difference between two diagram trees
+// the children are matched by their index, so the differences are keyed by the index path from the root
+
+export type DiagramDiffKind =
+    'added'    | // the node only exists in the second diagram
+    'removed'  | // the node only exists in the first diagram
+    'type'     | // the node changed type (its children are not compared)
+    'geometry' | // points, segments, origin, or lazy transform changed
+    'style'    |
+    'text'     | // textdata or multilinedata
+    'data'     | // imgdata, markerdata, clip, or key
+    'tags';
+
+export type DiagramDiff = {
+    kind    : DiagramDiffKind,
+    path    : number[], // indices of the children from the root to the node
+    tags    : string[], // tags of the node (of the second diagram if it exists)
+    key?    : string,   // the property that changed (e.g. 'fill', 'text', 'points')
+    before? : unknown,
+    after?  : unknown,
+    distance? : number, // for 'geometry', the largest distance a point moved
+}
+
+function same_value(a : unknown, b : unknown) : boolean {
+    return JSON.stringify(a) == JSON.stringify(b);
+}
+
+/**
+ * Compare two records, and push a difference for every key whose value changed
+ */
+function diff_record(kind : DiagramDiffKind, a : {[key : string] : unknown}, b : {[key : string] : unknown},
+    path : number[], tags : string[], result : DiagramDiff[]) : void {
+    let keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (let key of keys) {
+        if (same_value(a[key], b[key])) continue;
+        result.push({ kind, path, tags, key, before : a[key], after : b[key] });
+    }
+}
+
+function max_distance(a : Vector2[], b : Vector2[]) : number {
+    let dist = 0;
+    for (let i = 0; i < a.length; i++) dist = Math.max(dist, a[i].sub(b[i]).length());
+    return dist;
+}
+
+/**
+ * Largest change between two segments of a path, the vectors are compared by distance and
+ * the arc angles by value (`Infinity` if the segments have different types)
+ * \* a missing segment is a line
+ */
+function segment_distance(a : PathSegment | null | undefined, b : PathSegment | null | undefined) : number {
+    let sa : PathSegment = a ?? { type : "line" };
+    let sb : PathSegment = b ?? { type : "line" };
+    if (sa.type == "line" && sb.type == "line") return 0;
+    if (sa.type == "quadratic" && sb.type == "quadratic") return sa.control.sub(sb.control).length();
+    if (sa.type == "cubic" && sb.type == "cubic")
+        return Math.max(sa.control1.sub(sb.control1).length(), sa.control2.sub(sb.control2).length());
+    if (sa.type == "arc" && sb.type == "arc") return Math.max(
+        sa.center.sub(sb.center).length(), sa.axis1.sub(sb.axis1).length(), sa.axis2.sub(sb.axis2).length(),
+        Math.abs(sa.angle_start - sb.angle_start), Math.abs(sa.angle_end - sb.angle_end),
+    );
+    return Infinity;
+}
+
+function diff_node(a : Diagram, b : Diagram, tolerance : number, path : number[], result : DiagramDiff[]) : void {
+    let tags = b.tags;
+    if (a.type != b.type) {
+        result.push({ kind : 'type', path, tags, before : a.type, after : b.type });
+        return;
+    }
+
+    // geometry
+    let origin_moved = a.origin.sub(b.origin).length();
+    if (origin_moved > tolerance)
+        result.push({ kind : 'geometry', path, tags, key : 'origin', before : a.origin, after : b.origin, distance : origin_moved });
+    if (a.path != undefined || b.path != undefined) {
+        let points_a = a.path?.points ?? [];
+        let points_b = b.path?.points ?? [];
+        if (points_a.length != points_b.length) {
+            result.push({ kind : 'geometry', path, tags, key : 'points', before : points_a, after : points_b });
+        } else {
+            let moved = max_distance(points_a, points_b);
+            if (moved > tolerance)
+                result.push({ kind : 'geometry', path, tags, key : 'points', before : points_a, after : points_b, distance : moved });
+        }
+        let segments_a = a.path?.segments ?? [], segments_b = b.path?.segments ?? [];
+        let segments_moved = 0;
+        for (let i = 0; i < Math.max(segments_a.length, segments_b.length); i++)
+            segments_moved = Math.max(segments_moved, segment_distance(segments_a[i], segments_b[i]));
+        if (segments_moved > tolerance) {
+            let diff : DiagramDiff = { kind : 'geometry', path, tags, key : 'segments', before : segments_a, after : segments_b };
+            if (isFinite(segments_moved)) diff.distance = segments_moved; // the type of a segment changed otherwise
+            result.push(diff);
+        }
+    }
+    if (a.matrix != undefined || b.matrix != undefined) {
+        let ma = a.matrix, mb = b.matrix;
+        let changed = ma == undefined || mb == undefined ||
+            [ma.a - mb.a, ma.b - mb.b, ma.c - mb.c, ma.d - mb.d, ma.e - mb.e, ma.f - mb.f].some(x => Math.abs(x) > tolerance);
+        if (changed) result.push({ kind : 'geometry', path, tags, key : 'matrix', before : ma, after : mb });
+    }
+
+    // properties
+    diff_record('style', a.style, b.style, path, tags, result);
+    diff_record('text', a.textdata, b.textdata, path, tags, result);
+    diff_record('text', a.multilinedata, b.multilinedata, path, tags, result);
+    diff_record('data', a.imgdata, b.imgdata, path, tags, result);
+    diff_record('data', a.markerdata, b.markerdata, path, tags, result);
+    if (!same_value(a.clippath, b.clippath))
+        result.push({ kind : 'data', path, tags, key : 'clippath', before : a.clippath, after : b.clippath });
+    if (a.key != b.key)
+        result.push({ kind : 'data', path, tags, key : 'key', before : a.key, after : b.key });
+    if (!same_value(a.tags, b.tags))
+        result.push({ kind : 'tags', path, tags, before : a.tags, after : b.tags });
+
+    // children
+    let n = Math.max(a.children.length, b.children.length);
+    for (let i = 0; i < n; i++) {
+        let child_path = [...path, i];
+        let ca = a.children[i], cb = b.children[i];
+        if (ca == undefined) {
+            result.push({ kind : 'added', path : child_path, tags : cb.tags, after : cb });
+        } else if (cb == undefined) {
+            result.push({ kind : 'removed', path : child_path, tags : ca.tags, before : ca });
+        } else {
+            diff_node(ca, cb, tolerance, child_path, result);
+        }
+    }
+}
+
+/**
+ * Get the differences between two diagrams
+ * @param a the first diagram
+ * @param b the second diagram
+ * @param tolerance points that moved less than this distance are considered unchanged
+ * @returns list of differences, an empty list if the diagrams are the same
+ */
+export function diagram_diff(a : Diagram, b : Diagram, tolerance : number = 1e-9) : DiagramDiff[] {
+    let result : DiagramDiff[] = [];
+    diff_node(a, b, tolerance, [], result);
+    return result;
+}
@@ -0,0 +1,276 @@
+import { Diagram, DiagramType, diagram_combine } from "./diagram.js";
+import { tab_color, get_color } from "./color_palette.js";
+import { path_to_svg_d, rings_to_svg_d } from './path_segment.js';
+import { is_paint } from './paint.js';
+import { default_diagram_style, default_text_diagram_style } from './draw_svg.js';
+import {
+    svg_string_options, default_svg_string_options, calculate_viewbox, points_to_string,
+    f_draw_to_svg_string, f_texts_to_string, SvgStringContext, new_svg_string_context, new_def_id,
+} from './draw_svg_string.js';
+
+// Standalone animated svg from a sequence of frames (e.g. sampled from an Interactive slider), using SMIL `<animate>`
+// \* if all the frames have the same structure (same tree, same number of points, same texts),
+//   the element of the first frame is drawn once, and the points, positions, and styles are interpolated between the frames
+// \* otherwise, every frame is drawn and only the current frame is visible (flipbook)
+// all the frames share the same viewbox and text scale (calculated from all the frames combined)
+
+export type animated_svg_options = svg_string_options & {
+    duration  : number,  // duration of one pass through the frames in seconds
+    alternate : boolean, // play the frames forward then backward
+    repeat    : boolean, // loop forever, otherwise the animation stops at the last frame
+}
+
+export const default_animated_svg_options : animated_svg_options = {
+    ...default_svg_string_options,
+    duration  : 2,
+    alternate : false,
+    repeat    : true,
+}
+
+// timing attributes shared by all the `<animate>` elements
+type AnimationTiming = { key_times : string, attrs : string };
+
+function same_value(a : unknown, b : unknown) : boolean {
+    return JSON.stringify(a) == JSON.stringify(b);
+}
+
+/**
+ * Create an `<animate>` element, or an empty string if the value doesn't change
+ */
+function animate_tag(attribute : string, values : string[], timing : AnimationTiming, tag : string = "animate",
+    extra : string = "") : string {
+    if (values.every(v => v == values[0])) return "";
+    return `<${tag} attributeName="${attribute}"${extra} values="${values.join(";")}" keyTimes="${timing.key_times}"${timing.attrs}/>`;
+}
+
+/**
+ * Add child elements to the last element of an svg string (e.g. `<polygon .../>` or `<text ...>...</text>`)
+ */
+function append_to_element(element : string, children : string) : string {
+    if (children == "") return element;
+    if (element.endsWith("/>")) {
+        let tagname = element.substring(element.lastIndexOf("<") + 1).split(/[\s/>]/)[0];
+        return element.substring(0, element.length - 2) + `>${children}</${tagname}>`;
+    }
+    let close = element.lastIndexOf("</");
+    return element.substring(0, close) + children + element.substring(close);
+}
+
+/**
+ * Animate the style properties that change between frames
+ * (animated properties override the inline style)
+ * @param fixed style properties that are always drawn with the same value (e.g. the fill of a curve)
+ * @returns the `<animate>` elements, or undefined if the style can't be interpolated
+ */
+function style_animation(nodes : Diagram[], default_style : Diagram['style'], timing : AnimationTiming,
+    fixed : Diagram['style'] = {}) : string | undefined {
+    let styles = nodes.map(n => ({...default_style, ...n.style, ...fixed} as {[key : string] : any}));
+    let keys = new Set(styles.flatMap(s => Object.keys(s)));
+    let animations = "";
+    for (let key of keys) {
+        let values = styles.map(s => s[key]);
+        if (values.some(v => is_paint(v))) {
+            // gradients and patterns can't be interpolated
+            if (!values.every(v => same_value(v, values[0]))) return undefined;
+            continue;
+        }
+        let strs = values.map(v => v == undefined ? "" : String(v));
+        if (key == "fill" || key == "stroke") strs = strs.map(v => get_color(v, tab_color));
+        if (strs.some(v => v == "" || v.includes(";"))) {
+            if (!strs.every(v => v == strs[0])) return undefined;
+            continue;
+        }
+        animations += animate_tag(key, strs, timing);
+    }
+    return animations;
+}
+
+/**
+ * Animate the geometry of a path element, the element must be drawn the same way (points or `d`) in every frame
+ * @returns the `<animate>` element, or undefined if the path can't be interpolated
+ */
+function path_animation(nodes : Diagram[], closed : boolean, timing : AnimationTiming) : string | undefined {
+    let paths = nodes.map(n => n.path);
+    let first = paths[0];
+    if (first == undefined) return paths.every(p => p == undefined) ? "" : undefined;
+    let curved = first.has_curved_segment();
+    for (let p of paths) {
+        if (p == undefined || p.points.length != first.points.length || p.has_curved_segment() != curved) return undefined;
+        if (curved && !same_value(p.segments.map(s => s?.type ?? "line"), first.segments.map(s => s?.type ?? "line")))
+            return undefined;
+    }
+    if (curved) return animate_tag("d", paths.map(p => path_to_svg_d(p!.points, p!.segments, closed)), timing);
+    return animate_tag("points", paths.map(p => points_to_string(p!.points)), timing);
+}
+
+function compound_animation(nodes : Diagram[], timing : AnimationTiming) : string | undefined {
+    let first = nodes[0].children;
+    for (let n of nodes) {
+        if (n.children.length != first.length) return undefined;
+        for (let i = 0; i < first.length; i++) {
+            let p = n.children[i].path, q = first[i].path;
+            if (p == undefined || q == undefined || p.points.length != q.points.length) return undefined;
+            if (!same_value(p.segments.map(s => s?.type ?? "line"), q.segments.map(s => s?.type ?? "line"))) return undefined;
+        }
+    }
+    return animate_tag("d", nodes.map(n => rings_to_svg_d(n.children.map(c => c.path!))), timing);
+}
+
+/**
+ * Draw the shapes of the frames as one animated element
+ * @param nodes the same node in every frame
+ * @param ctx state of the call (the clipped diagrams of the first frame are added to `ctx.clip_ids`)
+ * @returns the svg string, or undefined if the frames can't be interpolated
+ */
+function f_animate_shapes(nodes : Diagram[], timing : AnimationTiming, ctx : SvgStringContext) : string | undefined {
+    let first = nodes[0];
+    if (nodes.some(n => n.type != first.type)) return undefined;
+    switch (first.type) {
+        case DiagramType.Polygon :
+        case DiagramType.Curve : {
+            let closed = first.type == DiagramType.Polygon;
+            if (!closed && !nodes.every(n => same_value(n.markerdata, first.markerdata))) return undefined;
+            let geometry = path_animation(nodes, closed, timing);
+            let style = style_animation(nodes, default_diagram_style, timing, closed ? {} : {fill : "none"});
+            if (geometry == undefined || style == undefined) return undefined;
+            return append_to_element(f_draw_to_svg_string(first, ctx), geometry + style);
+        }
+        case DiagramType.CompoundPolygon : {
+            let geometry = compound_animation(nodes, timing);
+            let style = style_animation(nodes, default_diagram_style, timing);
+            if (geometry == undefined || style == undefined) return undefined;
+            return append_to_element(f_draw_to_svg_string(first, ctx), geometry + style);
+        }
+        case DiagramType.Image :
+            if (!nodes.every(n => same_value(n, first))) return undefined;
+            return f_draw_to_svg_string(first, ctx);
+        case DiagramType.Text :
+        case DiagramType.MultilineText : return "";
+        case DiagramType.Diagram : {
+            if (!nodes.every(n => n.children.length == first.children.length && same_value(n.clippath, first.clippath)))
+                return undefined;
+            let content = "";
+            for (let i = 0; i < first.children.length; i++) {
+                let child = f_animate_shapes(nodes.map(n => n.children[i]), timing, ctx);
+                if (child == undefined) return undefined;
+                content += child;
+            }
+            if (first.clippath == undefined) return content;
+            // the clip is the same in every frame, draw it with the first frame
+            let clip_content = f_draw_to_svg_string(first.clippath, ctx);
+            let clip_id = new_def_id(ctx, "clip");
+            ctx.clip_ids.set(first, clip_id);
+            return `<clipPath id="${clip_id}" clipPathUnits="userSpaceOnUse">${clip_content}</clipPath>` +
+                `<g clip-path="url(#${clip_id})">${content}</g>`;
+        }
+        default: throw new Error("Unreachable, unknown diagram type : " + first.type);
+    }
+}
+
+
+/**
+ * Draw the texts of the frames as animated elements, the text is drawn at the origin inside a moving group
+ * @returns the svg string, or undefined if the frames can't be interpolated
+ */
+function f_animate_texts(nodes : Diagram[], calculated_scale : number, timing : AnimationTiming,
+    ctx : SvgStringContext) : string | undefined {
+    let first = nodes[0];
+    switch (first.type) {
+        case DiagramType.Text :
+        case DiagramType.MultilineText : {
+            let same_content = nodes.every(n => same_value(n.textdata, first.textdata) &&
+                same_value(n.multilinedata, first.multilinedata) && same_value(n.tags, first.tags));
+            if (!same_content || nodes.some(n => n.path == undefined)) return undefined;
+            let style = style_animation(nodes, default_text_diagram_style, timing);
+            if (style == undefined) return undefined;
+
+            let positions = nodes.map(n => n.path!.points[0]);
+            let text_at_origin = first.translate(positions[0].scale(-1));
+            let text = append_to_element(f_texts_to_string(text_at_origin, calculated_scale, ctx), style);
+            let translations = positions.map(p => `${p.x} ${-p.y}`);
+            let movement = animate_tag("transform", translations, timing, "animateTransform", ` type="translate"`);
+            return `<g transform="translate(${translations[0]})">${movement}${text}</g>`;
+        }
+        case DiagramType.Diagram : {
+            let content = "";
+            for (let i = 0; i < first.children.length; i++) {
+                let child = f_animate_texts(nodes.map(n => n.children[i]), calculated_scale, timing, ctx);
+                if (child == undefined) return undefined;
+                content += child;
+            }
+            let clip_id = ctx.clip_ids.get(first);
+            if (content == "" || clip_id == undefined) return content;
+            return `<g clip-path="url(#${clip_id})">${content}</g>`;
+        }
+        default : return "";
+    }
+}
+
+/**
+ * Draw every frame, only the current frame is visible
+ * @param sequence the index of the frame shown at each keyframe
+ */
+function flipbook(frames : Diagram[], sequence : number[], calculated_scale : number, render_text : boolean,
+    timing : AnimationTiming, ctx : SvgStringContext) : string {
+    return frames.map((frame, i) => {
+        let content = f_draw_to_svg_string(frame, ctx);
+        if (render_text) content += f_texts_to_string(frame, calculated_scale, ctx);
+        let visibility = sequence.map(j => j == i ? "visible" : "hidden");
+        let animation = animate_tag("visibility", visibility, timing, "animate", ` calcMode="discrete"`);
+        return `<g visibility="${visibility[0]}">${animation}${content}</g>`;
+    }).join("");
+}
+
+/**
+ * Draw a sequence of diagrams to a standalone animated svg string
+ * \* this function doesn't need the DOM, the animation is played by the svg viewer (no javascript)
+ * @param frames the diagrams of the animation, in order
+ * @param options options for the output svg and the animation
+ * @returns the svg string
+ */
+export function draw_to_animated_svg_string(frames : Diagram[], options? : Partial<animated_svg_options>) : string {
+    if (frames.length == 0) throw new Error("There must be at least one frame");
+    let opt = {...default_animated_svg_options, ...options}; // use default if not defined
+    frames = frames.map(f => f.bake_transform());
+
+    let { viewbox, calculated_scale } = calculate_viewbox(diagram_combine(...frames), opt.width, opt.height,
+        opt.padding, opt.render_text);
+    let [vx, vy, vw, vh] = viewbox;
+    let width  = opt.width;
+    let height = opt.height ?? (vw > 0 ? opt.width * vh / vw : opt.width);
+
+    // index of the frame at each keyframe, the keyframes are equally spaced
+    let sequence = frames.map((_, i) => i);
+    if (opt.alternate) sequence = sequence.concat(sequence.slice(0, -1).reverse());
+    let n = Math.max(1, sequence.length - 1);
+    let timing : AnimationTiming = {
+        key_times : sequence.map((_, i) => (i / n).toString()).join(";"),
+        attrs : ` dur="${opt.duration}s"` + (opt.repeat ? ` repeatCount="indefinite"` : ` fill="freeze"`),
+    };
+
+    let ordered = sequence.map(i => frames[i]);
+    let ctx = new_svg_string_context(opt.id_prefix);
+    let content = f_animate_shapes(ordered, timing, ctx);
+    if (content != undefined && opt.render_text) {
+        let texts = f_animate_texts(ordered, calculated_scale, timing, ctx);
+        content = texts == undefined ? undefined : content + texts;
+    }
+    if (content == undefined) {
+        // a flipbook shows each frame for the same duration, the last keyframe is the end of the animation
+        let flipbook_sequence = opt.alternate ? sequence.slice(0, -1) : sequence;
+        let m = flipbook_sequence.length;
+        let flipbook_timing : AnimationTiming = {
+            key_times : flipbook_sequence.map((_, i) => (i / m).toString()).join(";"),
+            attrs : timing.attrs,
+        };
+        content = flipbook(frames, flipbook_sequence, calculated_scale, opt.render_text, flipbook_timing,
+            new_svg_string_context(opt.id_prefix));
+    }
+
+    let background = opt.background == undefined ? "" :
+        `<rect x="${vx}" y="${vy}" width="${vw}" height="${vh}" style="fill:${get_color(opt.background, tab_color)};stroke:none"/>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${width}" height="${height}" viewBox="${vx} ${vy} ${vw} ${vh}" preserveAspectRatio="xMidYMid meet">` +
+        background + content + `</svg>`;
+}
@@ -0,0 +1,580 @@
+import { Diagram, DiagramType, marker_placements, marker_scale } from "./diagram.js";
+import { tab_color, get_color } from "./color_palette.js";
+import { str_to_mathematical_italic } from './unicode_utils.js'
+import { default_diagram_style, default_text_diagram_style, default_textdata, is_texstr } from './draw_svg.js';
+import { calculate_viewbox } from './draw_svg_string.js';
+import { PathSegment } from './path_segment.js';
+import { Paint, GradientStop, is_paint } from './paint.js';
+import { marker_geometry } from './marker.js';
+import { Vector2 } from './vector.js';
+
+// Canvas 2D counterpart of `draw_svg.ts`
+// the drawing is done in the svg coordinate (y axis flipped) so that the result matches the svg output
+
+type viewbox_t = [number, number, number, number];
+
+// cache of loaded images, keyed by src
+const image_cache : {[key : string] : HTMLImageElement} = {};
+
+/**
+ * Convert a `dy`/`dx` string into a length
+ * (only `em` and unitless values are supported)
+ */
+function parse_length(s : string | undefined, font_size : number) : number {
+    if (s == undefined) return 0;
+    if (s.endsWith("em")) return parseFloat(s) * font_size;
+    let val = parseFloat(s);
+    return isNaN(val) ? 0 : val;
+}
+
+function font_string(style : string, weight : string, size : number, family : string) : string {
+    return `${style} ${weight} ${size}px ${family}`;
+}
+
+function anchor_to_textalign(anchor : string) : CanvasTextAlign {
+    switch (anchor) {
+        case "middle" : return "center";
+        case "end"    : return "right";
+        default       : return "left";
+    }
+}
+
+/**
+ * Set the stroke properties of the context from a diagram style
+ * @param pixel_size size of a pixel in the current canvas coordinate
+ * (used for `vector-effect : non-scaling-stroke`)
+ */
+function set_stroke_style(ctx : CanvasRenderingContext2D, style : {[key : string] : any}, pixel_size : number) : void {
+    let non_scaling = style["vector-effect"] == "non-scaling-stroke";
+    let stroke_scale = non_scaling ? pixel_size : 1;
+    ctx.strokeStyle = get_color(style["stroke"], tab_color);
+    ctx.lineWidth   = parseFloat(style["stroke-width"]) * stroke_scale;
+    ctx.lineCap     = style["stroke-linecap"] as CanvasLineCap;
+    // canvas doesn't support 'arcs' and 'miter-clip'
+    let linejoin = style["stroke-linejoin"];
+    ctx.lineJoin = (linejoin == "arcs" || linejoin == "miter-clip") ? "miter" : linejoin as CanvasLineJoin;
+    let dasharray = style["stroke-dasharray"];
+    if (dasharray == undefined || dasharray == "none") {
+        ctx.setLineDash([]);
+    } else {
+        ctx.setLineDash(dasharray.split(/[\s,]+/).map((x : string) => parseFloat(x) * stroke_scale));
+    }
+}
+
+function trace_segment(ctx : CanvasRenderingContext2D, seg : PathSegment, p1 : Vector2) : void {
+    switch (seg.type) {
+        case "line" : ctx.lineTo(p1.x, -p1.y); break;
+        case "quadratic" : ctx.quadraticCurveTo(seg.control.x, -seg.control.y, p1.x, -p1.y); break;
+        case "cubic" :
+            ctx.bezierCurveTo(seg.control1.x, -seg.control1.y, seg.control2.x, -seg.control2.y, p1.x, -p1.y);
+            break;
+        case "arc" : {
+            // map the unit circle into the ellipse
+            ctx.save();
+            ctx.transform(seg.axis1.x, -seg.axis1.y, seg.axis2.x, -seg.axis2.y, seg.center.x, -seg.center.y);
+            ctx.arc(0, 0, 1, seg.angle_start, seg.angle_end, seg.angle_end < seg.angle_start);
+            ctx.restore();
+        } break;
+    }
+}
+
+function trace_points(ctx : CanvasRenderingContext2D, diagram : Diagram, closed : boolean,
+    begin_path : boolean = true) : void {
+    if (diagram.path == undefined) return;
+    let path = diagram.path;
+    if (begin_path) ctx.beginPath();
+    if (path.points.length == 0) return;
+    ctx.moveTo(path.points[0].x, -path.points[0].y);
+    for (let i = 0; i < path.segment_count(closed); i++) {
+        let [seg, _, p1] = path.segment_data(i);
+        trace_segment(ctx, seg, p1);
+    }
+    if (closed) ctx.closePath();
+}
+
+function draw_polygon(ctx : CanvasRenderingContext2D, diagram : Diagram, pixel_size : number) : void {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    ctx.save();
+    ctx.globalAlpha *= parseFloat(style["opacity"]);
+    if (diagram.type == DiagramType.CompoundPolygon) {
+        // trace all the rings as a single path
+        ctx.beginPath();
+        for (let ring of diagram.children) trace_points(ctx, ring, true, false);
+    } else {
+        trace_points(ctx, diagram, true);
+    }
+    if (is_paint(style["fill"])) {
+        fill_paint(ctx, style["fill"], diagram, style["fill-rule"] as CanvasFillRule);
+    } else if (style["fill"] != "none") {
+        ctx.fillStyle = get_color(style["fill"], tab_color);
+        ctx.fill(style["fill-rule"] as CanvasFillRule);
+    }
+    if (style["stroke"] != "none") {
+        set_stroke_style(ctx, style, pixel_size);
+        ctx.stroke();
+    }
+    ctx.restore();
+}
+
+/**
+ * Apply the opacity of a gradient stop to its color
+ */
+function stop_color(ctx : CanvasRenderingContext2D, stop : GradientStop) : string {
+    let color = get_color(stop.color, tab_color);
+    if (stop.opacity >= 1) return color;
+    // let the canvas normalize the color into `#rrggbb` or `rgba(r, g, b, a)`
+    ctx.fillStyle = color;
+    let normalized = ctx.fillStyle as string;
+    if (normalized.startsWith("#")) {
+        let [r, g, b] = [1, 3, 5].map(i => parseInt(normalized.slice(i, i+2), 16));
+        return `rgba(${r}, ${g}, ${b}, ${stop.opacity})`;
+    }
+    let values = normalized.match(/[\d.]+/g)?.map(parseFloat) ?? [0, 0, 0, 1];
+    return `rgba(${values[0]}, ${values[1]}, ${values[2]}, ${(values[3] ?? 1) * stop.opacity})`;
+}
+
+/**
+ * Fill the current path with a gradient or a pattern
+ * gradients are relative to the bounding box of the diagram (like svg `objectBoundingBox`),
+ * patterns are drawn inside the path (the current path is kept)
+ */
+function fill_paint(ctx : CanvasRenderingContext2D, paint : Paint, diagram : Diagram, fill_rule : CanvasFillRule) : void {
+    let [min, max] = diagram.bounding_box();
+    // bounding box in svg coordinate
+    let x0 = min.x, y0 = -max.y, w = max.x - min.x, h = max.y - min.y;
+    if (w <= 0 || h <= 0) return;
+    ctx.save();
+    switch (paint.type) {
+        case 'linear-gradient' :
+        case 'radial-gradient' : {
+            let gradient : CanvasGradient;
+            if (paint.type == 'linear-gradient') {
+                let dx = Math.cos(paint.angle) / 2;
+                let dy = Math.sin(paint.angle) / 2;
+                gradient = ctx.createLinearGradient(0.5 - dx, 0.5 + dy, 0.5 + dx, 0.5 - dy);
+            } else {
+                let [cx, cy] = paint.center;
+                gradient = ctx.createRadialGradient(cx, 1 - cy, 0, cx, 1 - cy, paint.radius);
+            }
+            for (let stop of paint.stops) gradient.addColorStop(stop.offset, stop_color(ctx, stop));
+            // the gradient is defined in the unit square of the bounding box
+            ctx.transform(w, 0, 0, h, x0, y0);
+            ctx.fillStyle = gradient;
+            ctx.fill(fill_rule);
+        } break;
+        case 'hatch-pattern' :
+        case 'dot-pattern' : {
+            ctx.clip(fill_rule);
+            if (paint.background != 'none') {
+                ctx.fillStyle = get_color(paint.background, tab_color);
+                ctx.fillRect(x0, y0, w, h);
+            }
+            let s = paint.spacing;
+            let corners = [[x0, y0], [x0 + w, y0], [x0, y0 + h], [x0 + w, y0 + h]];
+            let shapes = new Path2D();
+            if (paint.type == 'hatch-pattern') {
+                // same placement as the svg pattern, lines satisfy `n.p = s/2 + k*s`
+                let d = [Math.cos(paint.angle), -Math.sin(paint.angle)];
+                let n = [Math.sin(paint.angle), Math.cos(paint.angle)];
+                let directions = paint.cross ? [[d, n], [n, d]] : [[d, n]];
+                let half_diagonal = Math.hypot(w, h);
+                for (let [dir, normal] of directions) {
+                    let proj = corners.map(c => c[0]*normal[0] + c[1]*normal[1]);
+                    let proj_center = (x0 + w/2)*normal[0] + (y0 + h/2)*normal[1];
+                    for (let k = Math.ceil((Math.min(...proj) - s/2)/s); k <= Math.floor((Math.max(...proj) - s/2)/s); k++) {
+                        let offset = s/2 + k*s;
+                        // point on the line closest to the center of the bounding box
+                        let px = (x0 + w/2) + normal[0]*(offset - proj_center);
+                        let py = (y0 + h/2) + normal[1]*(offset - proj_center);
+                        shapes.moveTo(px - dir[0]*half_diagonal, py - dir[1]*half_diagonal);
+                        shapes.lineTo(px + dir[0]*half_diagonal, py + dir[1]*half_diagonal);
+                    }
+                }
+                ctx.strokeStyle = get_color(paint.color, tab_color);
+                ctx.lineWidth = paint.strokewidth;
+                ctx.stroke(shapes);
+            } else {
+                for (let i = Math.floor(x0/s); i*s <= x0 + w; i++) {
+                    for (let j = Math.floor(y0/s); j*s <= y0 + h; j++) {
+                        shapes.moveTo((i + 0.5)*s + paint.radius, (j + 0.5)*s);
+                        shapes.arc((i + 0.5)*s, (j + 0.5)*s, paint.radius, 0, 2*Math.PI);
+                    }
+                }
+                ctx.fillStyle = get_color(paint.color, tab_color);
+                ctx.fill(shapes);
+            }
+        } break;
+    }
+    ctx.restore();
+}
+
+function draw_curve(ctx : CanvasRenderingContext2D, diagram : Diagram, pixel_size : number) : void {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    if (style["stroke"] == "none") return;
+    ctx.save();
+    ctx.globalAlpha *= parseFloat(style["opacity"]);
+    trace_points(ctx, diagram, false);
+    set_stroke_style(ctx, style, pixel_size);
+    ctx.stroke();
+    draw_markers(ctx, diagram);
+    ctx.restore();
+}
+
+/**
+ * Draw the markers of a curve (the stroke style has to be set)
+ */
+function draw_markers(ctx : CanvasRenderingContext2D, diagram : Diagram) : void {
+    let scale = marker_scale(diagram);
+    ctx.setLineDash([]);
+    ctx.fillStyle = ctx.strokeStyle;
+    for (let [shape, pos, angle] of marker_placements(diagram)) {
+        let geometry = marker_geometry(shape);
+        ctx.beginPath();
+        if (geometry.type == 'circle') {
+            ctx.arc(pos.x, -pos.y, geometry.radius * scale, 0, 2*Math.PI);
+        } else {
+            let points = geometry.points.map(p => p.scale(scale).rotate(angle).add(pos));
+            ctx.moveTo(points[0].x, -points[0].y);
+            for (let p of points.slice(1)) ctx.lineTo(p.x, -p.y);
+            if (geometry.type == 'polygon') ctx.closePath();
+        }
+        if (geometry.filled) ctx.fill();
+        ctx.stroke();
+    }
+}
+
+/**
+ * Draw an image diagram
+ * @param redraw function to call when the image is loaded (if it is not loaded yet)
+ */
+function draw_image(ctx : CanvasRenderingContext2D, diagram : Diagram, redraw : () => void) : void {
+    let src = diagram.imgdata.src;
+    if (src == undefined) return;
+    if (diagram.path == undefined) return;
+    if (diagram.path.points.length != 4) return;
+
+    let img = image_cache[src];
+    if (img == undefined) {
+        img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = redraw;
+        img.src = src;
+        image_cache[src] = img;
+    }
+    if (!img.complete || img.naturalWidth == 0) return;
+
+    // path: bottom-left, bottom-right, top-right, top-left
+    let points = diagram.path.points;
+    let width  = points[1].sub(points[0]).length();
+    let height = points[2].sub(points[1]).length();
+    let ex = points[1].sub(points[0]).normalize();
+    let ey = points[3].sub(points[0]).normalize();
+
+    ctx.save();
+    ctx.transform(ex.x, -ex.y, -ey.x, ey.y, points[3].x, -points[3].y);
+    ctx.drawImage(img, 0, 0, width, height);
+    ctx.restore();
+}
+
+function draw_text(ctx : CanvasRenderingContext2D, diagram : Diagram, calculated_scale : number) : void {
+    let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
+    let textdata = {...default_textdata, ...diagram.textdata}; // use default if not defined
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+
+    let scale = textdata["font-scale"] == "auto" ?
+        calculated_scale : parseFloat(textdata["font-scale"] as string);
+    let font_size = parseFloat(textdata["font-size"] as string) * scale;
+
+    let text_content = textdata["text"];
+    if (diagram.tags.includes('textvar') && !is_texstr(text_content))
+        text_content = str_to_mathematical_italic(text_content);
+
+    ctx.save();
+    ctx.globalAlpha *= parseFloat(style["opacity"]);
+    ctx.translate(diagram.path.points[0].x, -diagram.path.points[0].y);
+    ctx.rotate(parseFloat(textdata["angle"] as string));
+    ctx.font = font_string(textdata["font-style"], textdata["font-weight"], font_size, textdata["font-family"]);
+    ctx.textAlign = anchor_to_textalign(textdata["text-anchor"]);
+    ctx.textBaseline = "alphabetic";
+    let dy = parse_length(textdata["dy"], font_size);
+    if (style["fill"] != "none") {
+        ctx.fillStyle = get_color(style["fill"] as string, tab_color);
+        ctx.fillText(text_content, 0, dy);
+    }
+    if (style["stroke"] != "none") {
+        // non-scaling stroke width is relative to the text scale
+        set_stroke_style(ctx, style, scale);
+        ctx.strokeText(text_content, 0, dy);
+    }
+    ctx.restore();
+}
+
+function draw_multiline_text(ctx : CanvasRenderingContext2D, diagram : Diagram, calculated_scale : number) : void {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    if (diagram.multilinedata?.content == undefined) { throw new Error("MultilineText must have multilinedata"); }
+
+    // use default if not defined
+    let textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+    let diagram_font_size = textdata["font-size"];
+    let dg_scale_factor = diagram.multilinedata["scale-factor"] ?? 1;
+
+    // group the tspans into lines so that the text-anchor can be applied to each line
+    type span_t = { text : string, font : string, font_size : number, dx : string, dy : string, style : {[key : string] : any} };
+    let lines : span_t[][] = [];
+    let is_firstline : boolean = true;
+    let is_in_front  : boolean = true;
+    let newline_dy   : string  = "1em";
+    for (let tspandata of diagram.multilinedata.content) {
+        if (tspandata.text == "\n") {
+            is_in_front = true;
+            newline_dy = tspandata.style['dy'] ?? "1em";
+            continue;
+        }
+
+        let not_setting_dy = (tspandata.style['dy'] == undefined)
+        let tspanstyle = {
+            ...default_text_diagram_style,
+            ...textdata,
+            ...{dy : "0", dx : "0"},
+            ...{"font-size" : diagram_font_size},
+            ...tspandata.style
+        };
+        if (is_in_front) {
+            let textdata_dy = textdata["dy"] as string ?? "0";
+            if (not_setting_dy) tspanstyle.dy = is_firstline ? textdata_dy : newline_dy;
+            lines.push([]);
+            is_in_front = false;
+        }
+
+        let scale = tspanstyle["font-scale"] == "auto" ?
+            calculated_scale : parseFloat(tspanstyle["font-scale"] as string);
+        let font_size = parseFloat(tspanstyle["font-size"] as string) * scale * dg_scale_factor;
+
+        let text = tspandata.text;
+        if (tspanstyle["textvar"]) text = str_to_mathematical_italic(text);
+        lines[lines.length-1].push({
+            text, font_size,
+            font : font_string(tspanstyle["font-style"] as string, tspanstyle["font-weight"] as string,
+                font_size, tspanstyle["font-family"] as string),
+            dx : tspanstyle.dx as string, dy : tspanstyle.dy as string,
+            style : tspanstyle,
+        });
+        is_firstline = false;
+    }
+
+    ctx.save();
+    ctx.translate(diagram.path.points[0].x, -diagram.path.points[0].y);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "alphabetic";
+    let base_alpha = ctx.globalAlpha;
+    let y = 0;
+    for (let line of lines) {
+        // measure the line to apply text-anchor
+        let line_width = 0;
+        for (let span of line) {
+            ctx.font = span.font;
+            line_width += parse_length(span.dx, span.font_size) + ctx.measureText(span.text).width;
+        }
+        let x = 0;
+        if (textdata["text-anchor"] == "middle") x = -line_width/2;
+        if (textdata["text-anchor"] == "end")    x = -line_width;
+
+        for (let span of line) {
+            ctx.font = span.font;
+            x += parse_length(span.dx, span.font_size);
+            y += parse_length(span.dy, span.font_size);
+            ctx.globalAlpha = base_alpha * parseFloat(span.style["opacity"]);
+            if (span.style["fill"] != "none") {
+                ctx.fillStyle = get_color(span.style["fill"], tab_color);
+                ctx.fillText(span.text, x, y);
+            }
+            if (span.style["stroke"] != "none") {
+                ctx.strokeStyle = get_color(span.style["stroke"], tab_color);
+                ctx.strokeText(span.text, x, y);
+            }
+            x += ctx.measureText(span.text).width;
+        }
+    }
+    ctx.restore();
+}
+
+/**
+ * Trace the shapes of a clip diagram into the current path
+ */
+function trace_clip(ctx : CanvasRenderingContext2D, clip : Diagram) : void {
+    switch (clip.type) {
+        case DiagramType.Polygon : trace_points(ctx, clip, true, false); break;
+        case DiagramType.CompoundPolygon :
+        case DiagramType.Diagram : {
+            for (let d of clip.children) trace_clip(ctx, d);
+        } break;
+        default : break; // only closed shapes are used for clipping
+    }
+}
+
+/**
+ * Set the clipping region of `ctx` to the clip path of `diagram`
+ * (the caller is responsible for `ctx.save()` and `ctx.restore()`)
+ */
+function apply_clip(ctx : CanvasRenderingContext2D, diagram : Diagram) : void {
+    if (diagram.clippath == undefined) return;
+    let rule = diagram.clippath.type == DiagramType.CompoundPolygon ?
+        diagram.clippath.style["fill-rule"] as CanvasFillRule : "nonzero";
+    ctx.beginPath();
+    trace_clip(ctx, diagram.clippath);
+    ctx.clip(rule ?? "nonzero");
+}
+
+/**
+ * Apply the matrix of a lazily transformed diagram to `ctx`
+ * (the caller is responsible for `ctx.save()` and `ctx.restore()`)
+ * @returns the size of one displayed pixel in the transformed coordinate
+ */
+function apply_matrix(ctx : CanvasRenderingContext2D, diagram : Diagram, pixel_size : number) : number {
+    let m = diagram.matrix;
+    if (m == undefined) return pixel_size;
+    ctx.transform(m.a, -m.b, -m.c, m.d, m.e, -m.f);
+    let scale = m.scale_factor();
+    return scale > 0 ? pixel_size / scale : pixel_size;
+}
+
+function f_draw_to_canvas(ctx : CanvasRenderingContext2D, diagram : Diagram, pixel_size : number,
+    redraw : () => void) : void {
+    switch (diagram.type) {
+        case DiagramType.Polygon : draw_polygon(ctx, diagram, pixel_size); break;
+        case DiagramType.CompoundPolygon : draw_polygon(ctx, diagram, pixel_size); break;
+        case DiagramType.Curve   : draw_curve(ctx, diagram, pixel_size); break;
+        case DiagramType.Image   : draw_image(ctx, diagram, redraw); break;
+        case DiagramType.Text    :
+        case DiagramType.MultilineText : break; // texts are drawn last
+        case DiagramType.Diagram : {
+            ctx.save();
+            let local_pixel_size = apply_matrix(ctx, diagram, pixel_size);
+            apply_clip(ctx, diagram);
+            for (let d of diagram.children) f_draw_to_canvas(ctx, d, local_pixel_size, redraw);
+            ctx.restore();
+        } break;
+        default: console.warn("Unreachable, unknown diagram type : " + diagram.type);
+    }
+}
+
+function draw_texts(ctx : CanvasRenderingContext2D, diagram : Diagram, calculated_scale : number) : void {
+    if (diagram.type == DiagramType.Text) {
+        draw_text(ctx, diagram, calculated_scale);
+    } else if (diagram.type == DiagramType.MultilineText) {
+        draw_multiline_text(ctx, diagram, calculated_scale);
+    } else if (diagram.type == DiagramType.Diagram) {
+        ctx.save();
+        apply_matrix(ctx, diagram, 1);
+        apply_clip(ctx, diagram);
+        for (let d of diagram.children) draw_texts(ctx, d, calculated_scale);
+        ctx.restore();
+    }
+}
+
+function render_canvas(canvas : HTMLCanvasElement, diagram : Diagram, viewbox : viewbox_t, calculated_scale : number,
+    render_text : boolean, clear_canvas : boolean, pixel_ratio : number) : void {
+    let ctx = canvas.getContext("2d");
+    if (ctx == null) { console.warn("Cannot get the 2d context of the canvas"); return; }
+
+    let [vx, vy, vw, vh] = viewbox;
+    // preserveAspectRatio : xMidYMid meet
+    let scale = Math.min(canvas.width / vw, canvas.height / vh);
+    let offset_x = (canvas.width  - vw * scale) / 2;
+    let offset_y = (canvas.height - vh * scale) / 2;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (clear_canvas) ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(scale, 0, 0, scale, offset_x - vx * scale, offset_y - vy * scale);
+
+    // the size of one displayed pixel in the diagram coordinate
+    let pixel_size = pixel_ratio / scale;
+    let redraw = () => {
+        render_canvas(canvas, diagram, viewbox, calculated_scale, render_text, clear_canvas, pixel_ratio);
+    };
+    f_draw_to_canvas(ctx, diagram, pixel_size, redraw);
+    if (render_text) draw_texts(ctx, diagram, calculated_scale);
+    ctx.restore();
+}
+
+/**
+ * Draw a diagram to a canvas element
+ * @param canvas the canvas element to draw to
+ * @param diagram the diagram to draw
+ * @param viewbox the area of the diagram to draw `[x, y, width, height]` in svg coordinate (y flipped)
+ * if undefined, it is calculated from the bounding box of the diagram
+ * @param render_text whether to render text
+ * @param clear_canvas whether to clear the canvas before drawing
+ * @param pixel_ratio ratio between the canvas pixel and the displayed pixel (e.g. `window.devicePixelRatio`)
+ * @returns the viewbox used
+ */
+export function draw_to_canvas(canvas : HTMLCanvasElement, diagram : Diagram, viewbox? : viewbox_t,
+    render_text : boolean = true, clear_canvas : boolean = true, pixel_ratio : number = 1) : viewbox_t {
+    let calculated = calculate_viewbox(diagram, canvas.width / pixel_ratio, canvas.height / pixel_ratio, 10, render_text);
+    if (viewbox == undefined) viewbox = calculated.viewbox;
+    render_canvas(canvas, diagram, viewbox, calculated.calculated_scale, render_text, clear_canvas, pixel_ratio);
+    return viewbox;
+}
+
+/**
+ * Draw a diagram to a canvas that is placed inside the svg element
+ * the canvas is put inside the inner svg (meta=diagram_svg) in a `foreignObject`,
+ * so the other svg layers (locator, drag and drop, button) still work the same way as `draw_to_svg`
+ * @param outer_svgelement the outer svg element to draw to
+ * @param diagram the diagram to draw
+ * @param render_text whether to render text
+ */
+export function draw_to_canvas_in_svg(outer_svgelement : SVGSVGElement, diagram : Diagram,
+    render_text : boolean = true) : void {
+
+    let svgelement : SVGSVGElement | undefined = undefined;
+    // check if outer_svgelement has a child with meta=diagram_svg
+    for (let i in outer_svgelement.children) {
+        let child = outer_svgelement.children[i];
+        if (child instanceof SVGSVGElement && child.getAttribute("meta") == "diagram_svg") {
+            svgelement = child;
+            break;
+        }
+    }
+    if (svgelement == undefined) {
+        // if svgelemet doesn't exist yet, create it
+        svgelement = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+        svgelement.setAttribute("meta", "diagram_svg")
+        svgelement.setAttribute("width", "100%");
+        svgelement.setAttribute("height", "100%");
+        outer_svgelement.appendChild(svgelement);
+    }
+
+    let foreign = svgelement.querySelector("foreignObject[meta=diagram_canvas]");
+    if (foreign == null) {
+        svgelement.innerHTML = "";
+        foreign = document.createElementNS("http://www.w3.org/2000/svg", "foreignObject");
+        foreign.setAttribute("meta", "diagram_canvas");
+        let new_canvas = document.createElement("canvas");
+        new_canvas.style.width  = "100%";
+        new_canvas.style.height = "100%";
+        new_canvas.style.display = "block";
+        foreign.appendChild(new_canvas);
+        svgelement.appendChild(foreign);
+    }
+    let canvas = foreign.querySelector("canvas") as HTMLCanvasElement;
+
+    let svg_width  = svgelement.width.baseVal.value;
+    let svg_height = svgelement.height.baseVal.value;
+    let { viewbox, calculated_scale } = calculate_viewbox(diagram, svg_width, svg_height, 10, render_text);
+    let [vx, vy, vw, vh] = viewbox;
+    svgelement.setAttribute("viewBox", `${vx} ${vy} ${vw} ${vh}`);
+    svgelement.setAttribute("preserveAspectRatio", "xMidYMid meet");
+    foreign.setAttribute("x", vx.toString());
+    foreign.setAttribute("y", vy.toString());
+    foreign.setAttribute("width", vw.toString());
+    foreign.setAttribute("height", vh.toString());
+
+    // the foreignObject is displayed with the same scaling as the svg viewbox
+    let pixel_ratio  = window.devicePixelRatio ?? 1;
+    let screen_scale = Math.min(svg_width / vw, svg_height / vh);
+    canvas.width  = Math.max(1, Math.round(vw * screen_scale * pixel_ratio));
+    canvas.height = Math.max(1, Math.round(vh * screen_scale * pixel_ratio));
+    render_canvas(canvas, diagram, viewbox, calculated_scale, render_text, true, pixel_ratio);
+}
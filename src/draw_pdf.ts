@@ -0,0 +1,618 @@
+import { Diagram, DiagramType, Path, marker_placements, marker_scale } from "./diagram.js";
+import { Vector2 } from "./vector.js";
+import { tab_color, get_color, color_to_rgba } from "./color_palette.js";
+import { str_to_normal_from_mathematical_italic } from './unicode_utils.js';
+import { PathSegment, segment_to_cubics } from './path_segment.js';
+import { Paint, is_paint, paint_solid_color } from './paint.js';
+import { marker_geometry } from './marker.js';
+import { measure_text_width } from './text_metrics.js';
+import { default_diagram_style, default_text_diagram_style, default_textdata, is_texstr } from './draw_svg.js';
+import { calculate_viewbox } from './draw_svg_string.js';
+
+// Vector PDF writer, it works directly on the Diagram tree so it doesn't need the DOM
+// the page is in pt, the diagram is placed with a `cm` transform so the paths are written in diagram unit
+// (one pixel of stroke width is one pt, same as the svg drawn at the same width)
+// \* texts use the standard PDF fonts (Helvetica, Times, Courier), characters outside of latin-1 are replaced
+// \* images can be JPEG or PNG (without alpha channel), either as data url or given in `options.images`
+// \* gradients and patterns are drawn with a solid color
+// lazy transforms are baked before drawing
+
+export type pdf_options = {
+    width       : number, // width of the page in pt
+    height?     : number, // height of the page in pt, if undefined, it is calculated from the aspect ratio
+    padding     : number, // padding around the diagram in pt
+    render_text : boolean,
+    background? : string,
+    images      : {[src : string] : Uint8Array}, // content of the image files (for images that are not data url)
+}
+
+export const default_pdf_options : pdf_options = {
+    width       : 595, // A4
+    height      : undefined,
+    padding     : 10,
+    render_text : true,
+    background  : undefined,
+    images      : {},
+}
+
+type PDFImage = { width : number, height : number, dict : string, data : Uint8Array };
+
+/**
+ * State of the document being written, the resources are shared by all the pages
+ */
+type PDFDocument = {
+    objects    : (Uint8Array | undefined)[], // objects[i] is the object number i+1
+    fonts      : Map<string, string>, // base font to resource name
+    opacities  : Map<string, string>, // "fill stroke" opacity to resource name
+    images     : Map<string, string>, // src to resource name
+    image_refs : Map<string, number>, // resource name to object number
+    opt        : pdf_options,
+}
+
+function latin1_bytes(s : string) : Uint8Array {
+    let bytes = new Uint8Array(s.length);
+    for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i) & 0xff;
+    return bytes;
+}
+
+function concat_bytes(chunks : Uint8Array[]) : Uint8Array {
+    let result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (let c of chunks) { result.set(c, offset); offset += c.length; }
+    return result;
+}
+
+/**
+ * Add an object to the document
+ * @param num the object number if it is reserved, if undefined, a new number is used
+ * @returns the object number
+ */
+function add_object(doc : PDFDocument, content : string | Uint8Array[], num? : number) : number {
+    if (num == undefined) { doc.objects.push(undefined); num = doc.objects.length; }
+    let body = typeof content == 'string' ? [latin1_bytes(content)] : content;
+    doc.objects[num - 1] = concat_bytes([latin1_bytes(`${num} 0 obj\n`), ...body, latin1_bytes("\nendobj\n")]);
+    return num;
+}
+
+function add_stream(doc : PDFDocument, dict : string, data : Uint8Array) : number {
+    return add_object(doc, [latin1_bytes(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, latin1_bytes("\nendstream")]);
+}
+
+function fmt(x : number) : string {
+    let v = Math.round(x * 1e6) / 1e6;
+    return (v == 0 ? 0 : v).toString();
+}
+
+/**
+ * Escape a string for a PDF string literal, the characters outside of latin-1 are replaced by `?`
+ */
+function pdf_string(s : string) : string {
+    let result = "";
+    for (let char of s) {
+        let code = char.codePointAt(0) ?? 63;
+        if (char == "\\" || char == "(" || char == ")") result += "\\" + char;
+        else if (code >= 32 && code < 127) result += char;
+        else if (code >= 160 && code < 256) result += "\\" + code.toString(8).padStart(3, "0");
+        else result += "?";
+    }
+    return `(${result})`;
+}
+
+/**
+ * Get the color of a style value (a solid color is used for gradients and patterns)
+ * @returns `[r, g, b, a]` or undefined if the color is `none`
+ */
+function resolve_color(color : string | Paint | undefined) : [number, number, number, number] | undefined {
+    if (color == undefined) return undefined;
+    if (is_paint(color)) color = paint_solid_color(color);
+    return color_to_rgba(get_color(color, tab_color));
+}
+
+function opacity_operator(doc : PDFDocument, fill : number, stroke : number) : string {
+    if (fill >= 1 && stroke >= 1) return "";
+    let key = `${fmt(fill)} ${fmt(stroke)}`;
+    let name = doc.opacities.get(key);
+    if (name == undefined) {
+        name = `GS${doc.opacities.size}`;
+        doc.opacities.set(key, name);
+    }
+    return `/${name} gs`;
+}
+
+function path_operators(points : Vector2[], segments : (PathSegment | null | undefined)[], closed : boolean) : string[] {
+    if (points.length == 0) return [];
+    let ops = [`${fmt(points[0].x)} ${fmt(points[0].y)} m`];
+    let n_segments = closed ? points.length : points.length - 1;
+    for (let i = 0; i < n_segments; i++) {
+        let p0 = points[i];
+        let p1 = points[(i + 1) % points.length];
+        let seg = segments[i];
+        if (seg == undefined || seg.type == "line") {
+            // the closing line is drawn by `h`
+            if (!(closed && i == n_segments - 1)) ops.push(`${fmt(p1.x)} ${fmt(p1.y)} l`);
+            continue;
+        }
+        for (let [c1, c2, p] of segment_to_cubics(seg, p0, p1))
+            ops.push(`${fmt(c1.x)} ${fmt(c1.y)} ${fmt(c2.x)} ${fmt(c2.y)} ${fmt(p.x)} ${fmt(p.y)} c`);
+    }
+    if (closed) ops.push("h");
+    return ops;
+}
+
+/**
+ * Get the operators that set the stroke style
+ * @param pixel size of a pixel in diagram unit
+ * @returns the operators, or undefined if the stroke is `none`
+ */
+function stroke_operators(style : {[key : string] : any}, pixel : number) : [string[], number] | undefined {
+    let color = resolve_color(style["stroke"]);
+    if (color == undefined) return undefined;
+    let scale = style["vector-effect"] == "non-scaling-stroke" ? pixel : 1;
+    let caps  : {[key : string] : number} = { "butt" : 0, "round" : 1, "square" : 2 };
+    let joins : {[key : string] : number} = { "miter" : 0, "round" : 1, "bevel" : 2 };
+    let ops = [
+        `${fmt(color[0])} ${fmt(color[1])} ${fmt(color[2])} RG`,
+        `${fmt(parseFloat(style["stroke-width"]) * scale)} w`,
+        `${caps[style["stroke-linecap"]] ?? 0} J`,
+        `${joins[style["stroke-linejoin"]] ?? 0} j`,
+    ];
+    let dasharray = style["stroke-dasharray"] as string | undefined;
+    if (dasharray != undefined && dasharray != "none") {
+        let values = dasharray.split(/[\s,]+/).map(parseFloat).filter(x => !isNaN(x));
+        if (values.length > 0) ops.push(`[${values.map(v => fmt(v * scale)).join(" ")}] 0 d`);
+    }
+    return [ops, color[3]];
+}
+
+/**
+ * Draw a filled and/or stroked path
+ * @param evenodd whether to use the even-odd fill rule
+ */
+function shape_operators(doc : PDFDocument, style : {[key : string] : any}, path_ops : string[],
+    pixel : number, evenodd : boolean, fill_shape : boolean) : string[] {
+    if (path_ops.length == 0) return [];
+    let fill = fill_shape ? resolve_color(style["fill"]) : undefined;
+    let stroke = stroke_operators(style, pixel);
+    if (fill == undefined && stroke == undefined) return [];
+    let opacity = parseFloat(style["opacity"] ?? "1");
+    if (isNaN(opacity)) opacity = 1;
+
+    let ops = ["q"];
+    let gs = opacity_operator(doc, opacity * (fill?.[3] ?? 1), opacity * (stroke?.[1] ?? 1));
+    if (gs != "") ops.push(gs);
+    if (fill != undefined) ops.push(`${fmt(fill[0])} ${fmt(fill[1])} ${fmt(fill[2])} rg`);
+    // concat, spreading a long path into `push` overflows the call stack
+    if (stroke != undefined) ops = ops.concat(stroke[0]);
+    ops = ops.concat(path_ops);
+    let paint = fill != undefined && stroke != undefined ? "B" : fill != undefined ? "f" : "S";
+    ops.push(evenodd && paint != "S" ? paint + "*" : paint);
+    ops.push("Q");
+    return ops;
+}
+
+function markers_operators(doc : PDFDocument, diagram : Diagram, style : {[key : string] : any}, pixel : number) : string[] {
+    let scale = marker_scale(diagram); // in diagram unit, the same as the svg markers
+    let ops : string[] = [];
+    for (let [shape, pos, angle] of marker_placements(diagram)) {
+        let geometry = marker_geometry(shape);
+        let marker_style = {...style, "fill" : geometry.filled ? style["stroke"] : "none", "stroke-dasharray" : "none"};
+        let path : string[];
+        if (geometry.type == 'circle') {
+            let r = geometry.radius * scale;
+            path = path_operators([pos.add(new Vector2(r, 0))],
+                [{ type : "arc", center : pos, axis1 : new Vector2(r, 0), axis2 : new Vector2(0, r), angle_start : 0, angle_end : 2*Math.PI }], true);
+        } else {
+            let points = geometry.points.map(p => p.scale(scale).rotate(angle).add(pos));
+            path = path_operators(points, [], geometry.type == 'polygon');
+        }
+        ops = ops.concat(shape_operators(doc, marker_style, path, pixel, false, geometry.filled));
+    }
+    return ops;
+}
+
+// ====== images =========
+
+function decode_base64(s : string) : Uint8Array {
+    let binary = atob(s);
+    return latin1_bytes(binary);
+}
+
+function read_uint32(data : Uint8Array, i : number) : number {
+    return ((data[i] << 24) | (data[i+1] << 16) | (data[i+2] << 8) | data[i+3]) >>> 0;
+}
+
+function jpeg_image(data : Uint8Array) : PDFImage | undefined {
+    let i = 2;
+    while (i + 9 < data.length) {
+        if (data[i] != 0xFF) return undefined;
+        let marker = data[i+1];
+        let length = (data[i+2] << 8) | data[i+3];
+        // start of frame (except DHT, JPG, and DAC)
+        if (marker >= 0xC0 && marker <= 0xCF && marker != 0xC4 && marker != 0xC8 && marker != 0xCC) {
+            let height = (data[i+5] << 8) | data[i+6];
+            let width  = (data[i+7] << 8) | data[i+8];
+            let components = data[i+9];
+            let colorspace = components == 1 ? "/DeviceGray" : components == 4 ? "/DeviceCMYK" : "/DeviceRGB";
+            let decode = components == 4 ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+            return { width, height, data,
+                dict : `/ColorSpace ${colorspace} /BitsPerComponent 8 /Filter /DCTDecode${decode}` };
+        }
+        i += 2 + length;
+    }
+    return undefined;
+}
+
+function png_image(data : Uint8Array) : PDFImage | undefined {
+    let width = 0, height = 0, bitdepth = 8, colortype = 0, interlace = 0;
+    let palette : Uint8Array | undefined = undefined;
+    let idat : Uint8Array[] = [];
+    let i = 8;
+    while (i + 8 <= data.length) {
+        let length = read_uint32(data, i);
+        let type = String.fromCharCode(...data.subarray(i + 4, i + 8));
+        let chunk = data.subarray(i + 8, i + 8 + length);
+        if (type == "IHDR") {
+            width = read_uint32(chunk, 0); height = read_uint32(chunk, 4);
+            bitdepth = chunk[8]; colortype = chunk[9]; interlace = chunk[12];
+        } else if (type == "PLTE") {
+            palette = chunk;
+        } else if (type == "IDAT") {
+            idat.push(chunk);
+        } else if (type == "IEND") {
+            break;
+        }
+        i += 12 + length;
+    }
+    // the alpha channel would have to be decompressed to be separated
+    if (interlace != 0 || colortype == 4 || colortype == 6) return undefined;
+    let colors = colortype == 2 ? 3 : 1;
+    let colorspace = colortype == 2 ? "/DeviceRGB" : "/DeviceGray";
+    if (colortype == 3) {
+        if (palette == undefined) return undefined;
+        let hex = Array.from(palette).map(b => b.toString(16).padStart(2, "0")).join("");
+        colorspace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${hex}>]`;
+    }
+    return { width, height, data : concat_bytes(idat),
+        dict : `/ColorSpace ${colorspace} /BitsPerComponent ${bitdepth} /Filter /FlateDecode ` +
+            `/DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitdepth} /Columns ${width} >>` };
+}
+
+/**
+ * Load an image as an image XObject
+ * @returns the resource name, or undefined if the image can't be loaded
+ */
+function load_image(doc : PDFDocument, src : string) : string | undefined {
+    let name = doc.images.get(src);
+    if (name != undefined) return name;
+
+    let data = doc.opt.images[src];
+    let match = src.match(/^data:[^;,]*;base64,(.*)$/);
+    if (data == undefined && match) data = decode_base64(match[1]);
+    if (data == undefined) {
+        console.warn("Image is not available in the PDF options : " + src);
+        return undefined;
+    }
+    let image : PDFImage | undefined = undefined;
+    if (data[0] == 0xFF && data[1] == 0xD8) image = jpeg_image(data);
+    else if (data[0] == 0x89 && data[1] == 0x50) image = png_image(data);
+    if (image == undefined) {
+        console.warn("Unsupported image format (only JPEG and PNG without alpha are supported) : " + src.substring(0, 64));
+        return undefined;
+    }
+
+    name = `Im${doc.images.size}`;
+    doc.images.set(src, name);
+    doc.image_refs.set(name, add_stream(doc,
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.dict}`, image.data));
+    return name;
+}
+
+function image_operators(doc : PDFDocument, diagram : Diagram) : string[] {
+    let src = diagram.imgdata.src;
+    if (src == undefined || diagram.path == undefined || diagram.path.points.length != 4) return [];
+    let name = load_image(doc, src);
+    if (name == undefined) return [];
+    // path: bottom-left, bottom-right, top-right, top-left
+    let [p0, p1, _, p3] = diagram.path.points;
+    let ex = p1.sub(p0), ey = p3.sub(p0);
+    return ["q", `${fmt(ex.x)} ${fmt(ex.y)} ${fmt(ey.x)} ${fmt(ey.y)} ${fmt(p0.x)} ${fmt(p0.y)} cm`, `/${name} Do`, "Q"];
+}
+
+// ====== texts =========
+
+/**
+ * Get the standard font that is the closest to a font family
+ */
+function standard_font(family : string, bold : boolean, italic : boolean) : string {
+    if (/mono|courier/i.test(family)) {
+        return "Courier" + (bold || italic ? "-" : "") + (bold ? "Bold" : "") + (italic ? "Oblique" : "");
+    }
+    if (/times|(^|[^-])serif/i.test(family)) {
+        if (bold && italic) return "Times-BoldItalic";
+        return bold ? "Times-Bold" : italic ? "Times-Italic" : "Times-Roman";
+    }
+    return "Helvetica" + (bold || italic ? "-" : "") + (bold ? "Bold" : "") + (italic ? "Oblique" : "");
+}
+
+function font_resource(doc : PDFDocument, font : string) : string {
+    let name = doc.fonts.get(font);
+    if (name == undefined) {
+        name = `F${doc.fonts.size}`;
+        doc.fonts.set(font, name);
+    }
+    return name;
+}
+
+/**
+ * Parse a length in `em` or in diagram unit (e.g. `dy`, `dx`)
+ */
+function parse_text_length(length : string | undefined, font_size : number) : number {
+    if (length == undefined) return 0;
+    let value = parseFloat(length);
+    if (isNaN(value)) return 0;
+    return length.trim().endsWith("em") ? value * font_size : value;
+}
+
+// a piece of text with a single style, `x` is relative to the start of the line
+type TextSpan = { text : string, font : string, size : number, x : number, baseline : number,
+    color : [number, number, number, number] | undefined };
+
+/**
+ * Get the span of a piece of text
+ * tex strings (`$...$`) and variables are drawn in italic
+ */
+function text_span(doc : PDFDocument, text : string, style : {[key : string] : any}, is_var : boolean, size : number) : TextSpan {
+    let italic = is_var || style["font-style"] == "italic";
+    if (is_texstr(text)) {
+        text = text.replace(/^\$+|\$+$/g, "");
+        italic = true;
+    }
+    text = str_to_normal_from_mathematical_italic(text);
+    let bold = style["font-weight"] == "bold";
+    let font = standard_font(style["font-family"] ?? "", bold, italic);
+    font_resource(doc, font);
+    return { text, font, size, x : 0, baseline : 0, color : resolve_color(style["fill"]) };
+}
+
+function span_width(span : TextSpan) : number {
+    let family = span.font.startsWith("Courier") ? "monospace" : span.font;
+    return measure_text_width(span.text, { family, size : span.size,
+        weight : /Bold/.test(span.font) ? "bold" : "normal", style : /Italic|Oblique/.test(span.font) ? "italic" : "normal" });
+}
+
+/**
+ * Draw lines of spans at a position, each line is anchored separately (same as svg text chunks)
+ */
+function text_lines_operators(doc : PDFDocument, lines : TextSpan[][], position : Vector2, angle : number,
+    anchor : string, opacity : number) : string[] {
+    let cos = Math.cos(angle), sin = Math.sin(angle);
+    let ops : string[] = [];
+    for (let line of lines) {
+        let width = line.length == 0 ? 0 : line[line.length - 1].x + span_width(line[line.length - 1]);
+        let shift = anchor == "middle" ? -width / 2 : anchor == "end" ? -width : 0;
+        for (let span of line) {
+            if (span.color == undefined || span.text == "") continue;
+            let lx = span.x + shift, ly = span.baseline;
+            let x = position.x + lx * cos - ly * sin;
+            let y = position.y + lx * sin + ly * cos;
+            ops.push("q");
+            let gs = opacity_operator(doc, opacity * span.color[3], 1);
+            if (gs != "") ops.push(gs);
+            ops.push("BT", `/${font_resource(doc, span.font)} ${fmt(span.size)} Tf`,
+                `${fmt(span.color[0])} ${fmt(span.color[1])} ${fmt(span.color[2])} rg`,
+                `${fmt(cos)} ${fmt(sin)} ${fmt(-sin)} ${fmt(cos)} ${fmt(x)} ${fmt(y)} Tm`,
+                `${pdf_string(span.text)} Tj`, "ET", "Q");
+        }
+    }
+    return ops;
+}
+
+function text_operators(doc : PDFDocument, diagram : Diagram, calculated_scale : number) : string[] {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
+    let textdata = {...default_textdata, ...diagram.textdata}; // use default if not defined
+    let scale = textdata["font-scale"] == "auto" ? calculated_scale : parseFloat(textdata["font-scale"] as string);
+    let size = parseFloat(textdata["font-size"] as string) * scale;
+
+    let span = text_span(doc, textdata["text"], {...textdata, ...style}, diagram.tags.includes('textvar'), size);
+    span.baseline = -parse_text_length(textdata["dy"], size);
+    // svg rotation is clockwise
+    let angle = -parseFloat(textdata["angle"] as string);
+    return text_lines_operators(doc, [[span]], diagram.path.points[0], isNaN(angle) ? 0 : angle,
+        textdata["text-anchor"] as string, parseFloat(style.opacity as string));
+}
+
+function multiline_text_operators(doc : PDFDocument, diagram : Diagram, calculated_scale : number) : string[] {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    if (diagram.multilinedata?.content == undefined) { throw new Error("MultilineText must have multilinedata"); }
+    // use default if not defined, follow the layout of the tspans in `draw_svg.ts`
+    let textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+    let dg_scale_factor = diagram.multilinedata["scale-factor"] ?? 1;
+
+    let lines : TextSpan[][] = [];
+    let baseline = 0, x = 0;
+    let is_firstline = true, is_in_front = true;
+    let newline_dy = "1em";
+    for (let tspandata of diagram.multilinedata.content) {
+        if (tspandata.text == "\n") {
+            is_in_front = true;
+            newline_dy = tspandata.style['dy'] ?? "1em";
+            continue;
+        }
+        let tspanstyle : {[key : string] : any} = {
+            ...default_text_diagram_style, ...textdata, ...{"font-size" : textdata["font-size"]}, ...tspandata.style
+        };
+        let scale = tspanstyle["font-scale"] == "auto" ? calculated_scale : parseFloat(tspanstyle["font-scale"]);
+        let size = parseFloat(tspanstyle["font-size"]) * scale * dg_scale_factor;
+
+        let dy = tspandata.style['dy'];
+        if (is_in_front) {
+            if (dy == undefined) dy = is_firstline ? textdata["dy"] as string : newline_dy;
+            lines.push([]);
+            x = 0;
+            is_in_front = false;
+        }
+        baseline -= parse_text_length(dy, size);
+        x += parse_text_length(tspandata.style['dx'], size);
+
+        let span = text_span(doc, tspandata.text, tspanstyle, Boolean(tspanstyle["textvar"]), size);
+        span.x = x;
+        span.baseline = baseline;
+        lines[lines.length - 1].push(span);
+        x += span_width(span);
+        is_firstline = false;
+    }
+    let opacity = parseFloat(diagram.style.opacity ?? "1");
+    return text_lines_operators(doc, lines, diagram.path.points[0], 0, textdata["text-anchor"] as string,
+        isNaN(opacity) ? 1 : opacity);
+}
+
+// ====== tree =========
+
+/**
+ * Get the path operators of the clip of a diagram (the closed shapes of the clip diagram)
+ */
+function clip_path_operators(diagram : Diagram) : string[] {
+    switch (diagram.type) {
+        case DiagramType.Polygon :
+            return diagram.path == undefined ? [] : path_operators(diagram.path.points, diagram.path.segments, true);
+        case DiagramType.CompoundPolygon :
+        case DiagramType.Diagram :
+            return diagram.children.flatMap(clip_path_operators);
+        default : return [];
+    }
+}
+
+function wrap_clip(diagram : Diagram, ops : string[]) : string[] {
+    if (diagram.clippath == undefined || ops.length == 0) return ops;
+    let clip = clip_path_operators(diagram.clippath);
+    if (clip.length == 0) return [];
+    let evenodd = diagram.clippath.type == DiagramType.CompoundPolygon && diagram.clippath.style["fill-rule"] == "evenodd";
+    return ["q", ...clip, evenodd ? "W* n" : "W n", ...ops, "Q"];
+}
+
+/**
+ * @param pixel size of a pixel in diagram unit
+ */
+function f_shapes_operators(doc : PDFDocument, diagram : Diagram, pixel : number) : string[] {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    switch (diagram.type) {
+        case DiagramType.Polygon : {
+            if (diagram.path == undefined) return [];
+            let path = path_operators(diagram.path.points, diagram.path.segments, true);
+            return shape_operators(doc, style, path, pixel, style["fill-rule"] == "evenodd", true);
+        }
+        case DiagramType.CompoundPolygon : {
+            let rings = diagram.children.map(c => c.path).filter(p => p != undefined) as Path[];
+            let path = rings.flatMap(r => path_operators(r.points, r.segments, true));
+            return shape_operators(doc, style, path, pixel, style["fill-rule"] == "evenodd", true);
+        }
+        case DiagramType.Curve : {
+            if (diagram.path == undefined) return [];
+            let path = path_operators(diagram.path.points, diagram.path.segments, false);
+            let ops = shape_operators(doc, style, path, pixel, false, false);
+            return ops.length == 0 ? ops : ops.concat(markers_operators(doc, diagram, style, pixel));
+        }
+        case DiagramType.Image : return image_operators(doc, diagram);
+        case DiagramType.Text :
+        case DiagramType.MultilineText : return [];
+        case DiagramType.Diagram :
+            return wrap_clip(diagram, diagram.children.flatMap(c => f_shapes_operators(doc, c, pixel)));
+        default : throw new Error("Unreachable, unknown diagram type : " + diagram.type);
+    }
+}
+
+function f_texts_operators(doc : PDFDocument, diagram : Diagram, calculated_scale : number) : string[] {
+    switch (diagram.type) {
+        case DiagramType.Text          : return text_operators(doc, diagram, calculated_scale);
+        case DiagramType.MultilineText : return multiline_text_operators(doc, diagram, calculated_scale);
+        case DiagramType.Diagram :
+            return wrap_clip(diagram, diagram.children.flatMap(c => f_texts_operators(doc, c, calculated_scale)));
+        default : return [];
+    }
+}
+
+/**
+ * Draw a diagram into a page
+ * @returns the object number of the page
+ */
+function add_page(doc : PDFDocument, diagram : Diagram, pages_ref : number, resources_ref : number) : number {
+    let opt = doc.opt;
+    diagram = diagram.bake_transform();
+    let { viewbox, calculated_scale } = calculate_viewbox(diagram, opt.width, opt.height, opt.padding, opt.render_text);
+    let [vx, vy, vw, vh] = viewbox;
+    let width  = opt.width;
+    let height = opt.height ?? (vw > 0 ? opt.width * vh / vw : opt.width);
+
+    // fit the viewbox in the page (xMidYMid meet), the viewbox is in svg coordinate (y axis flipped)
+    let s = (vw > 0 && vh > 0) ? Math.min(width / vw, height / vh) : 1;
+    let ox = (width - vw * s) / 2, oy = (height - vh * s) / 2;
+    let ops : string[] = [];
+    let background = opt.background == undefined ? undefined : resolve_color(opt.background);
+    if (background != undefined) {
+        ops.push(`${fmt(background[0])} ${fmt(background[1])} ${fmt(background[2])} rg`, `0 0 ${fmt(width)} ${fmt(height)} re`, "f");
+    }
+    ops.push(`${fmt(s)} 0 0 ${fmt(s)} ${fmt(ox - vx * s)} ${fmt(height - oy + vy * s)} cm`);
+    ops = ops.concat(f_shapes_operators(doc, diagram, 1 / s));
+    if (opt.render_text) ops = ops.concat(f_texts_operators(doc, diagram, calculated_scale));
+
+    let content = add_stream(doc, "", latin1_bytes(ops.join("\n")));
+    return add_object(doc, `<< /Type /Page /Parent ${pages_ref} 0 R /MediaBox [0 0 ${fmt(width)} ${fmt(height)}] ` +
+        `/Resources ${resources_ref} 0 R /Contents ${content} 0 R >>`);
+}
+
+/**
+ * Draw diagrams into a multi-page PDF (one diagram per page, e.g. for a worksheet booklet)
+ * \* this function doesn't need the DOM
+ * @param diagrams the diagrams to draw
+ * @param options options for the pages (set `height` to get pages of the same size)
+ * @returns the content of the PDF file
+ */
+export function draw_to_pdf_pages(diagrams : Diagram[], options? : Partial<pdf_options>) : Uint8Array {
+    let doc : PDFDocument = {
+        objects : [], fonts : new Map(), opacities : new Map(), images : new Map(), image_refs : new Map(),
+        opt : {...default_pdf_options, ...options}, // use default if not defined
+    };
+    // reserve the catalog, the page tree, and the resources
+    doc.objects.push(undefined, undefined, undefined);
+    let [catalog_ref, pages_ref, resources_ref] = [1, 2, 3];
+
+    let page_refs = diagrams.map(d => add_page(doc, d, pages_ref, resources_ref));
+
+    let fonts = Array.from(doc.fonts).map(([font, name]) =>
+        `/${name} ${add_object(doc, `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)} 0 R`);
+    let states = Array.from(doc.opacities).map(([key, name]) => {
+        let [fill, stroke] = key.split(" ");
+        return `/${name} << /Type /ExtGState /ca ${fill} /CA ${stroke} >>`;
+    });
+    let images = Array.from(doc.image_refs).map(([name, ref]) => `/${name} ${ref} 0 R`);
+    add_object(doc, `<< /Font << ${fonts.join(" ")} >> /ExtGState << ${states.join(" ")} >> ` +
+        `/XObject << ${images.join(" ")} >> >>`, resources_ref);
+    add_object(doc, `<< /Type /Pages /Kids [${page_refs.map(r => `${r} 0 R`).join(" ")}] /Count ${page_refs.length} >>`, pages_ref);
+    add_object(doc, `<< /Type /Catalog /Pages ${pages_ref} 0 R >>`, catalog_ref);
+
+    // header, objects, cross-reference table, and trailer
+    let chunks = [latin1_bytes("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n")];
+    let offset = chunks[0].length;
+    let xref = ["xref", `0 ${doc.objects.length + 1}`, "0000000000 65535 f "];
+    for (let obj of doc.objects) {
+        let bytes = obj as Uint8Array;
+        xref.push(`${offset.toString().padStart(10, "0")} 00000 n `);
+        chunks.push(bytes);
+        offset += bytes.length;
+    }
+    chunks.push(latin1_bytes(xref.join("\n") + "\n" +
+        `trailer\n<< /Size ${doc.objects.length + 1} /Root ${catalog_ref} 0 R >>\nstartxref\n${offset}\n%%EOF\n`));
+    return concat_bytes(chunks);
+}
+
+/**
+ * Draw a diagram into a single page PDF
+ * \* this function doesn't need the DOM
+ * @param diagram the diagram to draw
+ * @param options options for the page
+ * @returns the content of the PDF file
+ */
+export function draw_to_pdf(diagram : Diagram, options? : Partial<pdf_options>) : Uint8Array {
+    return draw_to_pdf_pages([diagram], options);
+}
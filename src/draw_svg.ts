@@ -1,7 +1,11 @@
-import { Diagram, DiagramType, DiagramStyle, TextData, DEFAULT_FONTSIZE } from "./diagram.js";
+import { Diagram, DiagramType, DiagramStyle, Path, default_textdata, _init_default_textdata } from "./diagram.js";
 import { tab_color, get_color } from "./color_palette.js";
 import { to_degree } from "./utils.js";
+import { Vector2, Affine2 } from './vector.js';
 import { str_to_mathematical_italic, str_to_normal_from_mathematical_italic } from './unicode_utils.js'
+import { path_to_svg_d, rings_to_svg_d } from './path_segment.js';
+import { Paint, is_paint, paint_to_svg_string } from './paint.js';
+import { default_markerdata, marker_to_svg_string } from './marker.js';
 
 // TODO : add guard for the dictionary key
 // since the implementation is using `for (let stylename in style)` without checking
@@ -18,6 +22,7 @@ export const default_diagram_style : DiagramStyle = {
     "stroke-linejoin"  : "round",
     "vector-effect"    : "non-scaling-stroke",
     "opacity"          : "1",
+    "fill-rule"        : "nonzero",
 }
 export const _init_default_diagram_style : DiagramStyle = {...default_diagram_style}
 
@@ -30,21 +35,11 @@ export const default_text_diagram_style : DiagramStyle = {
     "stroke-linejoin"  : "round",
     "vector-effect"    : "non-scaling-stroke",
     "opacity"          : "1",
+    "fill-rule"        : "nonzero",
 }
 export const _init_default_text_diagram_style : DiagramStyle = {...default_text_diagram_style}
 
-export const default_textdata : TextData = {
-    "text"             : "",
-    "font-family"      : "Latin Modern Math, sans-serif",
-    "font-size"        : DEFAULT_FONTSIZE,
-    "font-weight"      : "normal",
-    "text-anchor"      : "middle",
-    "dy"               : "0.25em",
-    "angle"            : "0",
-    "font-style"       : "normal",
-    "font-scale"       : "auto",
-}
-export const _init_default_textdata : TextData = {...default_textdata}
+export { default_textdata, _init_default_textdata };
 
 export function reset_default_styles() : void {
     for (let s in default_diagram_style) 
@@ -55,60 +50,142 @@ export function reset_default_styles() : void {
         (default_textdata as any)[s] = (_init_default_textdata as any)[s];
 }
 
-function draw_polygon(svgelement : SVGSVGElement, diagram : Diagram, svgtag? : string) : void {
+function points_to_string(points : Vector2[]) : string {
+    // svg coordinate have the y axis flipped
+    return points.map(p => `${p.x},${-p.y}`).join(" ");
+}
+
+// prefix and counter to create unique id for the defs (gradient, pattern, marker, and clipPath elements)
+// the keyed renderer uses a prefix per svg element and restarts the counter on each draw,
+// so that the ids don't change between frames
+let def_id_prefix  = "dg";
+let def_id_counter = 0;
+
+function new_def_id(kind : string) : string {
+    return `${def_id_prefix}_${kind}_${def_id_counter++}`;
+}
+
+/**
+ * Create the `<defs>` of a gradient or pattern fill
+ * @param svgelement the svg element to put the defs in
+ * @param paint the gradient or pattern
+ * @returns the fill value that refers to the paint
+ */
+function draw_paint(svgelement : SVGElement, paint : Paint) : string {
+    let id = new_def_id("paint");
+    let defs = document.createElementNS("http://www.w3.org/2000/svg", "defs");
+    defs.innerHTML = paint_to_svg_string(paint, id);
+    svgelement.appendChild(defs);
+    return `url(#${id})`;
+}
+
+function draw_polygon(svgelement : SVGElement, diagram : Diagram, svgtag? : string, key? : string) : void {
     // get properties
     let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
-    style.fill = get_color(style.fill as string, tab_color);
+    style.fill = is_paint(style.fill) ? draw_paint(svgelement, style.fill) : get_color(style.fill, tab_color);
     style.stroke = get_color(style.stroke as string, tab_color);
 
     // draw svg
-    let polygon = document.createElementNS("http://www.w3.org/2000/svg", "polygon");
+    // use svg path if the diagram has curved segments
+    let has_curve = diagram.path?.has_curved_segment() ?? false;
+    let polygon = has_curve ?
+        document.createElementNS("http://www.w3.org/2000/svg", "path") :
+        document.createElementNS("http://www.w3.org/2000/svg", "polygon");
     for (let stylename in style) {
         polygon.style[stylename as any] = (style as any)[stylename as any];
     }
     if (svgtag != undefined) polygon.setAttribute("_dg_tag", svgtag);
+    if (key != undefined) polygon.setAttribute("_dg_key", key);
     // polygon.style.fill = color_fill;
     // polygon.style.stroke = color_stroke;
     // use tab_color color palette
 
     svgelement.appendChild(polygon);
     if (diagram.path != undefined) {
-        for (let i = 0; i < diagram.path.points.length; i++) {
-            let p = diagram.path.points[i];
-            var point = svgelement.createSVGPoint();
-            point.x =  p.x;
-            point.y = -p.y;
-            polygon.points.appendItem(point);
+        if (polygon instanceof SVGPolygonElement) {
+            polygon.setAttribute("points", points_to_string(diagram.path.points));
+        } else {
+            polygon.setAttribute("d", path_to_svg_d(diagram.path.points, diagram.path.segments, true));
         }
     }
 }
 
 
-function draw_curve(svgelement : SVGSVGElement, diagram : Diagram, svgtag? : string) : void {
+/**
+ * Create the `<defs>` of the markers of a curve and refer to them from the curve element
+ * @param svgelement the svg element to put the defs in
+ * @param element the svg element of the curve
+ * @param diagram the curve diagram
+ * @param stroke the color of the curve
+ * @param strokewidth the stroke width of the curve
+ */
+function draw_markers(svgelement : SVGElement, element : SVGElement, diagram : Diagram,
+    stroke : string, strokewidth : string) : void {
+    let markerdata = {...default_markerdata, ...diagram.markerdata};
+    let defs_content = "";
+    for (let position of ['start', 'mid', 'end'] as const) {
+        let shape = markerdata[position];
+        if (shape == 'none') continue;
+        let id = new_def_id("marker");
+        defs_content += marker_to_svg_string(shape, id, markerdata.size, stroke, strokewidth, position == 'start');
+        element.setAttribute(`marker-${position}`, `url(#${id})`);
+    }
+    if (defs_content == "") return;
+    let defs = document.createElementNS("http://www.w3.org/2000/svg", "defs");
+    defs.innerHTML = defs_content;
+    svgelement.insertBefore(defs, element);
+}
+
+function draw_curve(svgelement : SVGElement, diagram : Diagram, svgtag? : string, key? : string) : void {
     // get properties
     let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
     style.fill = "none";
     style.stroke = get_color(style.stroke as string, tab_color);
 
     // draw svg
-    let polyline = document.createElementNS("http://www.w3.org/2000/svg", "polyline");
+    // use svg path if the diagram has curved segments
+    let has_curve = diagram.path?.has_curved_segment() ?? false;
+    let polyline = has_curve ?
+        document.createElementNS("http://www.w3.org/2000/svg", "path") :
+        document.createElementNS("http://www.w3.org/2000/svg", "polyline");
     for (let stylename in style) {
         polyline.style[stylename as any] = (style as any)[stylename as any];
     }
     if (svgtag != undefined) polyline.setAttribute("_dg_tag", svgtag);
+    if (key != undefined) polyline.setAttribute("_dg_key", key);
 
     svgelement.appendChild(polyline);
+    draw_markers(svgelement, polyline, diagram, style.stroke as string, style["stroke-width"] as string);
     if (diagram.path != undefined) {
-        for (let i = 0; i < diagram.path.points.length; i++) {
-            let p = diagram.path.points[i];
-            var point = svgelement.createSVGPoint();
-            point.x =  p.x;
-            point.y = -p.y;
-            polyline.points.appendItem(point);
+        if (polyline instanceof SVGPolylineElement) {
+            polyline.setAttribute("points", points_to_string(diagram.path.points));
+        } else {
+            polyline.setAttribute("d", path_to_svg_d(diagram.path.points, diagram.path.segments, false));
         }
     }
 }
 
+function draw_compound_polygon(svgelement : SVGElement, diagram : Diagram, svgtag? : string, key? : string) : void {
+    // get properties
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    style.fill = is_paint(style.fill) ? draw_paint(svgelement, style.fill) : get_color(style.fill, tab_color);
+    style.stroke = get_color(style.stroke as string, tab_color);
+
+    // draw all the rings as a single svg path
+    let path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    for (let stylename in style) {
+        path.style[stylename as any] = (style as any)[stylename as any];
+    }
+    if (svgtag != undefined) path.setAttribute("_dg_tag", svgtag);
+    if (key != undefined) path.setAttribute("_dg_key", key);
+
+    svgelement.appendChild(path);
+    let rings = diagram.children.map(c => c.path).filter(p => p != undefined) as Path[];
+    path.setAttribute("d", rings_to_svg_d(rings));
+    // used when the compound polygon is inside a clipPath
+    path.setAttribute("clip-rule", style["fill-rule"]);
+}
+
 /**
  * Convert image href to data url
  * This is necessary so that the image diagram can be downloaded as png
@@ -136,7 +213,7 @@ function set_image_href_dataURL(img : SVGImageElement, src : string) : void{
 
 }
 
-function draw_image(svgelement : SVGSVGElement, diagram : Diagram, svgtag? : string) : void {
+function draw_image(svgelement : SVGElement, diagram : Diagram, svgtag? : string, key? : string) : void {
     let image = document.createElementNS("http://www.w3.org/2000/svg", "image");
     image.setAttribute("xmlns:xlink", "http://www.w3.org/1999/xlink");
     if (diagram.imgdata.src == undefined) return;
@@ -162,11 +239,14 @@ function draw_image(svgelement : SVGSVGElement, diagram : Diagram, svgtag? : str
     let ypos = -diagram.path.points[3].y;
 
     set_image_href_dataURL(image, diagram.imgdata.src);
+    // the href is set asynchronously, the keyed renderer compares the source instead
+    image.setAttribute("_dg_src", diagram.imgdata.src);
     image.setAttribute("width", width.toString());
     image.setAttribute("height", height.toString());
     image.setAttribute("transform", `matrix(${a} ${b} ${c} ${d} ${xpos} ${ypos})`);
     image.setAttribute("preserveAspectRatio", "none");
     if (svgtag != undefined) image.setAttribute("_dg_tag", svgtag);
+    if (key != undefined) image.setAttribute("_dg_key", key);
 
     svgelement.appendChild(image);
 }
@@ -190,9 +270,47 @@ function collect_text(diagram : Diagram, type : DiagramType.Text | DiagramType.M
     }
 }
 
+/**
+ * Get the bounding box of the svg element, taking the clipped groups into account
+ * (`getBBox()` ignores `clip-path`)
+ */
+function get_clipped_bbox(svgelement : SVGSVGElement) : DOMRect {
+    let clipped_groups = Array.from(svgelement.querySelectorAll("g[_dg_clip_bbox]")) as SVGGElement[];
+    if (clipped_groups.length == 0) return svgelement.getBBox();
+
+    // replace each clipped group with an invisible rectangle of the visible area while measuring
+    let visible_boxes = clipped_groups.map(g => {
+        let bbox = g.getBBox();
+        let [cx, cy, cw, ch] = (g.getAttribute("_dg_clip_bbox") as string).split(" ").map(parseFloat);
+        let x0 = Math.max(bbox.x, cx), x1 = Math.min(bbox.x + bbox.width,  cx + cw);
+        let y0 = Math.max(bbox.y, cy), y1 = Math.min(bbox.y + bbox.height, cy + ch);
+        return (x1 >= x0 && y1 >= y0) ? [x0, y0, x1 - x0, y1 - y0] : undefined;
+    });
+    let proxies : SVGRectElement[] = [];
+    for (let i = 0; i < clipped_groups.length; i++) {
+        let g = clipped_groups[i];
+        g.style.display = "none";
+        let box = visible_boxes[i];
+        if (box == undefined) continue;
+        let rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+        rect.setAttribute("x", box[0].toString());
+        rect.setAttribute("y", box[1].toString());
+        rect.setAttribute("width", box[2].toString());
+        rect.setAttribute("height", box[3].toString());
+        rect.style.fill = "none";
+        rect.style.stroke = "none";
+        g.parentNode?.insertBefore(rect, g);
+        proxies.push(rect);
+    }
+    let bbox = svgelement.getBBox();
+    for (let rect of proxies) rect.remove();
+    for (let g of clipped_groups) g.style.display = "";
+    return bbox;
+}
+
 function calculate_text_scale(referencesvgelement : SVGSVGElement) : number {
     // scale font-size adjusting for referencesvgelement.bbox and size
-    let bbox = referencesvgelement.getBBox();
+    let bbox = get_clipped_bbox(referencesvgelement);
     let refsvgelement_width = referencesvgelement.width.baseVal.value;
     let refsvgelement_height = referencesvgelement.height.baseVal.value;
     return Math.max(bbox.width / refsvgelement_width, bbox.height / refsvgelement_height)
@@ -202,10 +320,12 @@ function calculate_text_scale(referencesvgelement : SVGSVGElement) : number {
  * @param svgelement the svg element to draw to
  * @param diagrams the list of text diagrams to draw
  * @param calculated_scale the calculated scale for the text
+ * @param keys map of the diagrams to their key in the keyed renderer
  */
-function draw_texts(svgelement : SVGSVGElement, diagrams : Diagram[], 
-    calculated_scale : number, svgtag? : string) : void {
+function draw_texts(svgelement : SVGElement, diagrams : Diagram[], 
+    calculated_scale : number, svgtag? : string, keys? : Map<Diagram, string>) : void {
     for (let diagram of diagrams) {
+        let key = keys?.get(diagram);
         let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
         style.fill = get_color(style.fill as string, tab_color);
         style.stroke = get_color(style.stroke as string, tab_color);
@@ -234,6 +354,7 @@ function draw_texts(svgelement : SVGSVGElement, diagrams : Diagram[],
         // text.setAttribute("dominant-baseline", textdata["dominant-baseline"] as string);
         text.setAttribute("transform", `translate(${xpos} ${ypos}) rotate(${angle_deg}) `);
         if (svgtag != undefined) text.setAttribute("_dg_tag", svgtag);
+        if (key != undefined) text.setAttribute("_dg_key", key);
 
         // custom attribute for tex display
         text.setAttribute("_x", xpos.toString());
@@ -259,10 +380,12 @@ function draw_texts(svgelement : SVGSVGElement, diagrams : Diagram[],
  * @param svgelement the svg element to draw to
  * @param diagrams the list of text diagrams to draw
  * @param calculated_scale the calculated scale for the text
+ * @param keys map of the diagrams to their key in the keyed renderer
  */
-function draw_multiline_texts(svgelement : SVGSVGElement, diagrams : Diagram[], 
-    calculated_scale : number, svgtag? : string) : void {
+function draw_multiline_texts(svgelement : SVGElement, diagrams : Diagram[], 
+    calculated_scale : number, svgtag? : string, keys? : Map<Diagram, string>) : void {
     for (let diagram of diagrams) {
+        let key = keys?.get(diagram);
     //     let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
     //     style.fill = get_color(style.fill as string, tab_color);
     //     style.stroke = get_color(style.stroke as string, tab_color);
@@ -356,6 +479,7 @@ function draw_multiline_texts(svgelement : SVGSVGElement, diagrams : Diagram[],
         textsvg.setAttribute("text-anchor", textdata["text-anchor"] as string);
         textsvg.setAttribute("transform", `translate(${xpos} ${ypos}) rotate(${angle_deg}) `);
         if (svgtag != undefined) textsvg.setAttribute("_dg_tag", svgtag);
+        if (key != undefined) textsvg.setAttribute("_dg_key", key);
         //
         // // custom attribute for tex display
         // text.setAttribute("_x", xpos.toString());
@@ -400,54 +524,291 @@ export function get_tagged_svg_element(tag : string, svgelement : SVGElement) :
 }
 
 /**
- * @param svgelement the svg element to draw to
- * @param diagram the diagram to draw
- * @param render_text whether to render text
- * @param textreferencesvgelement the svg element to use as reference for text scaling
+ * Draw the clip of a diagram into a `clipPath` element
+ * @returns the id of the `clipPath` element
  */
-export function f_draw_to_svg(svgelement : SVGSVGElement, diagram : Diagram, render_text : boolean = true, 
-    textreferencesvgelement? : SVGSVGElement, svgtag? : string) : void {
+function draw_clippath(svgelement : SVGElement, clip_diagram : Diagram) : string {
+    let id = new_def_id("clip");
+    let clippath = document.createElementNS("http://www.w3.org/2000/svg", "clipPath");
+    clippath.setAttribute("id", id);
+    clippath.setAttribute("clipPathUnits", "userSpaceOnUse");
+    svgelement.appendChild(clippath);
+    f_draw_shapes(clippath, clip_diagram, new Map(), new Map());
+    return id;
+}
+
+/**
+ * Create a group that is clipped by the clip of the diagram
+ * @param diagram the clipped diagram
+ * @param clip_id id of the `clipPath` element
+ */
+function create_clip_group(svgelement : SVGElement, diagram : Diagram, clip_id : string, key? : string) : SVGGElement {
+    let g = document.createElementNS("http://www.w3.org/2000/svg", "g");
+    g.setAttribute("clip-path", `url(#${clip_id})`);
+    if (key != undefined) g.setAttribute("_dg_key", key);
+    if (diagram.clippath != undefined) {
+        // bounding box of the clip (in svg coordinate), used to calculate the viewbox
+        let [min, max] = diagram.clippath.bounding_box();
+        g.setAttribute("_dg_clip_bbox", `${min.x} ${-max.y} ${max.x - min.x} ${max.y - min.y}`);
+    }
+    svgelement.appendChild(g);
+    return g;
+}
+
+/**
+ * Convert the matrix of a lazily transformed diagram into an svg `transform` attribute value
+ * (the y axis is flipped in svg coordinate)
+ */
+export function matrix_to_svg_transform(m : Affine2) : string {
+    return `matrix(${m.a} ${-m.b} ${-m.c} ${m.d} ${m.e} ${-m.f})`;
+}
 
+/**
+ * Create a group that is transformed by the matrix of the diagram
+ */
+function create_transform_group(svgelement : SVGElement, matrix : Affine2, key? : string) : SVGGElement {
+    let g = document.createElementNS("http://www.w3.org/2000/svg", "g");
+    g.setAttribute("transform", matrix_to_svg_transform(matrix));
+    if (key != undefined) g.setAttribute("_dg_key", key);
+    svgelement.appendChild(g);
+    return g;
+}
+
+/**
+ * Draw all the non-text diagrams
+ * @param clip_ids map of the clipped diagrams to the id of their `clipPath` element (filled by this function)
+ * @param keys map of the diagrams to their key (see `collect_svg_keys()`)
+ */
+function f_draw_shapes(svgelement : SVGElement, diagram : Diagram, clip_ids : Map<Diagram, string>,
+    keys : Map<Diagram, string>, svgtag? : string) : void {
+    let key = keys.get(diagram);
     if (diagram.type == DiagramType.Polygon) {
-        draw_polygon(svgelement, diagram, svgtag);
+        draw_polygon(svgelement, diagram, svgtag, key);
     } else if (diagram.type == DiagramType.Curve){
-        draw_curve(svgelement, diagram, svgtag);
+        draw_curve(svgelement, diagram, svgtag, key);
+    } else if (diagram.type == DiagramType.CompoundPolygon){
+        draw_compound_polygon(svgelement, diagram, svgtag, key);
     } else if (diagram.type == DiagramType.Text || diagram.type == DiagramType.MultilineText){
         // do nothing
     } else if (diagram.type == DiagramType.Image){
-        draw_image(svgelement, diagram, svgtag);
+        draw_image(svgelement, diagram, svgtag, key);
     } else if (diagram.type == DiagramType.Diagram){
+        let container = svgelement;
+        if (diagram.matrix != undefined) container = create_transform_group(container, diagram.matrix, key);
+        if (diagram.clippath != undefined) {
+            let clip_id = draw_clippath(container, diagram.clippath);
+            clip_ids.set(diagram, clip_id);
+            container = create_clip_group(container, diagram, clip_id, key);
+        }
         for (let d of diagram.children) {
-            f_draw_to_svg(svgelement, d, false, textreferencesvgelement, svgtag);
+            f_draw_shapes(container, d, clip_ids, keys, svgtag);
         }
     } else {
         console.warn("Unreachable, unknown diagram type : " + diagram.type);
     }
+}
+
+/**
+ * Draw all the texts of a type, texts inside a clipped diagram are drawn in a clipped group
+ * and texts inside a lazily transformed diagram are drawn in a transformed group
+ * @param clip_ids map of the clipped diagrams to the id of their `clipPath` element
+ * @param keys map of the diagrams to their key (see `collect_svg_keys()`)
+ */
+function f_draw_texts(svgelement : SVGElement, diagram : Diagram, type : DiagramType.Text | DiagramType.MultilineText,
+    calculated_scale : number, clip_ids : Map<Diagram, string>, keys : Map<Diagram, string>, svgtag? : string) : void {
+    if (diagram.type == DiagramType.Text && type == DiagramType.Text) {
+        draw_texts(svgelement, [diagram], calculated_scale, svgtag, keys);
+    } else if (diagram.type == DiagramType.MultilineText && type == DiagramType.MultilineText) {
+        draw_multiline_texts(svgelement, [diagram], calculated_scale, svgtag, keys);
+    } else if (diagram.type == DiagramType.Diagram) {
+        let clip_id = clip_ids.get(diagram);
+        let key = keys.get(diagram);
+        if ((clip_id != undefined || diagram.matrix != undefined) && collect_text(diagram, type).length == 0) return;
+        if (diagram.matrix != undefined) svgelement = create_transform_group(svgelement, diagram.matrix, key);
+        if (clip_id != undefined) svgelement = create_clip_group(svgelement, diagram, clip_id, key);
+        for (let d of diagram.children) {
+            f_draw_texts(svgelement, d, type, calculated_scale, clip_ids, keys, svgtag);
+        }
+    }
+}
+
+// ====== keyed rendering =========
+// `draw_to_svg()` doesn't clear the svg on each draw, the diagram is drawn into a hidden staging svg
+// and the existing elements are patched to match it, so unchanged elements are not touched
+// (which keeps the css transitions working)
+// elements are matched by their `_dg_key` (see `Diagram.set_key()`), and the ones without a key
+// are matched by their position among the siblings of the same svg tag
+// NOTE : tex texts are always rebuilt, the svg from `handle_tex_in_svg()` (e.g. MathJax output)
+// never matches the staged `<text>` element, so it is replaced on every draw
+
+/**
+ * Get the key of every diagram in the tree
+ * the key of a diagram is the path of keys from the root, unkeyed children of a keyed diagram
+ * are keyed by their index (e.g. `"plot/3"`)
+ */
+function collect_svg_keys(diagram : Diagram, keys : Map<Diagram, string> = new Map(), key? : string) : Map<Diagram, string> {
+    key ??= diagram.key;
+    if (key != undefined) keys.set(diagram, key);
+    for (let i = 0; i < diagram.children.length; i++) {
+        let child = diagram.children[i];
+        let child_key = child.key ?? (key == undefined ? undefined : i.toString());
+        if (key != undefined && child_key != undefined) child_key = `${key}/${child_key}`;
+        collect_svg_keys(child, keys, child_key);
+    }
+    return keys;
+}
+
+function node_match_key(node : Node) : string {
+    if (!(node instanceof Element)) return "#" + node.nodeType;
+    let key = node.getAttribute("_dg_key");
+    return key == null ? node.tagName : `${node.tagName}#${key}`;
+}
+
+/**
+ * Patch the attributes and the children of `element` to match `target`
+ */
+function reconcile_element(element : Element, target : Element) : void {
+    let keep : string[] = [];
+    if (element instanceof SVGImageElement) {
+        // the href of the target is not loaded yet
+        keep = ["href", "xlink:href"];
+        let src = target.getAttribute("_dg_src");
+        if (src != null && src != element.getAttribute("_dg_src")) set_image_href_dataURL(element, src);
+    }
+    for (let attr of Array.from(element.attributes)) {
+        if (!target.hasAttribute(attr.name) && !keep.includes(attr.name)) element.removeAttribute(attr.name);
+    }
+    for (let attr of Array.from(target.attributes)) {
+        if (keep.includes(attr.name)) continue;
+        if (element.getAttribute(attr.name) != attr.value) element.setAttribute(attr.name, attr.value);
+    }
+    reconcile_children(element, target);
+}
+
+/**
+ * Patch the children of `element` to match the children of `target`
+ * the unmatched children of `target` are moved into `element`
+ */
+function reconcile_children(element : Element, target : Element) : void {
+    let existing = new Map<string, Node[]>();
+    for (let node of Array.from(element.childNodes)) {
+        let key = node_match_key(node);
+        let nodes = existing.get(key);
+        if (nodes == undefined) existing.set(key, [node]); else nodes.push(node);
+    }
+
+    let result : Node[] = [];
+    for (let node of Array.from(target.childNodes)) {
+        let match = existing.get(node_match_key(node))?.shift();
+        if (match == undefined) {
+            result.push(node);
+        } else if (match instanceof Element) {
+            reconcile_element(match, node as Element);
+            result.push(match);
+        } else {
+            if (match.nodeValue != node.nodeValue) match.nodeValue = node.nodeValue;
+            result.push(match);
+        }
+    }
+
+    for (let nodes of existing.values()) for (let node of nodes) element.removeChild(node);
+    for (let i = 0; i < result.length; i++) {
+        let current = element.childNodes[i] ?? null;
+        if (current !== result[i]) element.insertBefore(result[i], current);
+    }
+}
+
+// counter to create unique id prefix for the svg elements drawn with the keyed renderer
+let svg_id_counter = 0;
+
+/**
+ * Draw a diagram into `svgelement`, patching the existing elements instead of recreating them
+ * @param svgelement the svg element to draw to (must be attached, the text scale is calculated from its size)
+ * @param diagram the diagram to draw
+ * @param render_text whether to render text
+ */
+function f_draw_to_svg_keyed(svgelement : SVGSVGElement, diagram : Diagram, render_text : boolean) : void {
+    let staging = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    for (let name of ["width", "height", "x", "y"]) {
+        let value = svgelement.getAttribute(name);
+        if (value != null) staging.setAttribute(name, value);
+    }
+    staging.style.visibility = "hidden";
+    svgelement.parentNode?.insertBefore(staging, svgelement);
+
+    // number the defs per svg element, so that the ids are the same for the same diagram
+    let svg_id = svgelement.getAttribute("_dg_id");
+    if (svg_id == null) {
+        svg_id = `dg${svg_id_counter++}`;
+        svgelement.setAttribute("_dg_id", svg_id);
+    }
+    let [prev_prefix, prev_counter] = [def_id_prefix, def_id_counter];
+    [def_id_prefix, def_id_counter] = [svg_id, 0];
+    try {
+        f_draw_to_svg(staging, diagram, render_text);
+    } finally {
+        [def_id_prefix, def_id_counter] = [prev_prefix, prev_counter];
+    }
+
+    reconcile_children(svgelement, staging);
+    staging.remove();
+}
+
+/**
+ * @param svgelement the svg element to draw to
+ * @param diagram the diagram to draw
+ * @param render_text whether to render text
+ * @param textreferencesvgelement the svg element to use as reference for text scaling
+ */
+export function f_draw_to_svg(svgelement : SVGSVGElement, diagram : Diagram, render_text : boolean = true, 
+    textreferencesvgelement? : SVGSVGElement, svgtag? : string) : void {
+
+    let clip_ids = new Map<Diagram, string>();
+    let keys = collect_svg_keys(diagram);
+    f_draw_shapes(svgelement, diagram, clip_ids, keys, svgtag);
 
     // draw text last to make the scaling works
     // because the text is scaled based on the bounding box of the svgelement
     if (render_text) {
         if (textreferencesvgelement == undefined) textreferencesvgelement = svgelement;
-        let text_diagrams      : Diagram[] = collect_text(diagram, DiagramType.Text);
-        let multiline_diagrams : Diagram[] = collect_text(diagram, DiagramType.MultilineText);
         let calculated_scale = calculate_text_scale(textreferencesvgelement);
-        draw_texts(svgelement, text_diagrams, calculated_scale, svgtag);
-        draw_multiline_texts(svgelement, multiline_diagrams, calculated_scale, svgtag);
+        f_draw_texts(svgelement, diagram, DiagramType.Text, calculated_scale, clip_ids, keys, svgtag);
+        f_draw_texts(svgelement, diagram, DiagramType.MultilineText, calculated_scale, clip_ids, keys, svgtag);
     }
     
 }
 
+// outer svg elements whose drawing is captured instead of drawn
+// (see `Interactive.animated_svg()` and `Interactive.display_mode`)
+const svg_draw_captures = new Map<SVGSVGElement, (diagram : Diagram, clear_svg : boolean, render_text : boolean) => void>();
+
+/**
+ * Capture the diagrams drawn with `draw_to_svg()` to an svg element instead of drawing them
+ * @param outer_svgelement the outer svg element
+ * @param capture function that receives the diagram and the `clear_svg` and `render_text` arguments of `draw_to_svg()`,
+ * if undefined, the capture is removed
+ */
+export function capture_svg_drawing(outer_svgelement : SVGSVGElement,
+    capture? : (diagram : Diagram, clear_svg : boolean, render_text : boolean) => void) : void {
+    if (capture == undefined) svg_draw_captures.delete(outer_svgelement);
+    else svg_draw_captures.set(outer_svgelement, capture);
+}
+
 /**
  * Draw a diagram to an svg element
  * @param outer_svgelement the outer svg element to draw to
  * @param diagram the diagram to draw
  * @param set_html_attribute whether to set the html attribute of the outer_svgelement
  * @param render_text whether to render text
- * @param clear_svg whether to clear the svg before drawing
+ * @param clear_svg whether to replace the previous drawing (the existing elements are patched, see `f_draw_to_svg_keyed()`),
+ * if false, the diagram is drawn on top of the previous drawing
  */
 export function draw_to_svg(outer_svgelement : SVGSVGElement, diagram : Diagram,
     set_html_attribute : boolean = true, render_text : boolean = true, clear_svg : boolean = true) : void {
 
+    let capture = svg_draw_captures.get(outer_svgelement);
+    if (capture != undefined) { capture(diagram, clear_svg, render_text); return; }
+
     let svgelement : SVGSVGElement | undefined = undefined;
     // check if outer_svgelement has a child with meta=diagram_svg
     for (let i in outer_svgelement.children) {
@@ -468,15 +829,16 @@ export function draw_to_svg(outer_svgelement : SVGSVGElement, diagram : Diagram,
         outer_svgelement.appendChild(svgelement);
     }
 
-    // TODO : for performance, do smart clearing of svg, and not just clear everything
-    if (clear_svg) svgelement.innerHTML = "";
-
-
-    f_draw_to_svg(svgelement, diagram, render_text);
+    if (clear_svg) {
+        // replace the previous drawing, only the changed elements are updated
+        f_draw_to_svg_keyed(svgelement, diagram, render_text);
+    } else {
+        f_draw_to_svg(svgelement, diagram, render_text);
+    }
 
     if (set_html_attribute) {
         // set viewbox to the bounding box
-        let bbox = svgelement.getBBox();
+        let bbox = get_clipped_bbox(svgelement);
         // add padding of 10px to the bounding box (if the graph is small, it'll mess it up)
         // scale 10px based on the width and height of the svg
         let svg_width = svgelement.width.baseVal.value;
@@ -493,7 +855,7 @@ export function draw_to_svg(outer_svgelement : SVGSVGElement, diagram : Diagram,
     }
 }
 
-function is_texstr(s : string) : boolean {
+export function is_texstr(s : string) : boolean {
     return s.startsWith("$") && s.endsWith("$");
 }
 function is_texdisplaystr(s : string) : boolean {
@@ -513,6 +875,7 @@ type texhadler_function = (texstr : string, config : texhandler_config) => strin
 
 /**
  * Recursively handle tex in svg
+ * (the tex svg replaces the `<text>` element, so it is rebuilt on every `draw_to_svg()`)
  * @param svg the svg element to handle
  * @param texhandler the tex handler function
  */
@@ -585,68 +948,165 @@ export function handle_tex_in_svg(svg : SVGElement, texhandler : texhadler_funct
     }
 }
 
+// ====== export =========
+
 /**
- * Download the svg as svg file
- * @param outer_svgelement the outer svg element to download
+ * Interactive layers of the outer svg that can be included in the export
  */
-export function download_svg_as_svg(outer_svgelement : SVGSVGElement) : void {
+export type ExportLayer = 'locator' | 'dnd' | 'custom' | 'button';
+
+// meta attribute of the svg element of each layer (see `control_svg_name` in `html_interactivity.ts`)
+const export_layer_meta : {[layer in ExportLayer] : string} = {
+    locator : "control_svg",
+    dnd     : "dnd_svg",
+    custom  : "custom_int_svg",
+    button  : "button_svg",
+}
+
+export type export_options = {
+    scale       : number, // scale factor of the output size (relative to the displayed size)
+    background? : string, // transparent if undefined
+    padding     : number, // transparent padding around the diagram (in displayed pixel)
+    layers      : ExportLayer[], // interactive layers drawn on top of the diagram
+}
+
+export const default_export_options : export_options = {
+    scale      : 1,
+    background : undefined,
+    padding    : 0,
+    layers     : ['locator'],
+}
+
+/**
+ * Create a standalone svg element from the layers of the outer svg
+ */
+function create_export_svg(outer_svgelement : SVGSVGElement, options : export_options) : SVGSVGElement {
     let inner_svgelement = outer_svgelement.querySelector("svg[meta=diagram_svg]") as SVGSVGElement | null;
-    if (inner_svgelement == null) { console.warn("Cannot find svg element"); return; }
-    let locator_svgelement = outer_svgelement.querySelector("svg[meta=control_svg]") as SVGSVGElement | null;
-
-    let svgelement = inner_svgelement;
-    // concat locator_svgelement to the copy of inner_svgelement
-    if (locator_svgelement != null) {  
-        let copy_inner_svgelement = inner_svgelement.cloneNode(true) as SVGSVGElement;
-        for (let i in locator_svgelement.children) {
-            let child = locator_svgelement.children[i];
-            if (!(child instanceof SVGSVGElement)) continue;
-            copy_inner_svgelement.appendChild(child.cloneNode(true));
+    if (inner_svgelement == null) throw new Error("Cannot find the diagram svg element");
+    let [vx, vy, vw, vh] = (inner_svgelement.getAttribute("viewBox") ?? "0 0 0 0").split(/[\s,]+/).map(parseFloat);
+
+    // size of a displayed pixel in viewbox unit (the viewbox is fitted with xMidYMid meet)
+    let rect = inner_svgelement.getBoundingClientRect();
+    let unit = (rect.width > 0 && rect.height > 0) ? Math.max(vw / rect.width, vh / rect.height) : 1;
+    let pad = options.padding * unit;
+
+    let svgelement = inner_svgelement.cloneNode(true) as SVGSVGElement;
+    svgelement.removeAttribute("meta");
+    svgelement.setAttribute("viewBox", `${vx - pad} ${vy - pad} ${vw + 2*pad} ${vh + 2*pad}`);
+    svgelement.setAttribute("width",  ((vw + 2*pad) / unit * options.scale).toString());
+    svgelement.setAttribute("height", ((vh + 2*pad) / unit * options.scale).toString());
+
+    if (options.background != undefined) {
+        let background = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+        background.setAttribute("x", (vx - pad).toString());
+        background.setAttribute("y", (vy - pad).toString());
+        background.setAttribute("width",  (vw + 2*pad).toString());
+        background.setAttribute("height", (vh + 2*pad).toString());
+        background.setAttribute("fill", get_color(options.background, tab_color));
+        svgelement.insertBefore(background, svgelement.firstChild);
+    }
+
+    for (let layer of options.layers) {
+        let layer_svgelement = outer_svgelement.querySelector(`svg[meta=${export_layer_meta[layer]}]`) as SVGSVGElement | null;
+        if (layer_svgelement == null) continue;
+        if (layer_svgelement.getAttribute("viewBox") == null) {
+            // the layer is drawn in the same coordinate as the diagram
+            for (let child of Array.from(layer_svgelement.children)) svgelement.appendChild(child.cloneNode(true));
+            continue;
         }
-        svgelement = copy_inner_svgelement;
+        // the layer has its own viewbox (the same as the diagram), place it over the original viewbox
+        let copy = layer_svgelement.cloneNode(true) as SVGSVGElement;
+        copy.removeAttribute("meta");
+        copy.setAttribute("x", vx.toString());
+        copy.setAttribute("y", vy.toString());
+        copy.setAttribute("width",  vw.toString());
+        copy.setAttribute("height", vh.toString());
+        svgelement.appendChild(copy);
     }
+    return svgelement;
+}
 
-    // get svg string
-    let svg_string = new XMLSerializer().serializeToString(svgelement);
-    let blob = new Blob([svg_string], {type: "image/svg+xml"});
+/**
+ * Export the diagram in the outer svg as a standalone svg
+ * @param outer_svgelement the outer svg element of the diagram
+ * @param options options for the export
+ * @returns the content of the svg file
+ */
+export async function export_svg(outer_svgelement : SVGSVGElement, options? : Partial<export_options>) : Promise<string> {
+    let opt = {...default_export_options, ...options}; // use default if not defined
+    return new XMLSerializer().serializeToString(create_export_svg(outer_svgelement, opt));
+}
+
+/**
+ * Export the diagram in the outer svg as a png image
+ * @param outer_svgelement the outer svg element of the diagram
+ * @param options options for the export
+ * @returns the png file
+ */
+export async function export_png(outer_svgelement : SVGSVGElement, options? : Partial<export_options>) : Promise<Blob> {
+    let opt = {...default_export_options, ...options}; // use default if not defined
+    let svgelement = create_export_svg(outer_svgelement, opt);
+    let width  = Math.max(1, Math.round(parseFloat(svgelement.getAttribute("width")  as string)));
+    let height = Math.max(1, Math.round(parseFloat(svgelement.getAttribute("height") as string)));
+
+    let svg_blob = new Blob([new XMLSerializer().serializeToString(svgelement)], {type: "image/svg+xml"});
+    let url = URL.createObjectURL(svg_blob);
+    try {
+        let image = new Image(width, height);
+        await new Promise<void>((resolve, reject) => {
+            image.onload  = () => resolve();
+            image.onerror = () => reject(new Error("Cannot load the svg as an image"));
+            image.src = url;
+        });
+        let canvas = document.createElement("canvas");
+        canvas.width  = width;
+        canvas.height = height;
+        let ctx = canvas.getContext("2d");
+        if (ctx == null) throw new Error("Cannot create a canvas 2d context");
+        ctx.drawImage(image, 0, 0, width, height);
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob == null ? reject(new Error("Cannot encode the png")) : resolve(blob), "image/png");
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+function download_blob(blob : Blob, filename : string) : void {
     let url = URL.createObjectURL(blob);
     let a = document.createElement("a");
     a.href = url;
-    a.download = "diagramatics.svg";
+    a.download = filename;
     a.click();
+    // revoking the url right after the click can cancel the download (e.g. in Firefox)
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+// the downloads include every interactive layer by default (as the whole outer svg used to be downloaded)
+const download_export_options : Partial<export_options> = { layers : ['locator', 'dnd', 'custom', 'button'] };
+
+/**
+ * Download the svg as svg file
+ * @param outer_svgelement the outer svg element to download
+ * @param filename name of the downloaded file
+ * @param options options for the export (see `export_svg`), all the interactive layers are included by default
+ */
+export function download_svg_as_svg(outer_svgelement : SVGSVGElement, filename : string = "diagramatics.svg",
+    options? : Partial<export_options>) : void {
+    export_svg(outer_svgelement, {...download_export_options, ...options})
+        .then(svg_string => download_blob(new Blob([svg_string], {type: "image/svg+xml"}), filename))
+        .catch(e => console.warn(e));
 }
 
 /**
  * Download the svg as png file
  * @param outer_svgelement the outer svg element to download
+ * @param filename name of the downloaded file
+ * @param options options for the export (see `export_png`), all the interactive layers are included by default
  */
-export function download_svg_as_png(outer_svgelement : SVGSVGElement) {
-    let inner_svgelement = outer_svgelement.querySelector("svg[meta=diagram_svg]") as SVGSVGElement | null;
-    if (inner_svgelement == null) { console.warn("Cannot find svg element"); return; }
-    let svgelem = outer_svgelement;
-
-    let svg_string = new XMLSerializer().serializeToString(svgelem);
-    let svg_blob = new Blob([svg_string], {type: "image/svg+xml"});
-
-    const DOMURL = window.URL || window.webkitURL || window;
-    const url = DOMURL.createObjectURL(svg_blob);
-
-    const image = new Image();
-    image.width = svgelem.width.baseVal.value;
-    image.height = svgelem.height.baseVal.value;
-    image.src = url;
-    image.onload = function() {
-        const canvas = document.createElement("canvas");
-        canvas.width = image.width;
-        canvas.height = image.height;
-        const ctx = canvas.getContext("2d");
-        ctx?.drawImage(image, 0, 0);
-        DOMURL.revokeObjectURL(url);
-
-        const imgURI = canvas.toDataURL("image/png").replace("image/png", "image/octet-stream");
-        const a = document.createElement("a");
-        a.href = imgURI;
-        a.download = "diagramatics.png";
-        a.click();
-    }
+export function download_svg_as_png(outer_svgelement : SVGSVGElement, filename : string = "diagramatics.png",
+    options? : Partial<export_options>) : void {
+    export_png(outer_svgelement, {...download_export_options, ...options})
+        .then(blob => download_blob(blob, filename))
+        .catch(e => console.warn(e));
 }
@@ -0,0 +1,427 @@
+import { Diagram, DiagramType, Path, text_bounding_box } from "./diagram.js";
+import { Vector2 } from "./vector.js";
+import { tab_color, get_color } from "./color_palette.js";
+import { to_degree } from "./utils.js";
+import { str_to_mathematical_italic } from './unicode_utils.js'
+import { path_to_svg_d, rings_to_svg_d } from './path_segment.js';
+import { is_paint, paint_to_svg_string } from './paint.js';
+import { default_markerdata, marker_to_svg_string } from './marker.js';
+import {
+    default_diagram_style, default_text_diagram_style, default_textdata, is_texstr, matrix_to_svg_transform,
+} from './draw_svg.js';
+
+// DOM-free counterpart of `draw_svg.ts`
+// everything here only works on the Diagram tree, so it can be used in Node, workers, or build scripts
+
+export type svg_string_options = {
+    width       : number, // width of the svg in pixel
+    height?     : number, // height of the svg in pixel, if undefined, it is calculated from the aspect ratio
+    padding     : number, // padding around the diagram in pixel
+    render_text : boolean,
+    background? : string,
+    id_prefix   : string, // prefix of the ids of the `<defs>` elements (to draw several svgs in the same page)
+}
+
+export const default_svg_string_options : svg_string_options = {
+    width       : 400,
+    height      : undefined,
+    padding     : 10,
+    render_text : true,
+    background  : undefined,
+    id_prefix   : "dg",
+}
+
+/**
+ * State of one call of `draw_to_svg_string()`
+ * the ids are allocated per call, so drawing the same diagram always gives the same string
+ */
+export type SvgStringContext = {
+    id_prefix  : string,
+    id_counter : number,
+    clip_ids   : Map<Diagram, string>, // map of the clipped diagrams to the id of their `clipPath` element
+}
+
+export function new_svg_string_context(id_prefix : string = default_svg_string_options.id_prefix) : SvgStringContext {
+    return { id_prefix, id_counter : 0, clip_ids : new Map() };
+}
+
+export function new_def_id(ctx : SvgStringContext, kind : string) : string {
+    return `${ctx.id_prefix}_${kind}_s${ctx.id_counter++}`;
+}
+
+function escape_xml(s : string) : string {
+    return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function style_to_string(style : {[key : string] : any}) : string {
+    let strs : string[] = [];
+    for (let stylename in style) {
+        let value = style[stylename];
+        if (value == undefined) continue;
+        strs.push(`${stylename}:${value}`);
+    }
+    return strs.join(";");
+}
+
+export function points_to_string(points : Vector2[]) : string {
+    return points.map(p => `${p.x},${-p.y}`).join(" ");
+}
+
+/**
+ * Get the bounding box of the diagram, ignoring all texts
+ * this is the equivalent of `getBBox()` of the svg before the texts are drawn
+ */
+function bounding_box_without_text(diagram : Diagram) : [Vector2, Vector2] | undefined {
+    if (diagram.type == DiagramType.Text || diagram.type == DiagramType.MultilineText) return undefined;
+    if (diagram.type != DiagramType.Diagram) return diagram.bounding_box();
+
+    let bbox : [Vector2, Vector2] | undefined = undefined;
+    for (let c of diagram.children) {
+        let cbbox = bounding_box_without_text(c);
+        if (cbbox == undefined) continue;
+        bbox = bbox == undefined ? cbbox : [
+            new Vector2(Math.min(bbox[0].x, cbbox[0].x), Math.min(bbox[0].y, cbbox[0].y)),
+            new Vector2(Math.max(bbox[1].x, cbbox[1].x), Math.max(bbox[1].y, cbbox[1].y)),
+        ];
+    }
+    if (bbox != undefined && diagram.clippath != undefined) bbox = intersect_bbox(bbox, diagram.clippath.bounding_box());
+    return bbox;
+}
+
+/**
+ * Intersect two bounding boxes, return undefined if they don't overlap
+ */
+function intersect_bbox(a : [Vector2, Vector2], b : [Vector2, Vector2]) : [Vector2, Vector2] | undefined {
+    let min = new Vector2(Math.max(a[0].x, b[0].x), Math.max(a[0].y, b[0].y));
+    let max = new Vector2(Math.min(a[1].x, b[1].x), Math.min(a[1].y, b[1].y));
+    if (min.x > max.x || min.y > max.y) return undefined;
+    return [min, max];
+}
+
+/**
+ * Collect all the texts in the diagram
+ * @returns list of `[text diagram, bounding box of the clips around the text]`
+ */
+function collect_text(diagram : Diagram, clip_bbox? : [Vector2, Vector2]) : [Diagram, [Vector2, Vector2] | undefined][] {
+    if (diagram.type == DiagramType.Text || diagram.type == DiagramType.MultilineText) return [[diagram, clip_bbox]];
+    if (diagram.type != DiagramType.Diagram) return [];
+    if (diagram.clippath != undefined) {
+        let bbox = diagram.clippath.bounding_box();
+        clip_bbox = clip_bbox == undefined ? bbox : intersect_bbox(clip_bbox, bbox) ?? [bbox[0], bbox[0]];
+    }
+    let result : [Diagram, [Vector2, Vector2] | undefined][] = [];
+    for (let d of diagram.children) result = result.concat(collect_text(d, clip_bbox));
+    return result;
+}
+
+/**
+ * Resolve the fill of a style, gradients and patterns are put in `<defs>`
+ * @returns `[fill value, defs string]`
+ */
+function fill_to_string(ctx : SvgStringContext, fill : Diagram['style']['fill']) : [string, string] {
+    if (!is_paint(fill)) return [get_color(fill ?? "none", tab_color), ""];
+    let id = new_def_id(ctx, "paint");
+    return [`url(#${id})`, `<defs>${paint_to_svg_string(fill, id)}</defs>`];
+}
+
+function polygon_to_string(ctx : SvgStringContext, diagram : Diagram) : string {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    let [fill, defs] = fill_to_string(ctx, style.fill);
+    style.fill = fill;
+    style.stroke = get_color(style.stroke as string, tab_color);
+    if (diagram.path?.has_curved_segment()) {
+        let d = path_to_svg_d(diagram.path.points, diagram.path.segments, true);
+        return defs + `<path d="${d}" style="${escape_xml(style_to_string(style))}"/>`;
+    }
+    let points = diagram.path?.points ?? [];
+    return defs + `<polygon points="${points_to_string(points)}" style="${escape_xml(style_to_string(style))}"/>`;
+}
+
+/**
+ * Create the markers of a curve
+ * @returns `[marker attributes of the curve element, defs string]`
+ */
+function markers_to_string(ctx : SvgStringContext, diagram : Diagram, stroke : string, strokewidth : string) : [string, string] {
+    let markerdata = {...default_markerdata, ...diagram.markerdata};
+    let attrs = "";
+    let defs  = "";
+    for (let position of ['start', 'mid', 'end'] as const) {
+        let shape = markerdata[position];
+        if (shape == 'none') continue;
+        let id = new_def_id(ctx, "marker");
+        defs  += marker_to_svg_string(shape, id, markerdata.size, stroke, strokewidth, position == 'start');
+        attrs += ` marker-${position}="url(#${id})"`;
+    }
+    return [attrs, defs == "" ? "" : `<defs>${defs}</defs>`];
+}
+
+function curve_to_string(ctx : SvgStringContext, diagram : Diagram) : string {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    style.fill = "none";
+    style.stroke = get_color(style.stroke as string, tab_color);
+    let [marker_attrs, defs] = markers_to_string(ctx, diagram, style.stroke, style["stroke-width"] as string);
+    if (diagram.path?.has_curved_segment()) {
+        let d = path_to_svg_d(diagram.path.points, diagram.path.segments, false);
+        return defs + `<path d="${d}"${marker_attrs} style="${escape_xml(style_to_string(style))}"/>`;
+    }
+    let points = diagram.path?.points ?? [];
+    return defs + `<polyline points="${points_to_string(points)}"${marker_attrs} style="${escape_xml(style_to_string(style))}"/>`;
+}
+
+function compound_polygon_to_string(ctx : SvgStringContext, diagram : Diagram) : string {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    let [fill, defs] = fill_to_string(ctx, style.fill);
+    style.fill = fill;
+    style.stroke = get_color(style.stroke as string, tab_color);
+    let rings = diagram.children.map(c => c.path).filter(p => p != undefined) as Path[];
+    return defs + `<path d="${rings_to_svg_d(rings)}" clip-rule="${style["fill-rule"]}" style="${escape_xml(style_to_string(style))}"/>`;
+}
+
+function image_to_string(diagram : Diagram) : string {
+    if (diagram.imgdata.src == undefined) return "";
+    if (diagram.path == undefined) return "";
+    if (diagram.path.points.length != 4) return "";
+
+    // path: bottom-left, bottom-right, top-right, top-left
+    let points = diagram.path.points;
+    let width  = points[1].sub(points[0]).length();
+    let height = points[2].sub(points[1]).length();
+
+    let ex = points[1].sub(points[0]).normalize();
+    let ey = points[3].sub(points[0]).normalize();
+    let a =  ex.x; let b = -ex.y;
+    let c = -ey.x; let d =  ey.y;
+    let xpos = points[3].x;
+    let ypos = -points[3].y;
+
+    let src = escape_xml(diagram.imgdata.src);
+    return `<image href="${src}" xlink:href="${src}" width="${width}" height="${height}" ` +
+        `transform="matrix(${a} ${b} ${c} ${d} ${xpos} ${ypos})" preserveAspectRatio="none"/>`;
+}
+
+function text_to_string(diagram : Diagram, calculated_scale : number) : string {
+    let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
+    style.fill = get_color(style.fill as string, tab_color);
+    style.stroke = get_color(style.stroke as string, tab_color);
+
+    let textdata = {...default_textdata, ...diagram.textdata}; // use default if not defined
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    let xpos = diagram.path.points[0].x;
+    let ypos = -diagram.path.points[0].y;
+    let angle_deg = to_degree(parseFloat(textdata["angle"] as string));
+
+    let scale = textdata["font-scale"] == "auto" ?
+        calculated_scale : parseFloat(textdata["font-scale"] as string);
+    let font_size = parseFloat(textdata["font-size"] as string) * scale;
+
+    let text_content = textdata["text"];
+    if (diagram.tags.includes('textvar') && !is_texstr(text_content))
+        text_content = str_to_mathematical_italic(text_content);
+
+    let attrs = [
+        `font-family="${escape_xml(textdata["font-family"] as string)}"`,
+        `font-style="${textdata["font-style"]}"`,
+        `font-size="${font_size}"`,
+        `font-weight="${textdata["font-weight"]}"`,
+        `text-anchor="${textdata["text-anchor"]}"`,
+        `dy="${textdata["dy"]}"`,
+        `transform="translate(${xpos} ${ypos}) rotate(${angle_deg})"`,
+        `style="${escape_xml(style_to_string(style))}"`,
+    ];
+    return `<text ${attrs.join(" ")}>${escape_xml(text_content)}</text>`;
+}
+
+function multiline_text_to_string(diagram : Diagram, calculated_scale : number) : string {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    if (diagram.multilinedata?.content == undefined) { throw new Error("MultilineText must have multilinedata"); }
+    let xpos = diagram.path.points[0].x;
+    let ypos = -diagram.path.points[0].y;
+
+    // use default if not defined
+    let textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+    let diagram_font_size = textdata["font-size"];
+
+    let dg_scale_factor = diagram.multilinedata["scale-factor"] ?? 1;
+    let is_firstline : boolean = true;
+    let is_in_front  : boolean = true;
+    let newline_dy   : string  = "1em";
+    let tspans : string[] = [];
+    for (let tspandata of diagram.multilinedata.content) {
+        if (tspandata.text == "\n") {
+            is_in_front = true;
+            newline_dy = tspandata.style['dy'] ?? "1em";
+            continue;
+        }
+
+        let not_setting_dy = (tspandata.style['dy'] == undefined)
+        let tspanstyle = {
+            ...default_text_diagram_style,
+            ...textdata,
+            ...{dy : "0", dx : "0"},
+            ...{"font-size" : diagram_font_size},
+            ...tspandata.style
+        };
+
+        let x_attr = "";
+        if (is_in_front) {
+            x_attr = ` x="0"`;
+            let textdata_dy = textdata["dy"] as string ?? "0";
+            if (not_setting_dy) tspanstyle.dy = is_firstline ? textdata_dy : newline_dy;
+            is_in_front = false;
+        }
+
+        let scale = tspanstyle["font-scale"] == "auto" ?
+            calculated_scale : parseFloat(tspanstyle["font-scale"] as string);
+        let font_size = parseFloat(tspanstyle["font-size"] as string) * scale * dg_scale_factor;
+        let style = {
+            "fill"    : get_color(tspanstyle.fill as string, tab_color),
+            "stroke"  : get_color(tspanstyle.stroke as string, tab_color),
+            "opacity" : tspanstyle.opacity,
+        };
+
+        let text = tspandata.text;
+        if (tspanstyle["textvar"]) text = str_to_mathematical_italic(text);
+
+        let attrs = [
+            `dx="${tspanstyle.dx}"`,
+            `dy="${tspanstyle.dy}"`,
+            `font-style="${tspanstyle["font-style"]}"`,
+            `font-family="${escape_xml(tspanstyle["font-family"] as string)}"`,
+            `font-size="${font_size}"`,
+            `font-weight="${tspanstyle["font-weight"]}"`,
+            `style="${escape_xml(style_to_string(style))}"`,
+        ];
+        tspans.push(`<tspan${x_attr} ${attrs.join(" ")}>${escape_xml(text)}</tspan>`);
+        is_firstline = false;
+    }
+
+    let attrs = [
+        `dy="${textdata["dy"]}"`,
+        `text-anchor="${textdata["text-anchor"]}"`,
+        `transform="translate(${xpos} ${ypos}) rotate(0)"`,
+    ];
+    return `<text ${attrs.join(" ")}>${tspans.join("")}</text>`;
+}
+
+/**
+ * @param ctx state of the call, the ids of the clipped diagrams are added to `ctx.clip_ids`
+ */
+export function f_draw_to_svg_string(diagram : Diagram, ctx : SvgStringContext) : string {
+    switch (diagram.type) {
+        case DiagramType.Polygon : return polygon_to_string(ctx, diagram);
+        case DiagramType.CompoundPolygon : return compound_polygon_to_string(ctx, diagram);
+        case DiagramType.Curve   : return curve_to_string(ctx, diagram);
+        case DiagramType.Image   : return image_to_string(diagram);
+        case DiagramType.Text    :
+        case DiagramType.MultilineText : return "";
+        case DiagramType.Diagram : {
+            let content = diagram.children.map(c => f_draw_to_svg_string(c, ctx)).join("");
+            if (diagram.clippath != undefined) {
+                let clip_id = new_def_id(ctx, "clip");
+                ctx.clip_ids.set(diagram, clip_id);
+                let clip_content = f_draw_to_svg_string(diagram.clippath, ctx);
+                content = `<clipPath id="${clip_id}" clipPathUnits="userSpaceOnUse">${clip_content}</clipPath>` +
+                    `<g clip-path="url(#${clip_id})">${content}</g>`;
+            }
+            if (diagram.matrix == undefined) return content;
+            return `<g transform="${matrix_to_svg_transform(diagram.matrix)}">${content}</g>`;
+        }
+        default: throw new Error("Unreachable, unknown diagram type : " + diagram.type);
+    }
+}
+
+/**
+ * Draw all the texts, texts inside a clipped diagram are put in a clipped group
+ * and texts inside a lazily transformed diagram are put in a transformed group
+ * @param ctx state of the call (with the ids of the clipped diagrams)
+ */
+export function f_texts_to_string(diagram : Diagram, calculated_scale : number, ctx : SvgStringContext) : string {
+    switch (diagram.type) {
+        case DiagramType.Text          : return text_to_string(diagram, calculated_scale);
+        case DiagramType.MultilineText : return multiline_text_to_string(diagram, calculated_scale);
+        case DiagramType.Diagram : {
+            let content = diagram.children.map(c => f_texts_to_string(c, calculated_scale, ctx)).join("");
+            let clip_id = ctx.clip_ids.get(diagram);
+            if (content == "") return content;
+            if (clip_id != undefined) content = `<g clip-path="url(#${clip_id})">${content}</g>`;
+            if (diagram.matrix == undefined) return content;
+            return `<g transform="${matrix_to_svg_transform(diagram.matrix)}">${content}</g>`;
+        }
+        default : return "";
+    }
+}
+
+/**
+ * Calculate the viewbox of the diagram (in svg coordinate) and the text scale
+ * without using the DOM, the text extents are estimated
+ * @param diagram the diagram
+ * @param width width of the svg in pixel
+ * @param height height of the svg in pixel (if undefined, only the width is used to calculate the text scale)
+ * @param padding padding around the diagram in pixel
+ * @param render_text whether the texts are included in the viewbox
+ * @returns `[x, y, width, height]` of the viewbox and the calculated text scale
+ */
+export function calculate_viewbox(diagram : Diagram, width : number, height : number | undefined,
+    padding : number, render_text : boolean = true) : {viewbox : [number, number, number, number], calculated_scale : number} {
+    // the calculated text scale is the same as `calculate_text_scale` in `draw_svg.ts`
+    // using the bounding box of the diagram without the texts
+    diagram = diagram.bake_transform();
+    let shape_bbox = bounding_box_without_text(diagram);
+    let calculated_scale = 1;
+    if (shape_bbox != undefined) {
+        let [min, max] = shape_bbox;
+        let sx = (max.x - min.x) / width;
+        let sy = height == undefined ? 0 : (max.y - min.y) / height;
+        calculated_scale = Math.max(sx, sy);
+        if (!isFinite(calculated_scale) || calculated_scale <= 0) calculated_scale = 1;
+    }
+
+    let texts = render_text ? collect_text(diagram) : [];
+    let bbox = shape_bbox;
+    for (let [t, clip_bbox] of texts) {
+        let tbbox : [Vector2, Vector2] | undefined = text_bounding_box(t, calculated_scale);
+        if (clip_bbox != undefined) tbbox = intersect_bbox(tbbox, clip_bbox);
+        if (tbbox == undefined) continue;
+        bbox = bbox == undefined ? tbbox : [
+            new Vector2(Math.min(bbox[0].x, tbbox[0].x), Math.min(bbox[0].y, tbbox[0].y)),
+            new Vector2(Math.max(bbox[1].x, tbbox[1].x), Math.max(bbox[1].y, tbbox[1].y)),
+        ];
+    }
+    if (bbox == undefined) bbox = [diagram.origin.copy(), diagram.origin.copy()];
+
+    // svg coordinate have the y axis flipped
+    let [min, max] = bbox;
+    let pad = padding * calculated_scale;
+    return {
+        viewbox : [min.x - pad, -max.y - pad, max.x - min.x + 2*pad, max.y - min.y + 2*pad],
+        calculated_scale,
+    };
+}
+
+/**
+ * Draw a diagram to a standalone svg string
+ * \* this function doesn't need the DOM, text extents are estimated
+ * @param diagram the diagram to draw
+ * @param options options for the output svg
+ * @returns the svg string
+ */
+export function draw_to_svg_string(diagram : Diagram, options? : Partial<svg_string_options>) : string {
+    let opt = {...default_svg_string_options, ...options}; // use default if not defined
+
+    let { viewbox, calculated_scale } = calculate_viewbox(diagram, opt.width, opt.height, opt.padding, opt.render_text);
+    let [vx, vy, vw, vh] = viewbox;
+    let width  = opt.width;
+    let height = opt.height ?? (vw > 0 ? opt.width * vh / vw : opt.width);
+
+    let ctx = new_svg_string_context(opt.id_prefix);
+    let content = f_draw_to_svg_string(diagram, ctx);
+    if (opt.render_text) content += f_texts_to_string(diagram, calculated_scale, ctx);
+
+    let background = opt.background == undefined ? "" :
+        `<rect x="${vx}" y="${vy}" width="${vw}" height="${vh}" style="fill:${get_color(opt.background, tab_color)};stroke:none"/>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${width}" height="${height}" viewBox="${vx} ${vy} ${vw} ${vh}" preserveAspectRatio="xMidYMid meet">` +
+        background + content + `</svg>`;
+}
@@ -0,0 +1,418 @@
+import { Diagram, DiagramType, DEFAULT_FONTSIZE, marker_placements, marker_scale } from "./diagram.js";
+import { Vector2 } from "./vector.js";
+import { tab_color, get_color } from "./color_palette.js";
+import { to_degree } from "./utils.js";
+import { PathSegment, segment_to_cubics } from './path_segment.js';
+import { Paint, is_paint } from './paint.js';
+import { marker_geometry } from './marker.js';
+import { default_diagram_style, default_text_diagram_style, default_textdata, is_texstr } from './draw_svg.js';
+
+// Export a Diagram as TikZ code (to be used in LaTeX documents)
+// TikZ has the y axis pointing up, so the coordinates are used as they are (unlike svg)
+// lengths in the diagram unit are scaled by `unit` (in cm), and lengths in pixel
+// (stroke width, dash array, markers) are scaled by `line_width_unit` (in pt)
+// lazy transforms are baked, so the texts are placed the same way as `draw_to_svg_string()`
+
+export type tikz_options = {
+    unit            : number,  // length of one diagram unit in cm
+    line_width_unit : number,  // length in pt of one pixel of stroke width (and dash array)
+    render_text     : boolean,
+    environment     : boolean, // wrap the code in `\begin{tikzpicture} ... \end{tikzpicture}`
+    precision       : number,  // maximum number of decimal places of the numbers
+}
+
+export const default_tikz_options : tikz_options = {
+    unit            : 1,
+    line_width_unit : 0.75,
+    render_text     : true,
+    environment     : true,
+    precision       : 4,
+}
+
+// colors that are predefined by xcolor
+const XCOLOR_NAMES = [
+    'black', 'white', 'red', 'green', 'blue', 'cyan', 'magenta', 'yellow', 'gray', 'darkgray', 'lightgray',
+    'brown', 'lime', 'olive', 'orange', 'pink', 'purple', 'teal', 'violet',
+];
+
+/**
+ * State of a conversion, the colors are defined once at the top of the picture
+ */
+type TikzContext = {
+    opt       : tikz_options,
+    colors    : Map<string, string>, // css color to the name of the defined color
+    color_defs : string[],
+    libraries : Set<string>,
+}
+
+function fmt(ctx : TikzContext, x : number) : string {
+    let p = Math.pow(10, ctx.opt.precision);
+    let v = Math.round(x * p) / p;
+    return (v == 0 ? 0 : v).toString();
+}
+
+function coord(ctx : TikzContext, p : Vector2) : string {
+    return `(${fmt(ctx, p.x * ctx.opt.unit)},${fmt(ctx, p.y * ctx.opt.unit)})`;
+}
+
+/**
+ * Escape the special characters of LaTeX
+ */
+export function escape_latex(s : string) : string {
+    return s.replace(/[\\{}$&#^_%~]/g, c => {
+        switch (c) {
+            case '\\' : return '\\textbackslash{}';
+            case '^'  : return '\\textasciicircum{}';
+            case '~'  : return '\\textasciitilde{}';
+            default   : return '\\' + c;
+        }
+    });
+}
+
+/**
+ * Get the TikZ name of a css color, colors that are not predefined are defined with `\definecolor`
+ * @returns the color name, or undefined if the color is `none`
+ */
+function tikz_color(ctx : TikzContext, color : string | undefined) : string | undefined {
+    if (color == undefined) return undefined;
+    let c = get_color(color, tab_color).trim().toLowerCase();
+    if (c == 'none' || c == 'transparent' || c == '') return undefined;
+    if (XCOLOR_NAMES.includes(c)) return c;
+    let name = ctx.colors.get(c);
+    if (name != undefined) return name;
+
+    let definition : string | undefined = undefined;
+    let hex = c.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    let rgb = c.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/);
+    if (hex) {
+        let h = hex[1].length == 3 ? hex[1].split('').map(x => x + x).join('') : hex[1];
+        definition = `{HTML}{${h.toUpperCase()}}`;
+    } else if (rgb) {
+        definition = `{RGB}{${rgb.slice(1, 4).map(x => Math.round(parseFloat(x))).join(',')}}`;
+    }
+    // assume the other names are defined in the document
+    if (definition == undefined) return c;
+
+    name = `dgcolor${ctx.colors.size}`;
+    ctx.colors.set(c, name);
+    ctx.color_defs.push(`\\definecolor{${name}}${definition}`);
+    return name;
+}
+
+/**
+ * Convert the points and segments of a path into a TikZ path
+ * quadratic segments and arcs are converted into cubic segments
+ */
+function path_to_tikz(ctx : TikzContext, points : Vector2[], segments : (PathSegment | null | undefined)[], closed : boolean) : string {
+    if (points.length == 0) return "";
+    let parts = [coord(ctx, points[0])];
+    let n_segments = closed ? points.length : points.length - 1;
+    for (let i = 0; i < n_segments; i++) {
+        let p0 = points[i];
+        let p1 = points[(i + 1) % points.length];
+        let seg = segments[i];
+        let is_closing = closed && i == n_segments - 1;
+        let end = is_closing ? "cycle" : coord(ctx, p1);
+        if (seg == undefined || seg.type == "line") {
+            parts.push(`-- ${end}`);
+        } else {
+            for (let [c1, c2, p] of segment_to_cubics(seg, p0, p1)) {
+                let target = p == p1 ? end : coord(ctx, p);
+                parts.push(`.. controls ${coord(ctx, c1)} and ${coord(ctx, c2)} .. ${target}`);
+            }
+        }
+    }
+    return parts.join(" ");
+}
+
+/**
+ * Get the TikZ options of the stroke of a style
+ */
+function stroke_options(ctx : TikzContext, style : {[key : string] : any}) : string[] {
+    let stroke = tikz_color(ctx, style["stroke"]);
+    if (stroke == undefined) return [];
+    let lw = ctx.opt.line_width_unit;
+    let options = [`draw=${stroke}`, `line width=${fmt(ctx, parseFloat(style["stroke-width"]) * lw)}pt`];
+    let dasharray = style["stroke-dasharray"] as string;
+    if (dasharray != undefined && dasharray != "none") {
+        let values = dasharray.split(/[\s,]+/).map(parseFloat).filter(x => !isNaN(x));
+        if (values.length % 2 == 1) values = values.concat(values);
+        let pattern = values.map((v, i) => `${i % 2 == 0 ? 'on' : 'off'} ${fmt(ctx, v * lw)}pt`).join(" ");
+        if (values.length > 0) options.push(`dash pattern=${pattern}`);
+    }
+    // butt cap and miter join are the default of TikZ
+    let cap : string | undefined = ({ "round" : "round", "square" : "rect" } as {[key : string] : string})[style["stroke-linecap"]];
+    if (cap != undefined) options.push(`line cap=${cap}`);
+    let join : string | undefined = ({ "round" : "round", "bevel" : "bevel" } as {[key : string] : string})[style["stroke-linejoin"]];
+    if (join != undefined) options.push(`line join=${join}`);
+    return options;
+}
+
+/**
+ * Get the TikZ options of the fill of a style
+ * gradients are converted into shadings (only the first and last stops are used),
+ * and patterns use the `patterns.meta` library
+ */
+function fill_options(ctx : TikzContext, fill : string | Paint | undefined) : string[] {
+    if (!is_paint(fill)) {
+        let color = tikz_color(ctx, fill);
+        return color == undefined ? [] : [`fill=${color}`];
+    }
+    switch (fill.type) {
+        case 'linear-gradient' : {
+            let first = tikz_color(ctx, fill.stops[0]?.color) ?? "white";
+            let last  = tikz_color(ctx, fill.stops[fill.stops.length - 1]?.color) ?? "white";
+            return [`left color=${first}`, `right color=${last}`, `shading angle=${fmt(ctx, -to_degree(fill.angle))}`];
+        }
+        case 'radial-gradient' : {
+            let first = tikz_color(ctx, fill.stops[0]?.color) ?? "white";
+            let last  = tikz_color(ctx, fill.stops[fill.stops.length - 1]?.color) ?? "white";
+            return [`inner color=${first}`, `outer color=${last}`];
+        }
+        case 'hatch-pattern' :
+        case 'dot-pattern' : {
+            ctx.libraries.add("patterns.meta");
+            let options : string[] = [];
+            let background = tikz_color(ctx, fill.background);
+            if (background != undefined) options.push(`preaction={fill=${background}}`);
+            let spacing = fmt(ctx, fill.spacing * ctx.opt.unit);
+            if (fill.type == 'hatch-pattern') {
+                let name = fill.cross ? 'Hatch' : 'Lines';
+                let width = fmt(ctx, fill.strokewidth * ctx.opt.unit);
+                options.push(`pattern={${name}[angle=${fmt(ctx, to_degree(fill.angle))},distance=${spacing}cm,line width=${width}cm]}`);
+            } else {
+                options.push(`pattern={Dots[distance=${spacing}cm,radius=${fmt(ctx, fill.radius * ctx.opt.unit)}cm]}`);
+            }
+            options.push(`pattern color=${tikz_color(ctx, fill.color) ?? "black"}`);
+            return options;
+        }
+    }
+}
+
+function common_options(ctx : TikzContext, style : {[key : string] : any}) : string[] {
+    let opacity = parseFloat(style["opacity"]);
+    return (isNaN(opacity) || opacity == 1) ? [] : [`opacity=${fmt(ctx, opacity)}`];
+}
+
+function path_command(options : string[], path : string) : string {
+    if (options.length == 0 || path == "") return "";
+    return `\\path[${options.join(", ")}] ${path};`;
+}
+
+function polygon_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    if (diagram.path == undefined) return [];
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    let options = [...fill_options(ctx, style.fill), ...stroke_options(ctx, style)];
+    if (options.length == 0) return [];
+    options.push(...common_options(ctx, style));
+    return [path_command(options, path_to_tikz(ctx, diagram.path.points, diagram.path.segments, true))];
+}
+
+function compound_polygon_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    let options = [...fill_options(ctx, style.fill), ...stroke_options(ctx, style)];
+    if (options.length == 0) return [];
+    options.push(...common_options(ctx, style));
+    if (style["fill-rule"] == "evenodd") options.push("even odd rule");
+    let path = diagram.children.filter(c => c.path != undefined)
+        .map(c => path_to_tikz(ctx, c.path!.points, c.path!.segments, true)).join(" ");
+    return [path_command(options, path)];
+}
+
+/**
+ * Draw the markers of a curve as filled or stroked paths, the size is in diagram unit (same as `coord`)
+ */
+function markers_to_tikz(ctx : TikzContext, diagram : Diagram, stroke : string, line_width : string) : string[] {
+    let size = marker_scale(diagram) * ctx.opt.unit;
+    let pt = (p : Vector2) => `(${fmt(ctx, p.x * size)},${fmt(ctx, p.y * size)})`;
+    let lines : string[] = [];
+    for (let [shape, pos, angle] of marker_placements(diagram)) {
+        let geometry = marker_geometry(shape);
+        let options = [`shift={${coord(ctx, pos)}}`, `rotate=${fmt(ctx, to_degree(angle))}`,
+            `draw=${stroke}`, `line width=${line_width}`, `line join=round`];
+        if (geometry.filled) options.push(`fill=${stroke}`);
+        let path = geometry.type == 'circle' ?
+            `(0,0) circle[radius=${fmt(ctx, geometry.radius * size)}]` :
+            geometry.points.map(pt).join(" -- ") + (geometry.type == 'polygon' ? " -- cycle" : "");
+        lines.push(path_command(options, path));
+    }
+    return lines;
+}
+
+function curve_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    if (diagram.path == undefined) return [];
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    let options = stroke_options(ctx, style);
+    if (options.length == 0) return [];
+    options.push(...common_options(ctx, style));
+    let lines = [path_command(options, path_to_tikz(ctx, diagram.path.points, diagram.path.segments, false))];
+    let stroke = tikz_color(ctx, style.stroke as string) as string;
+    let line_width = `${fmt(ctx, parseFloat(style["stroke-width"] as string) * ctx.opt.line_width_unit)}pt`;
+    return lines.concat(markers_to_tikz(ctx, diagram, stroke, line_width));
+}
+
+function image_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    let src = diagram.imgdata.src;
+    if (src == undefined || diagram.path == undefined || diagram.path.points.length != 4) return [];
+    if (src.startsWith("data:")) return ["% image with embedded data is not supported"];
+
+    // path: bottom-left, bottom-right, top-right, top-left
+    let points = diagram.path.points;
+    let width  = points[1].sub(points[0]).length() * ctx.opt.unit;
+    let height = points[3].sub(points[0]).length() * ctx.opt.unit;
+    let angle  = to_degree(points[1].sub(points[0]).angle());
+    return [`\\node[inner sep=0, anchor=south west, rotate=${fmt(ctx, angle)}] at ${coord(ctx, points[0])} ` +
+        `{\\includegraphics[width=${fmt(ctx, width)}cm, height=${fmt(ctx, height)}cm]{${src}}};`];
+}
+
+/**
+ * Get the anchor of a text node from the svg `text-anchor` and `dy`
+ */
+function text_anchor(text_anchor : string, dy : string) : string {
+    let v = parseFloat(dy);
+    let vertical = isNaN(v) ? "mid" : v >= 0.5 ? "north" : v > 0.1 ? "mid" : v > -0.1 ? "base" : "south";
+    let horizontal = text_anchor == "start" ? "west" : text_anchor == "end" ? "east" : "";
+    if (horizontal == "") return vertical == "mid" ? "center" : vertical;
+    return `${vertical} ${horizontal}`;
+}
+
+/**
+ * Convert a text into LaTeX, `$...$` strings are kept as math
+ * @param is_var whether the text is a variable (drawn in math italic)
+ */
+function text_to_latex(text : string, is_var : boolean) : string {
+    if (text.startsWith("$$") && text.endsWith("$$") && text.length >= 4)
+        return `$\\displaystyle ${text.substring(2, text.length - 2)}$`;
+    if (is_texstr(text) && text.length >= 2) return text;
+    if (is_var) return `$${escape_latex(text)}$`;
+    return escape_latex(text);
+}
+
+function font_options(ctx : TikzContext, textdata : {[key : string] : any}) : string[] {
+    let font = "";
+    if (textdata["font-weight"] == "bold") font += "\\bfseries";
+    if (textdata["font-style"] == "italic") font += "\\itshape";
+    let options = font == "" ? [] : [`font=${font}`];
+    // the font size is relative to the document font
+    let scale = parseFloat(textdata["font-size"]) / parseFloat(DEFAULT_FONTSIZE);
+    if (!isNaN(scale) && scale != 1) options.push(`scale=${fmt(ctx, scale)}`);
+    return options;
+}
+
+function text_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
+    let textdata = {...default_textdata, ...diagram.textdata}; // use default if not defined
+    let options = [
+        `anchor=${text_anchor(textdata["text-anchor"] as string, textdata["dy"] as string)}`,
+        "inner sep=0",
+    ];
+    // the text angle is clockwise (svg), tikz rotation is counterclockwise
+    let angle = -to_degree(parseFloat(textdata["angle"] as string));
+    if (!isNaN(angle) && angle != 0) options.push(`rotate=${fmt(ctx, angle)}`);
+    let color = tikz_color(ctx, style.fill as string);
+    if (color != undefined && color != "black") options.push(`text=${color}`);
+    options.push(...font_options(ctx, textdata), ...common_options(ctx, style));
+
+    let content = text_to_latex(textdata["text"], diagram.tags.includes('textvar'));
+    return [`\\node[${options.join(", ")}] at ${coord(ctx, diagram.path.points[0])} {${content}};`];
+}
+
+function multiline_text_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    if (diagram.multilinedata?.content == undefined) { throw new Error("MultilineText must have multilinedata"); }
+    // use default if not defined
+    let textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+
+    let lines : string[] = [""];
+    for (let tspandata of diagram.multilinedata.content) {
+        if (tspandata.text == "\n") { lines.push(""); continue; }
+        let tspanstyle = tspandata.style as {[key : string] : any};
+        let content = text_to_latex(tspandata.text, Boolean(tspanstyle["textvar"]));
+        if (tspanstyle["font-weight"] == "bold") content = `\\textbf{${content}}`;
+        if (tspanstyle["font-style"] == "italic") content = `\\textit{${content}}`;
+        let color = tikz_color(ctx, tspanstyle["fill"]);
+        if (color != undefined && color != "black") content = `\\textcolor{${color}}{${content}}`;
+        lines[lines.length - 1] += content;
+    }
+
+    let aligns : {[key : string] : string} = { "start" : "left", "middle" : "center", "end" : "right" };
+    let align = aligns[textdata["text-anchor"] as string] ?? "left";
+    let options = [
+        `anchor=${text_anchor(textdata["text-anchor"] as string, textdata["dy"] as string)}`,
+        "inner sep=0",
+        `align=${align}`,
+        ...font_options(ctx, textdata),
+    ];
+    return [`\\node[${options.join(", ")}] at ${coord(ctx, diagram.path.points[0])} {${lines.join(" \\\\ ")}};`];
+}
+
+/**
+ * Get the TikZ path of the clip of a diagram (the closed shapes of the clip diagram)
+ */
+function clip_path_to_tikz(ctx : TikzContext, diagram : Diagram) : string {
+    switch (diagram.type) {
+        case DiagramType.Polygon :
+            return diagram.path == undefined ? "" : path_to_tikz(ctx, diagram.path.points, diagram.path.segments, true);
+        case DiagramType.CompoundPolygon :
+        case DiagramType.Diagram :
+            return diagram.children.map(c => clip_path_to_tikz(ctx, c)).filter(s => s != "").join(" ");
+        default : return "";
+    }
+}
+
+/**
+ * Wrap the lines in a clipped scope if the diagram is clipped
+ */
+function wrap_clip(ctx : TikzContext, diagram : Diagram, lines : string[]) : string[] {
+    if (diagram.clippath == undefined || lines.length == 0) return lines;
+    let clip = clip_path_to_tikz(ctx, diagram.clippath);
+    if (clip == "") return [];
+    return ["\\begin{scope}", `\\clip ${clip};`, ...lines, "\\end{scope}"];
+}
+
+function f_shapes_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    switch (diagram.type) {
+        case DiagramType.Polygon : return polygon_to_tikz(ctx, diagram);
+        case DiagramType.CompoundPolygon : return compound_polygon_to_tikz(ctx, diagram);
+        case DiagramType.Curve   : return curve_to_tikz(ctx, diagram);
+        case DiagramType.Image   : return image_to_tikz(ctx, diagram);
+        case DiagramType.Text    :
+        case DiagramType.MultilineText : return [];
+        case DiagramType.Diagram :
+            return wrap_clip(ctx, diagram, diagram.children.flatMap(c => f_shapes_to_tikz(ctx, c)));
+        default: throw new Error("Unreachable, unknown diagram type : " + diagram.type);
+    }
+}
+
+function f_texts_to_tikz(ctx : TikzContext, diagram : Diagram) : string[] {
+    switch (diagram.type) {
+        case DiagramType.Text          : return text_to_tikz(ctx, diagram);
+        case DiagramType.MultilineText : return multiline_text_to_tikz(ctx, diagram);
+        case DiagramType.Diagram :
+            return wrap_clip(ctx, diagram, diagram.children.flatMap(c => f_texts_to_tikz(ctx, c)));
+        default : return [];
+    }
+}
+
+/**
+ * Convert a diagram into TikZ code
+ * \* texts use the font of the document, `$...$` texts are typeset as math
+ * \* images need the `graphicx` package, patterns need `\usetikzlibrary{patterns.meta}`
+ * @param diagram the diagram to convert
+ * @param options options for the output
+ * @returns the TikZ code (a `tikzpicture` environment, or its body if `options.environment` is false)
+ */
+export function to_tikz(diagram : Diagram, options? : Partial<tikz_options>) : string {
+    let opt = {...default_tikz_options, ...options}; // use default if not defined
+    let ctx : TikzContext = { opt, colors : new Map(), color_defs : [], libraries : new Set() };
+
+    diagram = diagram.bake_transform();
+    let body = f_shapes_to_tikz(ctx, diagram);
+    if (opt.render_text) body = body.concat(f_texts_to_tikz(ctx, diagram));
+
+    let requires = Array.from(ctx.libraries).map(l => `% requires \\usetikzlibrary{${l}}`);
+    let lines = [...ctx.color_defs, ...body.filter(l => l != "")];
+    if (!opt.environment) return [...requires, ...lines].join("\n");
+    return [...requires, "\\begin{tikzpicture}", ...lines.map(l => "    " + l), "\\end{tikzpicture}"].join("\n");
+}
@@ -1,8 +1,10 @@
-import { Diagram, DiagramType } from './diagram.js';
+import { Diagram, DiagramType, diagram_combine } from './diagram.js';
 import { str_to_mathematical_italic } from './unicode_utils.js'
 import { Vector2, V2 } from './vector.js';
 import { get_color, tab_color } from './color_palette.js';
-import { f_draw_to_svg } from './draw_svg.js';
+import { f_draw_to_svg, draw_to_svg, capture_svg_drawing } from './draw_svg.js';
+import { draw_to_canvas_in_svg } from './draw_canvas.js';
+import { animated_svg_options, draw_to_animated_svg_string } from './draw_animated_svg.js';
 import { rectangle_corner } from './shapes.js';
 
 function format_number(val : number, prec : number) {
@@ -34,6 +36,8 @@ enum control_svg_name {
 export class Interactive {
     public inp_variables : inpVariables_t = {};
     public inp_setter    : inpSetter_t = {};
+    // with "canvas", the diagram drawn by `draw_function` (with `draw_diagram()` or `draw_to_svg()` to `diagram_outer_svg`)
+    // is drawn to a canvas in the diagram layer, the other layers are still svg
     public display_mode  : "svg" | "canvas" = "svg";
 
     public diagram_svg : SVGSVGElement | undefined = undefined;
@@ -45,12 +49,15 @@ export class Interactive {
     private locatorHandler? : LocatorHandler = undefined;
     private dragAndDropHandler? : DragAndDropHandler = undefined;
     private buttonHandler? : ButtonHandler = undefined;
-    // no support for canvas yet
 
     public draw_function : (inp_object : inpVariables_t, setter_object? : inpSetter_t) => any 
         = (_) => {};
     public display_precision : undefined | number = 5;
     intervals : {[key : string] : any} = {};         
+    // if defined, `draw_diagram` passes the diagram to this function instead of drawing it
+    private diagram_capture? : (diagram : Diagram) => void = undefined;
+    // whether `draw()` is drawing `draw_to_svg()` to the canvas (see `display_mode`)
+    private drawing_to_canvas : boolean = false;
 
     /**
      * @param control_container_div the div that contains the control elements
@@ -68,7 +75,26 @@ export class Interactive {
     }
 
     public draw() : void {
-        this.draw_function(this.inp_variables, this.inp_setter);
+        let outer_svg = this.diagram_outer_svg;
+        if (this.display_mode == "canvas" && outer_svg != undefined && this.diagram_capture == undefined
+            && !this.drawing_to_canvas) {
+            // draw the diagrams drawn with `draw_to_svg()` to the canvas instead
+            let drawn : Diagram | undefined = undefined;
+            capture_svg_drawing(outer_svg, (diagram, clear_svg, render_text) => {
+                drawn = (clear_svg || drawn == undefined) ? diagram : diagram_combine(drawn, diagram);
+                draw_to_canvas_in_svg(outer_svg as SVGSVGElement, drawn, render_text);
+                this.diagram_svg = this.get_diagram_svg();
+            });
+            this.drawing_to_canvas = true;
+            try {
+                this.draw_function(this.inp_variables, this.inp_setter);
+            } finally {
+                this.drawing_to_canvas = false;
+                capture_svg_drawing(outer_svg);
+            }
+        } else {
+            this.draw_function(this.inp_variables, this.inp_setter);
+        }
         this.locatorHandler?.setViewBox();
         this.dragAndDropHandler?.setViewBox();
         set_viewbox(this.custom_svg, this.diagram_svg);
@@ -76,6 +102,62 @@ export class Interactive {
         // TODO: also do this for the other control_svg
     }
 
+    /**
+     * Draw a diagram to the diagram layer of `diagram_outer_svg`
+     * the diagram is drawn as svg or canvas depending on `display_mode`
+     * @param diagram the diagram to draw
+     */
+    public draw_diagram(diagram : Diagram) : void {
+        if (this.diagram_capture != undefined) { this.diagram_capture(diagram); return; }
+        if (this.diagram_outer_svg == undefined) throw Error("diagram_outer_svg in Interactive class is undefined");
+        if (this.display_mode == "canvas") {
+            draw_to_canvas_in_svg(this.diagram_outer_svg, diagram);
+        } else {
+            draw_to_svg(this.diagram_outer_svg, diagram);
+        }
+        this.diagram_svg = this.get_diagram_svg();
+    }
+
+    /**
+     * Create a standalone animated svg by sweeping a variable (e.g. a slider) and sampling `draw_function`
+     * \* `draw_function` must draw with `draw_diagram`, with `draw_to_svg` to `diagram_outer_svg`, or return the diagram
+     * (drawing to other svg elements is not captured, and they are redrawn for every frame)
+     * \* the live diagram is not redrawn, and the variable is restored afterwards
+     * @param variable_name name of the variable to sweep
+     * @param min value at the first frame
+     * @param max value at the last frame
+     * @param nframes number of sampled frames
+     * @param options options for the output svg and the animation
+     * @returns the svg string
+     */
+    public animated_svg(variable_name : string, min : number, max : number, nframes : number = 30,
+        options? : Partial<animated_svg_options>) : string {
+        if (nframes < 1) throw Error("nframes must be at least 1");
+        let initial_value = this.inp_variables[variable_name];
+        let frames : Diagram[] = [];
+        let captured : Diagram | undefined = undefined;
+        const capture = (diagram : Diagram, clear_svg : boolean = true) => {
+            captured = (clear_svg || captured == undefined) ? diagram : diagram_combine(captured, diagram);
+        };
+        this.diagram_capture = capture;
+        if (this.diagram_outer_svg != undefined) capture_svg_drawing(this.diagram_outer_svg, capture);
+        try {
+            for (let i = 0; i < nframes; i++) {
+                this.inp_variables[variable_name] = nframes == 1 ? min : min + (max - min) * i / (nframes - 1);
+                captured = undefined;
+                let result = this.draw_function(this.inp_variables, this.inp_setter);
+                if (result instanceof Diagram) captured = result;
+                if (captured == undefined) throw Error("draw_function didn't draw a diagram to diagram_outer_svg");
+                frames.push(captured);
+            }
+        } finally {
+            this.diagram_capture = undefined;
+            if (this.diagram_outer_svg != undefined) capture_svg_drawing(this.diagram_outer_svg);
+            this.inp_variables[variable_name] = initial_value;
+        }
+        return draw_to_animated_svg_string(frames, options);
+    }
+
     public set(variable_name : string, val : any) : void {
         this.inp_setter[variable_name](val);
     }
@@ -225,7 +307,8 @@ export class Interactive {
             if (track_diagram.type != DiagramType.Polygon && track_diagram.type != DiagramType.Curve)
                 throw Error('Track diagram must be a polygon or curve');
             if (track_diagram.path == undefined) throw Error(`diagram {diagtam.type} must have a path`);
-            let track = track_diagram.path.points;
+            // curved segments are sampled into points
+            let track = track_diagram.path.flatten(track_diagram.type == DiagramType.Polygon, 100).points;
             setter = (pos : Vector2) => {
                 let coord = closest_point_from_points(pos, track);
                 locator_svg.setAttributeNS(null, "x", coord.x.toString());
@@ -301,7 +384,8 @@ export class Interactive {
             if (track_diagram.type != DiagramType.Polygon && track_diagram.type != DiagramType.Curve)
                 throw Error('Track diagram must be a polygon or curve');
             if (track_diagram.path == undefined) throw Error(`diagram {diagtam.type} must have a path`);
-            let track = track_diagram.path.points;
+            // curved segments are sampled into points
+            let track = track_diagram.path.flatten(track_diagram.type == DiagramType.Polygon, 100).points;
             setter = (pos : Vector2) => {
                 let coord = closest_point_from_points(pos, track);
                 locator_svg.setAttributeNS(null, "x", coord.x.toString());
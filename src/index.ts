@@ -1,11 +1,28 @@
 export { 
     Diagram, Path, polygon, line, curve, empty, text, image, multiline, multiline_bb, diagram_combine,
+    compound_polygon, DiagramType, DiagramSelector, Orientation,
 } from './diagram.js';
 
 export { 
-    Vector2, V2, Vdir, 
+    Vector2, V2, Vdir, Affine2,
 } from './vector.js';
 
+export {
+    line_segment, quadratic_segment, cubic_segment, arc_segment, elliptical_arc_segment,
+} from './path_segment.js';
+export * as segment from './path_segment.js'
+
+export {
+    Paint, linear_gradient, radial_gradient, hatch_pattern, crosshatch_pattern, dot_pattern,
+    gradient, pattern,
+} from './paint.js';
+export { MarkerShape } from './marker.js';
+export { Intersection, intersections } from './intersection.js';
+export { DiagramDiff, DiagramDiffKind, diagram_diff } from './diagram_diff.js';
+export {
+    DiagramJSON, JSONMigration, DiagramJSONError, DIAGRAM_JSON_VERSION, register_json_migration, unregister_json_migration,
+} from './serialization.js';
+
 export {
     to_degree, to_radian,
     linspace, range, array_repeat,
@@ -16,6 +33,7 @@ export * as utils from './utils.js'
 
 export {
     draw_to_svg, download_svg_as_svg, download_svg_as_png,
+    export_svg, export_png, export_options, default_export_options, ExportLayer,
     get_tagged_svg_element,
     handle_tex_in_svg,
     default_diagram_style, default_text_diagram_style, default_textdata,
@@ -23,9 +41,39 @@ export {
     reset_default_styles,
 } from './draw_svg.js';
 
+export {
+    draw_to_svg_string,
+} from './draw_svg_string.js';
+
+export {
+    to_tikz, tikz_options, default_tikz_options,
+} from './draw_tikz.js';
+
+export {
+    draw_to_animated_svg_string, animated_svg_options, default_animated_svg_options,
+} from './draw_animated_svg.js';
+
+export {
+    draw_to_pdf, draw_to_pdf_pages, pdf_options, default_pdf_options,
+} from './draw_pdf.js';
+
+export {
+    render_png, png_options, default_png_options,
+} from './render_png.js';
+
+export {
+    FontSpec, TextMetricsProvider,
+    approximate_text_width, canvas_text_width, measure_text_width,
+    set_text_metrics_provider, set_text_auto_scale, get_text_auto_scale, with_text_auto_scale,
+} from './text_metrics.js';
+
+export {
+    draw_to_canvas, draw_to_canvas_in_svg,
+} from './draw_canvas.js';
+
 export { 
     rectangle, square, regular_polygon, regular_polygon_side,
-    circle, arc, 
+    circle, arc, annulus,
     arrow, arrow1, arrow2, textvar, rectangle_corner,
 } from './shapes.js'
 
@@ -55,7 +103,7 @@ export {
     ytickmark_empty, ytickmark, yticks,
     xyaxes, xygrid, xycorneraxes,
     xaxis, yaxis, xgrid, ygrid,
-    plot, plotv, plotf, under_curvef,
+    plot, plotv, plotf, under_curvef, between_curvef, clip_to_axes,
     axes_options,
 } from './shapes/shapes_graph.js'
 
@@ -63,6 +111,7 @@ export * as graph from './shapes/shapes_graph.js'
 export * as geometry from './shapes/shapes_geometry.js'
 export * as annotation from './shapes/shapes_annotation.js'
 export * as mechanics from './shapes/shapes_mechanics.js'
+export * as decoration from './shapes/shapes_decoration.js'
 export * as bar from './shapes/shapes_bar.js'
 export * as numberline from './shapes/shapes_numberline.js'
 export * as table from './shapes/shapes_table.js'
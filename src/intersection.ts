@@ -0,0 +1,181 @@
+import { Diagram, DiagramType } from './diagram.js';
+import { Vector2 } from './vector.js';
+import { PathSegment, segment_point, segment_derivative, segment_length, is_line } from './path_segment.js';
+
+// Intersection of the paths of two diagrams
+// curved segments are sampled into polylines to find the approximate crossings,
+// which are then refined using Newton's method on the exact segments
+
+/**
+ * Intersection point of two diagrams
+ * `t1` and `t2` are the parameters of the point on each diagram (same as `parametric_point()`)
+ */
+export type Intersection = {
+    point : Vector2,
+    t1    : number,
+    t2    : number,
+}
+
+// a segment of a path, with the range of the parameter it covers on the whole diagram
+type Piece = {
+    seg     : PathSegment,
+    p0      : Vector2,
+    p1      : Vector2,
+    t_start : number,
+    t_end   : number,
+    length  : number,
+}
+
+const CURVE_SAMPLES = 64;
+const NEWTON_ITERATIONS = 16;
+
+function diagram_length(d : Diagram) : number {
+    switch (d.type) {
+        case DiagramType.Curve   :
+        case DiagramType.Polygon : return d.path == undefined ? 0 : d.path.length(d.type == DiagramType.Polygon);
+        case DiagramType.Diagram :
+        case DiagramType.CompoundPolygon : return d.children.reduce((l, c) => l + diagram_length(c), 0);
+        default : return 0;
+    }
+}
+
+/**
+ * Collect the segments of a diagram (texts and images are ignored)
+ * the parameter is distributed by length, the same way as `parametric_point()`
+ */
+function collect_pieces(d : Diagram, t_start : number, t_end : number) : Piece[] {
+    if (d.type == DiagramType.Curve || d.type == DiagramType.Polygon) {
+        if (d.path == undefined) return [];
+        let closed = d.type == DiagramType.Polygon;
+        let pieces : Piece[] = [];
+        let total = d.path.length(closed);
+        let length_before = 0;
+        for (let i = 0; i < d.path.segment_count(closed); i++) {
+            let [seg, p0, p1] = d.path.segment_data(i);
+            let length = segment_length(seg, p0, p1);
+            let t0 = total == 0 ? t_start : t_start + (t_end - t_start) * length_before / total;
+            let t1 = total == 0 ? t_start : t_start + (t_end - t_start) * (length_before + length) / total;
+            pieces.push({ seg, p0, p1, t_start : t0, t_end : t1, length });
+            length_before += length;
+        }
+        return pieces;
+    } else if (d.type == DiagramType.Diagram || d.type == DiagramType.CompoundPolygon) {
+        let lengths = d.children.map(diagram_length);
+        let total = lengths.reduce((a, b) => a + b, 0);
+        let pieces : Piece[] = [];
+        let length_before = 0;
+        for (let i = 0; i < d.children.length; i++) {
+            let t0 = total == 0 ? t_start : t_start + (t_end - t_start) * length_before / total;
+            let t1 = total == 0 ? t_start : t_start + (t_end - t_start) * (length_before + lengths[i]) / total;
+            pieces = pieces.concat(collect_pieces(d.children[i], t0, t1));
+            length_before += lengths[i];
+        }
+        return pieces;
+    }
+    return [];
+}
+
+/**
+ * Convert the parameter of a segment into the parameter of the whole diagram
+ */
+function piece_t(piece : Piece, u : number) : number {
+    if (piece.length == 0) return piece.t_start;
+    let fraction = is_line(piece.seg) ? u : segment_length(piece.seg, piece.p0, piece.p1, 0, u) / piece.length;
+    return piece.t_start + (piece.t_end - piece.t_start) * fraction;
+}
+
+function sample_params(piece : Piece) : number[] {
+    let n = is_line(piece.seg) ? 1 : CURVE_SAMPLES;
+    let params : number[] = [];
+    for (let i = 0; i <= n; i++) params.push(i / n);
+    return params;
+}
+
+/**
+ * Intersect two straight edges
+ * @returns the parameters `[u, v]` along each edge, or undefined if they don't cross (parallel edges don't cross)
+ */
+function edge_intersection(a0 : Vector2, a1 : Vector2, b0 : Vector2, b1 : Vector2) : [number, number] | undefined {
+    let d = a1.sub(a0);
+    let e = b1.sub(b0);
+    let denom = d.cross(e);
+    if (Math.abs(denom) <= 1e-12 * Math.sqrt(d.length_sq() * e.length_sq())) return undefined;
+    let w = b0.sub(a0);
+    let u = w.cross(e) / denom;
+    let v = w.cross(d) / denom;
+    const eps = 1e-9;
+    if (u < -eps || u > 1 + eps || v < -eps || v > 1 + eps) return undefined;
+    return [Math.min(1, Math.max(0, u)), Math.min(1, Math.max(0, v))];
+}
+
+/**
+ * Refine the intersection of two segments using Newton's method
+ */
+function refine(a : Piece, b : Piece, u : number, v : number) : [number, number] {
+    if (is_line(a.seg) && is_line(b.seg)) return [u, v];
+    for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+        let f  = segment_point(a.seg, a.p0, a.p1, u).sub(segment_point(b.seg, b.p0, b.p1, v));
+        if (f.length_sq() < 1e-24) break;
+        let da = segment_derivative(a.seg, a.p0, a.p1, u);
+        let db = segment_derivative(b.seg, b.p0, b.p1, v);
+        // solve [da, -db] [du, dv] = -f
+        let det = -da.cross(db);
+        if (Math.abs(det) < 1e-14) break; // tangent, keep the approximation
+        let du = (-f.x * -db.y + db.x * -f.y) / det;
+        let dv = (da.x * -f.y - da.y * -f.x) / det;
+        u = Math.min(1, Math.max(0, u + du));
+        v = Math.min(1, Math.max(0, v + dv));
+    }
+    return [u, v];
+}
+
+function piece_bbox(points : Vector2[]) : [Vector2, Vector2] {
+    let min = new Vector2(Math.min(...points.map(p => p.x)), Math.min(...points.map(p => p.y)));
+    let max = new Vector2(Math.max(...points.map(p => p.x)), Math.max(...points.map(p => p.y)));
+    return [min, max];
+}
+
+/**
+ * Get all the intersection points of the paths of two diagrams
+ * works with curves, polygons, compound polygons, and diagrams containing them (texts and images are ignored)
+ * overlapping collinear parts are not reported
+ * @param d1 the first diagram
+ * @param d2 the second diagram
+ * @param tolerance points closer than this are merged (default 1e-9)
+ * @returns list of intersections, sorted by `t1`
+ */
+export function intersections(d1 : Diagram, d2 : Diagram, tolerance : number = 1e-9) : Intersection[] {
+    let pieces1 = collect_pieces(d1.bake_transform(), 0, 1);
+    let pieces2 = collect_pieces(d2.bake_transform(), 0, 1);
+    let samples2 = pieces2.map(b => {
+        let params = sample_params(b);
+        let points = params.map(v => segment_point(b.seg, b.p0, b.p1, v));
+        return { params, points, bbox : piece_bbox(points) };
+    });
+
+    let result : Intersection[] = [];
+    for (let a of pieces1) {
+        let params_a = sample_params(a);
+        let points_a = params_a.map(u => segment_point(a.seg, a.p0, a.p1, u));
+        let [amin, amax] = piece_bbox(points_a);
+        for (let j = 0; j < pieces2.length; j++) {
+            let b = pieces2[j];
+            let { params : params_b, points : points_b, bbox : [bmin, bmax] } = samples2[j];
+            if (amax.x < bmin.x || bmax.x < amin.x || amax.y < bmin.y || bmax.y < amin.y) continue;
+            for (let i = 0; i < points_a.length - 1; i++) {
+                for (let k = 0; k < points_b.length - 1; k++) {
+                    let hit = edge_intersection(points_a[i], points_a[i+1], points_b[k], points_b[k+1]);
+                    if (hit == undefined) continue;
+                    let u = params_a[i] + hit[0] * (params_a[i+1] - params_a[i]);
+                    let v = params_b[k] + hit[1] * (params_b[k+1] - params_b[k]);
+                    [u, v] = refine(a, b, u, v);
+                    let point = segment_point(a.seg, a.p0, a.p1, u);
+                    // the same point can be found on adjacent edges
+                    if (result.some(r => r.point.sub(point).length() <= tolerance)) continue;
+                    result.push({ point, t1 : piece_t(a, u), t2 : piece_t(b, v) });
+                }
+            }
+        }
+    }
+    return result.sort((r1, r2) => r1.t1 - r2.t1);
+}
@@ -0,0 +1,90 @@
+import { Vector2 } from './vector.js';
+import { tab_color, get_color } from './color_palette.js';
+
+// Markers (arrowheads, dots, ...) drawn at the start, middle vertices, or end of a curve
+// the size of the markers is relative to the stroke width (like svg `markerUnits="strokeWidth"`)
+
+export type MarkerShape = 'triangle' | 'open' | 'stealth' | 'bar' | 'dot' | 'circle';
+
+export type MarkerData = {
+    "start" : MarkerShape | 'none',
+    "mid"   : MarkerShape | 'none',
+    "end"   : MarkerShape | 'none',
+    "size"  : number, // size of the marker relative to the stroke width
+}
+
+export const default_markerdata : MarkerData = {
+    "start" : 'none',
+    "mid"   : 'none',
+    "end"   : 'none',
+    "size"  : 1,
+}
+
+/**
+ * Shape of a marker with size 1, the tip is at the origin and the marker points to +x
+ * `points` is used for polygon and polyline, `radius` for circle
+ */
+export type MarkerGeometry = {
+    type   : 'polygon' | 'polyline' | 'circle',
+    points : Vector2[],
+    radius : number,
+    filled : boolean,
+}
+
+export function marker_geometry(shape : MarkerShape) : MarkerGeometry {
+    switch (shape) {
+        case 'triangle' : return { type : 'polygon', radius : 0, filled : true,
+            points : [new Vector2(0, 0), new Vector2(-1, 0.5), new Vector2(-1, -0.5)] };
+        case 'stealth'  : return { type : 'polygon', radius : 0, filled : true,
+            points : [new Vector2(0, 0), new Vector2(-1, 0.5), new Vector2(-0.7, 0), new Vector2(-1, -0.5)] };
+        case 'open'     : return { type : 'polyline', radius : 0, filled : false,
+            points : [new Vector2(-1, 0.5), new Vector2(0, 0), new Vector2(-1, -0.5)] };
+        case 'bar'      : return { type : 'polyline', radius : 0, filled : false,
+            points : [new Vector2(0, -0.5), new Vector2(0, 0.5)] };
+        case 'dot'      : return { type : 'circle', points : [], radius : 0.25, filled : true };
+        case 'circle'   : return { type : 'circle', points : [], radius : 0.25, filled : false };
+        default : throw new Error("Unknown marker shape : " + shape);
+    }
+}
+
+/**
+ * Get the outline points of a placed marker (used for bounding box)
+ * @param shape shape of the marker
+ * @param position position of the tip of the marker
+ * @param angle direction of the marker
+ * @param scale size of the marker
+ */
+export function marker_outline(shape : MarkerShape, position : Vector2, angle : number, scale : number) : Vector2[] {
+    let geometry = marker_geometry(shape);
+    if (geometry.type == 'circle') {
+        let r = geometry.radius * scale;
+        return [new Vector2(-r, -r), new Vector2(r, -r), new Vector2(r, r), new Vector2(-r, r)].map(p => p.add(position));
+    }
+    return geometry.points.map(p => p.scale(scale).rotate(angle).add(position));
+}
+
+/**
+ * Create the svg `marker` element of a marker
+ * @param shape shape of the marker
+ * @param id id of the element
+ * @param size size of the marker relative to the stroke width
+ * @param color color of the marker
+ * @param strokewidth stroke width of the outline of the marker (non-scaling, same as the curve)
+ * @param reverse point the marker backward (used for the start marker)
+ */
+export function marker_to_svg_string(shape : MarkerShape, id : string, size : number, color : string,
+    strokewidth : string, reverse : boolean) : string {
+    let geometry = marker_geometry(shape);
+    let c = get_color(color, tab_color);
+    let style = `fill="${geometry.filled ? c : 'none'}" stroke="${c}" stroke-width="${strokewidth}" `
+        + `stroke-linejoin="round" vector-effect="non-scaling-stroke"`;
+    let content : string;
+    if (geometry.type == 'circle') {
+        content = `<circle cx="0" cy="0" r="${geometry.radius * size}" ${style}/>`;
+    } else {
+        let points = geometry.points.map(p => `${(reverse ? -p.x : p.x) * size},${-p.y * size}`).join(" ");
+        content = `<${geometry.type} points="${points}" ${style}/>`;
+    }
+    return `<marker id="${id}" markerUnits="strokeWidth" markerWidth="${size}" markerHeight="${size}" `
+        + `refX="0" refY="0" orient="auto" overflow="visible">${content}</marker>`;
+}
@@ -2,6 +2,11 @@ import { Path, Diagram, DiagramType, } from './diagram.js';
 import { Vector2, V2, Vdir} from './vector.js';
 import { linspace, linspace_exc, range } from './utils.js';
 import { array_repeat } from './utils.js'
+import {
+    PathSegment, is_line, segment_copy, segment_length, segment_split, segment_subdivide,
+    segment_t_at_length_fraction, cubic_segment,
+} from './path_segment.js';
+import { LineJoin, offset_polyline } from './offset.js';
 
 type modifierFunction = (d : Diagram) => Diagram
 
@@ -17,7 +22,7 @@ function function_handle_path_type(func : modifierFunction) : modifierFunction {
         if (d.type == DiagramType.Polygon || d.type == DiagramType.Curve ) {
             // apply directly
             return func(d);
-        } else if (d.type == DiagramType.Diagram) {
+        } else if (d.type == DiagramType.Diagram || d.type == DiagramType.CompoundPolygon) {
             // recursively apply to all children
             d.children = d.children.map(c => modified_func(c));
             return d;
@@ -54,39 +59,90 @@ export function resample(n : number) : modifierFunction{
 
 /**
  * Subdivide each segment of a diagram into n segments
+ * curved segments are split into segments of the same type,
+ * the closing edge is only subdivided for polygons (a curve is not closed)
  * @param n number of segments to subdivide each segment into
  * @returns function that modifies a diagram
  */
 export function subdivide(n : number = 100) : modifierFunction {
     function func(d : Diagram) : Diagram {
         if (d.path == undefined) return d;
+        if (d.path.points.length == 0) return d;
 
-        let new_points : Vector2[] = [];
-        for (let i = 0; i < d.path.points.length; i++){
-            let curr_i = i;
-            let next_i = (curr_i + 1) % d.path.points.length;
-            let curr_p = d.path.points[i];
-            let next_p = d.path.points[next_i];
-
-            let xs = linspace(curr_p.x, next_p.x, n+1);
-            let ys = linspace(curr_p.y, next_p.y, n+1);
-            let subdivide_points = xs.map((x,i) => V2(x, ys[i]));
-            // ignore the last point
-            subdivide_points.pop();
-            new_points = new_points.concat(subdivide_points);
+        let closed = d.type == DiagramType.Polygon;
+        let new_points : Vector2[] = [d.path.points[0]];
+        let new_segments : (PathSegment | null)[] = [];
+        for (let i = 0; i < d.path.segment_count(closed); i++){
+            let [seg, curr_p, next_p] = d.path.segment_data(i);
+            for (let [subseg, p] of segment_subdivide(seg, curr_p, next_p, n)) {
+                new_segments.push(is_line(subseg) ? null : subseg);
+                new_points.push(p);
+            }
         }
+        // the last point of a closed path is the first point
+        if (closed) new_points.pop();
 
-        d.path = new Path(new_points);
+        d.path = new Path(new_points, new_segments);
         return d;
     }
     return function_handle_path_type(func);
 }
 
+/**
+ * Get the location of the point at t (proportional to the length) of a path
+ * @returns [segment index, parameter of the segment]
+ */
+function path_location(path : Path, closed : boolean, t : number) : [number, number] {
+    let n_segments = path.segment_count(closed);
+    let lengths = range(0, n_segments).map(i => segment_length(...path.segment_data(i)));
+    let target = t * lengths.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < n_segments; i++) {
+        if (target <= lengths[i] || i == n_segments - 1) {
+            let fraction = lengths[i] == 0 ? 0 : Math.min(1, target / lengths[i]);
+            return [i, segment_t_at_length_fraction(...path.segment_data(i), fraction)];
+        }
+        target -= lengths[i];
+    }
+    return [0, 0];
+}
+
+/**
+ * Get the exact slice of a path from `t_start` to `t_end`
+ * the curved segments at the ends are split
+ */
+function slice_path_segments(path : Path, closed : boolean, t_start : number, t_end : number) : Path {
+    let [i0, u0] = path_location(path, closed, t_start);
+    let [i1, u1] = path_location(path, closed, t_end);
+
+    let [seg0, p00, p01] = path.segment_data(i0);
+    if (i0 == i1) {
+        let [_a, start_p, rest] = segment_split(seg0, p00, p01, u0);
+        let u = u0 == 1 ? 0 : (u1 - u0) / (1 - u0);
+        let [piece, end_p, _b] = segment_split(rest, start_p, p01, u);
+        return new Path([start_p, end_p], [is_line(piece) ? null : piece]);
+    }
+
+    let [_a, start_p, first] = segment_split(seg0, p00, p01, u0);
+    let new_points : Vector2[] = [start_p, p01];
+    let new_segments : (PathSegment | null)[] = [is_line(first) ? null : first];
+    for (let i = i0 + 1; i < i1; i++) {
+        let [seg, _p0, p1] = path.segment_data(i);
+        new_segments.push(is_line(seg) ? null : segment_copy(seg));
+        new_points.push(p1);
+    }
+    let [seg1, p10, p11] = path.segment_data(i1);
+    let [last, end_p, _b] = segment_split(seg1, p10, p11, u1);
+    new_segments.push(is_line(last) ? null : last);
+    new_points.push(end_p);
+    return new Path(new_points, new_segments);
+}
+
 /**
  * Get a slice of a diagram from `t_start` to `t_end`
  * @param t_start starting point of the slice
  * @param t_end ending point of the slice
  * @param n number of points in the slice
+ * (only used for a path with only straight segments, a path with curved segments is sliced exactly)
  * @returns function that modifies a diagram
  */
 export function slicepath(t_start : number, t_end : number, n : number = 100) : modifierFunction {
@@ -97,6 +153,10 @@ export function slicepath(t_start : number, t_end : number, n : number = 100) :
     let n_total = Math.floor(n / (t_end - t_start));
     function func(d : Diagram) : Diagram {
         if (d.path == undefined) return d;
+        if (d.path.has_curved_segment()) {
+            d.path = slice_path_segments(d.path, d.type == DiagramType.Polygon, t_start, t_end);
+            return d;
+        }
         let dnew = d.apply(resample(n_total));
         if (dnew.path == undefined) return d;
         // take slice of the path
@@ -169,6 +229,8 @@ export function round_corner(radius : number | number[] =  1, point_indices? : n
     // later we will convert it to a function that modifies any diagram using function_handle_path_type
     function func(d : Diagram) : Diagram {
         if (d.path == undefined) return d;
+        // corners are only defined between straight segments
+        if (d.path.has_curved_segment()) d.path = d.path.flatten(d.type == DiagramType.Polygon);
         let diagram_point_indices = range(0, d.path.points.length);
         if (point_indices == undefined) point_indices = diagram_point_indices;
 
@@ -200,3 +262,154 @@ export function round_corner(radius : number | number[] =  1, point_indices? : n
     return function_handle_path_type(func);
 }
 
+/**
+ * Create a function that offsets the path of a diagram by a distance
+ * curved segments are sampled into points
+ * @param distance offset distance, for a polygon a positive distance is outward,
+ * for a curve a positive distance is to the left (relative to the direction of the curve)
+ * @param join how the corners are joined ('miter', 'round', or 'bevel')
+ * @param miter_limit maximum ratio between the miter length and the distance before a miter is beveled
+ * @returns function that modifies a diagram
+ *
+ * @example
+ * ```javascript
+ * let band = curve(points).apply(mod.offset(0.5, 'round'))
+ * ```
+ */
+export function offset(distance : number, join : LineJoin = 'miter', miter_limit : number = 4) : modifierFunction {
+    function func(d : Diagram) : Diagram {
+        if (d.path == undefined) return d;
+        let closed = d.type == DiagramType.Polygon;
+        let points = d.path.flatten(closed).points;
+        d.path = new Path(offset_polyline(points, distance, closed, join, miter_limit));
+        return d;
+    }
+    return function_handle_path_type(func);
+}
+
+/**
+ * Distance from point p to the line segment ab
+ */
+function distance_to_segment(p : Vector2, a : Vector2, b : Vector2) : number {
+    let ab = b.sub(a);
+    let len_sq = ab.length_sq();
+    let t = len_sq == 0 ? 0 : Math.min(1, Math.max(0, p.sub(a).dot(ab) / len_sq));
+    return p.sub(a.add(ab.scale(t))).length();
+}
+
+/**
+ * Ramer-Douglas-Peucker simplification of an open polyline (the endpoints are kept)
+ */
+function rdp(points : Vector2[], tolerance : number) : Vector2[] {
+    if (points.length < 3) return points;
+    let first = points[0], last = points[points.length - 1];
+    let max_dist = -1, max_i = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        let dist = distance_to_segment(points[i], first, last);
+        if (dist > max_dist) { max_dist = dist; max_i = i; }
+    }
+    if (max_dist <= tolerance) return [first, last];
+    let left  = rdp(points.slice(0, max_i + 1), tolerance);
+    let right = rdp(points.slice(max_i), tolerance);
+    return left.slice(0, -1).concat(right);
+}
+
+/**
+ * Create a function that removes the points of a path that are not needed to keep its shape
+ * (Ramer-Douglas-Peucker algorithm), curved segments are sampled into points
+ * @param tolerance maximum distance between the simplified path and the removed points
+ * @returns function that modifies a diagram
+ */
+export function simplify(tolerance : number) : modifierFunction {
+    function func(d : Diagram) : Diagram {
+        if (d.path == undefined) return d;
+        let closed = d.type == DiagramType.Polygon;
+        let points = d.path.flatten(closed).points;
+        if (points.length < 3) return d;
+        if (!closed) {
+            d.path = new Path(rdp(points, tolerance));
+            return d;
+        }
+        // split the polygon at the first point and the point farthest from it
+        let far_i = 0;
+        for (let i = 1; i < points.length; i++) {
+            if (points[i].sub(points[0]).length_sq() > points[far_i].sub(points[0]).length_sq()) far_i = i;
+        }
+        let first_half  = rdp(points.slice(0, far_i + 1), tolerance);
+        let second_half = rdp(points.slice(far_i).concat([points[0]]), tolerance);
+        let new_points = first_half.slice(0, -1).concat(second_half.slice(0, -1));
+        // a polygon needs at least 3 points
+        if (new_points.length >= 3) d.path = new Path(new_points);
+        return d;
+    }
+    return function_handle_path_type(func);
+}
+
+/**
+ * Create a function that smooths a path using Chaikin's corner cutting algorithm
+ * each iteration replaces every segment with the points at 1/4 and 3/4 of it
+ * (the endpoints of a curve are kept), curved segments are sampled into points
+ * @param iterations number of iterations
+ * @returns function that modifies a diagram
+ */
+export function smooth_chaikin(iterations : number = 1) : modifierFunction {
+    function func(d : Diagram) : Diagram {
+        if (d.path == undefined) return d;
+        let closed = d.type == DiagramType.Polygon;
+        let points = d.path.flatten(closed).points;
+        if (points.length < 3) return d;
+        for (let k = 0; k < iterations; k++) {
+            let n_segments = closed ? points.length : points.length - 1;
+            let new_points : Vector2[] = closed ? [] : [points[0]];
+            for (let i = 0; i < n_segments; i++) {
+                let p0 = points[i];
+                let p1 = points[(i + 1) % points.length];
+                new_points.push(p0.scale(0.75).add(p1.scale(0.25)));
+                new_points.push(p0.scale(0.25).add(p1.scale(0.75)));
+            }
+            if (!closed) {
+                // replace the cuts at the ends by the endpoints
+                new_points.splice(1, 1);
+                new_points.splice(new_points.length - 1, 1, points[points.length - 1]);
+            }
+            points = new_points;
+        }
+        d.path = new Path(points);
+        return d;
+    }
+    return function_handle_path_type(func);
+}
+
+/**
+ * Create a function that replaces the straight segments of a path with a smooth curve
+ * through all of its points (cardinal spline, converted into cubic bezier segments)
+ * @param tension tension of the spline, 0 is a Catmull-Rom spline, 1 gives straight lines
+ * @returns function that modifies a diagram
+ *
+ * @example
+ * ```javascript
+ * let smooth = polygon(points).apply(mod.spline_through_points())
+ * ```
+ */
+export function spline_through_points(tension : number = 0) : modifierFunction {
+    function func(d : Diagram) : Diagram {
+        if (d.path == undefined) return d;
+        let closed = d.type == DiagramType.Polygon;
+        let points = d.path.points;
+        let n = points.length;
+        if (n < 3) return d;
+        let point_at = (i : number) => closed ? points[(i + n) % n] : points[Math.min(n - 1, Math.max(0, i))];
+        let tangent  = (i : number) => point_at(i + 1).sub(point_at(i - 1)).scale((1 - tension) / 2);
+
+        let n_segments = closed ? n : n - 1;
+        let segments : (PathSegment | null)[] = [];
+        for (let i = 0; i < n_segments; i++) {
+            let control1 = point_at(i).add(tangent(i).scale(1/3));
+            let control2 = point_at(i + 1).sub(tangent(i + 1).scale(1/3));
+            segments.push(cubic_segment(control1, control2));
+        }
+        d.path = new Path(points.map(p => p.copy()), segments);
+        return d;
+    }
+    return function_handle_path_type(func);
+}
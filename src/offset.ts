@@ -0,0 +1,162 @@
+import { Vector2 } from './vector.js';
+
+// Offset of polylines, used by `mod.offset()` and `Diagram.stroke_to_outline()`
+// each edge is moved along its normal, then the gaps at the corners are filled with the join,
+// the overlaps at the inner corners are cut at the intersection of the moved edges
+// (self-intersections of the result are not removed)
+
+export type LineJoin = 'miter' | 'round' | 'bevel';
+export type LineCap  = 'butt' | 'round' | 'square';
+
+const ROUND_STEP = Math.PI / 16; // angle between the points of a round join or cap
+
+function left_normal(v : Vector2) : Vector2 {
+    return new Vector2(-v.y, v.x);
+}
+
+/**
+ * Remove consecutive duplicated points (and the closing duplicate of a closed polyline)
+ */
+function remove_duplicates(points : Vector2[], closed : boolean) : Vector2[] {
+    let result : Vector2[] = [];
+    for (let p of points) {
+        if (result.length > 0 && result[result.length - 1].sub(p).length_sq() < 1e-24) continue;
+        result.push(p);
+    }
+    if (closed && result.length > 1 && result[0].sub(result[result.length - 1]).length_sq() < 1e-24) result.pop();
+    return result;
+}
+
+/**
+ * Signed area of a closed polyline (positive for counter-clockwise)
+ */
+export function signed_area(points : Vector2[]) : number {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) area += points[i].cross(points[(i + 1) % points.length]);
+    return area / 2;
+}
+
+/**
+ * Points of an arc around `center` from `a` to `b` (excluding `a` and `b`)
+ * @param sweep signed angle from `a` to `b`
+ */
+function arc_between(center : Vector2, a : Vector2, sweep : number) : Vector2[] {
+    let n = Math.ceil(Math.abs(sweep) / ROUND_STEP);
+    let points : Vector2[] = [];
+    for (let i = 1; i < n; i++) points.push(center.add(a.sub(center).rotate(sweep * i / n)));
+    return points;
+}
+
+/**
+ * Get the offset points at a corner
+ * @param p the corner
+ * @param u incoming direction (normalized)
+ * @param v outgoing direction (normalized)
+ * @param d offset distance to the left
+ */
+function corner_points(p : Vector2, u : Vector2, v : Vector2, d : number, join : LineJoin, miter_limit : number) : Vector2[] {
+    let a = p.add(left_normal(u).scale(d));
+    let b = p.add(left_normal(v).scale(d));
+    let turn = u.cross(v);
+    let cos = u.dot(v);
+    if (Math.abs(turn) < 1e-12 && cos > 0) return [a]; // straight
+    // the miter point is the intersection of the two offset edges
+    let miter = cos > -1 + 1e-12 ? p.add(left_normal(u).add(left_normal(v)).scale(d / (1 + cos))) : undefined;
+    if (turn * d > 0) {
+        // inner corner, the offset edges overlap
+        return miter != undefined ? [miter] : [a, b];
+    }
+    switch (join) {
+        case 'miter' :
+            if (miter != undefined && miter.sub(p).length() <= miter_limit * Math.abs(d)) return [miter];
+            return [a, b];
+        case 'bevel' : return [a, b];
+        case 'round' : {
+            let sweep = Math.atan2(turn, cos); // angle from u to v
+            return [a, ...arc_between(p, a, sweep), b];
+        }
+    }
+}
+
+/**
+ * Offset a polyline
+ * @param points points of the polyline
+ * @param distance offset distance, for an open polyline a positive distance is to the left,
+ * for a closed polyline a positive distance is outward
+ * @param closed whether the polyline is closed
+ * @param join how the corners are joined ('miter', 'round', or 'bevel')
+ * @param miter_limit maximum ratio between the miter length and the distance before a miter is beveled
+ * @returns the points of the offset polyline
+ */
+export function offset_polyline(points : Vector2[], distance : number, closed : boolean,
+    join : LineJoin = 'miter', miter_limit : number = 4) : Vector2[] {
+    let pts = remove_duplicates(points, closed);
+    if (pts.length < 2 || distance == 0) return pts.map(p => p.copy());
+    // counter-clockwise polygons have their inside on the left
+    let d = closed ? (signed_area(pts) > 0 ? -distance : distance) : distance;
+
+    let n = pts.length;
+    let dir = (i : number) => pts[(i + 1) % n].sub(pts[i]).normalize();
+    let result : Vector2[] = [];
+    if (!closed) result.push(pts[0].add(left_normal(dir(0)).scale(d)));
+    let start = closed ? 0 : 1;
+    let end   = closed ? n : n - 1;
+    for (let i = start; i < end; i++) {
+        let u = dir((i - 1 + n) % n);
+        let v = dir(i);
+        result = result.concat(corner_points(pts[i], u, v, d, join, miter_limit));
+    }
+    if (!closed) result.push(pts[n - 1].add(left_normal(dir(n - 2)).scale(d)));
+    return result;
+}
+
+/**
+ * Points of a line cap at the end of a polyline
+ * @param p the end point
+ * @param u direction going out of the polyline (normalized)
+ * @param half_width half of the stroke width
+ * @returns the points from the right side to the left side (relative to `u`), excluding the sides
+ */
+function cap_points(p : Vector2, u : Vector2, half_width : number, cap : LineCap) : Vector2[] {
+    let n = left_normal(u).scale(half_width);
+    switch (cap) {
+        case 'butt'   : return [];
+        case 'square' : {
+            let e = u.scale(half_width);
+            return [p.sub(n).add(e), p.add(n).add(e)];
+        }
+        case 'round'  : return arc_between(p, p.sub(n), Math.PI);
+    }
+}
+
+/**
+ * Get the outline of a stroked polyline
+ * @param points points of the polyline
+ * @param width stroke width
+ * @param closed whether the polyline is closed
+ * @param join how the corners are joined
+ * @param cap how the ends of an open polyline are drawn
+ * @param miter_limit maximum ratio between the miter length and the half width before a miter is beveled
+ * @returns the rings of the outline (one ring for an open polyline, the outer and inner ring for a closed one)
+ */
+export function stroke_outline(points : Vector2[], width : number, closed : boolean,
+    join : LineJoin = 'miter', cap : LineCap = 'butt', miter_limit : number = 4) : Vector2[][] {
+    let pts = remove_duplicates(points, closed);
+    if (pts.length < 2 || !(width > 0)) return [];
+    let hw = width / 2;
+    if (closed) {
+        return [offset_polyline(pts, hw, true, join, miter_limit), offset_polyline(pts, -hw, true, join, miter_limit)];
+    }
+    let n = pts.length;
+    let left  = offset_polyline(pts,  hw, false, join, miter_limit);
+    let right = offset_polyline(pts, -hw, false, join, miter_limit);
+    let u_end   = pts[n - 1].sub(pts[n - 2]).normalize();
+    let u_start = pts[0].sub(pts[1]).normalize();
+    // the left side of the path is the right side of the end cap direction
+    return [[
+        ...left,
+        ...cap_points(pts[n - 1], u_end, hw, cap).reverse(),
+        ...right.reverse(),
+        ...cap_points(pts[0], u_start, hw, cap).reverse(),
+    ]];
+}
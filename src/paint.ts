@@ -0,0 +1,204 @@
+import { tab_color, get_color } from './color_palette.js';
+import { to_degree } from './utils.js';
+
+// Paints are fills that are not a plain color (gradients and patterns)
+// they are plain objects so that they survive JSON serialization of the diagram
+
+export type GradientStop = {
+    offset  : number, // 0 to 1
+    color   : string,
+    opacity : number,
+}
+
+/**
+ * Linear gradient, `angle` is the direction of the gradient (0 is from left to right)
+ */
+export type LinearGradient = {
+    type  : 'linear-gradient',
+    stops : GradientStop[],
+    angle : number,
+}
+
+/**
+ * Radial gradient, `center` and `radius` are relative to the bounding box of the diagram
+ */
+export type RadialGradient = {
+    type   : 'radial-gradient',
+    stops  : GradientStop[],
+    center : [number, number],
+    radius : number,
+}
+
+/**
+ * Parallel lines, `cross` adds the perpendicular lines
+ * `spacing` and `strokewidth` are in diagram unit
+ */
+export type HatchPattern = {
+    type        : 'hatch-pattern',
+    angle       : number,
+    spacing     : number,
+    strokewidth : number,
+    color       : string,
+    background  : string,
+    cross       : boolean,
+}
+
+/**
+ * Dots in a square grid, `spacing` and `radius` are in diagram unit
+ */
+export type DotPattern = {
+    type       : 'dot-pattern',
+    spacing    : number,
+    radius     : number,
+    color      : string,
+    background : string,
+}
+
+export type Gradient = LinearGradient | RadialGradient;
+export type Pattern  = HatchPattern | DotPattern;
+export type Paint    = Gradient | Pattern;
+
+export function is_paint(fill : unknown) : fill is Paint {
+    return typeof fill == 'object' && fill != null && 'type' in fill;
+}
+
+/**
+ * Get a plain color that approximates a paint (for the renderers that don't support gradients and patterns)
+ * gradients use their first stop, patterns use their background (or their color if the background is `none`)
+ */
+export function paint_solid_color(paint : Paint) : string {
+    switch (paint.type) {
+        case 'linear-gradient' :
+        case 'radial-gradient' : return paint.stops[0]?.color ?? "none";
+        case 'hatch-pattern' :
+        case 'dot-pattern' : return paint.background == "none" ? paint.color : paint.background;
+    }
+}
+
+type StopInput = string | [number, string] | [number, string, number];
+
+/**
+ * @param stops colors of the gradient, either a color (evenly spaced)
+ * or `[offset, color]` or `[offset, color, opacity]`
+ */
+function parse_stops(stops : StopInput[]) : GradientStop[] {
+    if (stops.length < 2) throw new Error("Gradient needs at least 2 stops");
+    return stops.map((stop, i) => {
+        if (typeof stop == 'string') return { offset : i / (stops.length - 1), color : stop, opacity : 1 };
+        return { offset : stop[0], color : stop[1], opacity : stop[2] ?? 1 };
+    });
+}
+
+/**
+ * Create a linear gradient
+ * @param stops colors of the gradient, either a color (evenly spaced)
+ * or `[offset, color]` or `[offset, color, opacity]`
+ * @param angle direction of the gradient in radians (default 0, from left to right)
+ */
+export function linear_gradient(stops : StopInput[], angle : number = 0) : LinearGradient {
+    return { type : 'linear-gradient', stops : parse_stops(stops), angle };
+}
+
+/**
+ * Create a radial gradient
+ * @param stops colors of the gradient from the center outward, either a color (evenly spaced)
+ * or `[offset, color]` or `[offset, color, opacity]`
+ * @param center center of the gradient relative to the bounding box (default `[0.5, 0.5]`)
+ * @param radius radius of the gradient relative to the bounding box (default 0.5)
+ */
+export function radial_gradient(stops : StopInput[], center : [number, number] = [0.5, 0.5],
+    radius : number = 0.5) : RadialGradient {
+    return { type : 'radial-gradient', stops : parse_stops(stops), center, radius };
+}
+
+/**
+ * Create a hatch pattern
+ * @param angle angle of the lines in radians
+ * @param spacing distance between the lines
+ * @param color color of the lines (default 'black')
+ * @param strokewidth width of the lines (default `spacing/8`)
+ * @param background color behind the lines (default 'none')
+ */
+export function hatch_pattern(angle : number, spacing : number, color : string = 'black',
+    strokewidth? : number, background : string = 'none') : HatchPattern {
+    if (!(spacing > 0)) throw new Error("Pattern spacing must be positive");
+    return { type : 'hatch-pattern', angle, spacing, strokewidth : strokewidth ?? spacing/8, color, background, cross : false };
+}
+
+/**
+ * Create a crosshatch pattern (two perpendicular sets of lines)
+ * @param angle angle of the first set of lines in radians
+ * @param spacing distance between the lines
+ * @param color color of the lines (default 'black')
+ * @param strokewidth width of the lines (default `spacing/8`)
+ * @param background color behind the lines (default 'none')
+ */
+export function crosshatch_pattern(angle : number, spacing : number, color : string = 'black',
+    strokewidth? : number, background : string = 'none') : HatchPattern {
+    return {...hatch_pattern(angle, spacing, color, strokewidth, background), cross : true };
+}
+
+/**
+ * Create a dot pattern
+ * @param spacing distance between the dots
+ * @param radius radius of the dots (default `spacing/6`)
+ * @param color color of the dots (default 'black')
+ * @param background color behind the dots (default 'none')
+ */
+export function dot_pattern(spacing : number, radius? : number, color : string = 'black',
+    background : string = 'none') : DotPattern {
+    if (!(spacing > 0)) throw new Error("Pattern spacing must be positive");
+    return { type : 'dot-pattern', spacing, radius : radius ?? spacing/6, color, background };
+}
+
+export const gradient = { linear : linear_gradient, radial : radial_gradient };
+export const pattern  = { hatch : hatch_pattern, crosshatch : crosshatch_pattern, dots : dot_pattern };
+
+function stops_to_svg_string(stops : GradientStop[]) : string {
+    return stops.map(s =>
+        `<stop offset="${s.offset}" stop-color="${get_color(s.color, tab_color)}" stop-opacity="${s.opacity}"/>`
+    ).join("");
+}
+
+/**
+ * Create the svg element (`linearGradient`, `radialGradient`, or `pattern`) of a paint
+ * the y axis is flipped (svg coordinate)
+ * @param paint the paint
+ * @param id id of the element
+ * @returns the svg string of the element (to be put inside `<defs>`)
+ */
+export function paint_to_svg_string(paint : Paint, id : string) : string {
+    switch (paint.type) {
+        case 'linear-gradient' : {
+            let dx = Math.cos(paint.angle) / 2;
+            let dy = Math.sin(paint.angle) / 2;
+            return `<linearGradient id="${id}" x1="${0.5 - dx}" y1="${0.5 + dy}" x2="${0.5 + dx}" y2="${0.5 - dy}">`
+                + stops_to_svg_string(paint.stops) + `</linearGradient>`;
+        }
+        case 'radial-gradient' : {
+            let [cx, cy] = paint.center;
+            return `<radialGradient id="${id}" cx="${cx}" cy="${1 - cy}" r="${paint.radius}">`
+                + stops_to_svg_string(paint.stops) + `</radialGradient>`;
+        }
+        case 'hatch-pattern' : {
+            let s = paint.spacing;
+            let line_style = `stroke="${get_color(paint.color, tab_color)}" stroke-width="${paint.strokewidth}"`;
+            let content = background_to_svg_string(paint.background, s);
+            content += `<line x1="0" y1="${s/2}" x2="${s}" y2="${s/2}" ${line_style}/>`;
+            if (paint.cross) content += `<line x1="${s/2}" y1="0" x2="${s/2}" y2="${s}" ${line_style}/>`;
+            return `<pattern id="${id}" patternUnits="userSpaceOnUse" width="${s}" height="${s}" `
+                + `patternTransform="rotate(${-to_degree(paint.angle)})">${content}</pattern>`;
+        }
+        case 'dot-pattern' : {
+            let s = paint.spacing;
+            let content = background_to_svg_string(paint.background, s);
+            content += `<circle cx="${s/2}" cy="${s/2}" r="${paint.radius}" fill="${get_color(paint.color, tab_color)}"/>`;
+            return `<pattern id="${id}" patternUnits="userSpaceOnUse" width="${s}" height="${s}">${content}</pattern>`;
+        }
+    }
+}
+
+function background_to_svg_string(background : string, size : number) : string {
+    if (background == 'none') return "";
+    return `<rect width="${size}" height="${size}" fill="${get_color(background, tab_color)}"/>`;
+}
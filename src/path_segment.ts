@@ -0,0 +1,536 @@
+import { Vector2, V2 } from './vector.js';
+
+// Segments of a `Path`
+// a segment connects `path.points[i]` and `path.points[i+1]` (the last segment of a closed path connects back to `path.points[0]`)
+// the endpoints are stored in the path, the segment only stores the extra data (control points, arc parameters)
+// segments are plain objects so that they survive `JSON.stringify`
+
+export type LineSegment = { type : "line" };
+export type QuadraticSegment = { type : "quadratic", control : Vector2 };
+export type CubicSegment = { type : "cubic", control1 : Vector2, control2 : Vector2 };
+/**
+ * Elliptical arc `center + axis1 * cos(θ) + axis2 * sin(θ)` with θ going from `angle_start` to `angle_end`
+ * (a circular arc has perpendicular axes with the same length)
+ */
+export type ArcSegment = {
+    type : "arc", center : Vector2, axis1 : Vector2, axis2 : Vector2,
+    angle_start : number, angle_end : number
+};
+export type PathSegment = LineSegment | QuadraticSegment | CubicSegment | ArcSegment;
+
+// ====== constructors =========
+
+export function line_segment() : LineSegment {
+    return { type : "line" };
+}
+
+/**
+ * Create a quadratic Bézier segment
+ * @param control control point
+ */
+export function quadratic_segment(control : Vector2) : QuadraticSegment {
+    return { type : "quadratic", control };
+}
+
+/**
+ * Create a cubic Bézier segment
+ * @param control1 control point near the start point
+ * @param control2 control point near the end point
+ */
+export function cubic_segment(control1 : Vector2, control2 : Vector2) : CubicSegment {
+    return { type : "cubic", control1, control2 };
+}
+
+/**
+ * Create a circular arc segment
+ * \* the endpoints of the path must be at `center + radius * Vdir(angle_start)` and `center + radius * Vdir(angle_end)`
+ * @param center center of the arc
+ * @param radius radius of the arc
+ * @param angle_start start angle (in radian)
+ * @param angle_end end angle (in radian)
+ */
+export function arc_segment(center : Vector2, radius : number, angle_start : number, angle_end : number) : ArcSegment {
+    return elliptical_arc_segment(center, V2(radius, 0), V2(0, radius), angle_start, angle_end);
+}
+
+/**
+ * Create an elliptical arc segment `center + axis1 * cos(θ) + axis2 * sin(θ)`
+ * @param center center of the ellipse
+ * @param axis1 first semi-axis
+ * @param axis2 second semi-axis
+ * @param angle_start start value of θ (in radian)
+ * @param angle_end end value of θ (in radian)
+ */
+export function elliptical_arc_segment(center : Vector2, axis1 : Vector2, axis2 : Vector2,
+    angle_start : number, angle_end : number) : ArcSegment {
+    return { type : "arc", center, axis1, axis2, angle_start, angle_end };
+}
+
+/**
+ * Point of an arc segment at angle θ
+ */
+export function arc_point(seg : ArcSegment, angle : number) : Vector2 {
+    return seg.center.add(seg.axis1.scale(Math.cos(angle))).add(seg.axis2.scale(Math.sin(angle)));
+}
+
+// ====== utilities =========
+
+function lerp(a : Vector2, b : Vector2, t : number) : Vector2 {
+    return a.add(b.sub(a).scale(t));
+}
+
+function to_vector(v : {x : number, y : number}) : Vector2 {
+    return new Vector2(v.x, v.y);
+}
+
+/**
+ * Check whether the segment is a straight line
+ * (`null` and `undefined` are treated as a line)
+ */
+export function is_line(seg : PathSegment | null | undefined) : boolean {
+    return seg == undefined || seg.type == "line";
+}
+
+/**
+ * Deep copy a segment (also converts plain objects from JSON into `Vector2`)
+ */
+export function segment_copy(seg : PathSegment) : PathSegment {
+    switch (seg.type) {
+        case "line"      : return { type : "line" };
+        case "quadratic" : return { type : "quadratic", control : to_vector(seg.control) };
+        case "cubic"     : return { type : "cubic", control1 : to_vector(seg.control1), control2 : to_vector(seg.control2) };
+        case "arc"       : return {
+            type : "arc", center : to_vector(seg.center), axis1 : to_vector(seg.axis1), axis2 : to_vector(seg.axis2),
+            angle_start : seg.angle_start, angle_end : seg.angle_end
+        };
+    }
+}
+
+/**
+ * Transform a segment by a function
+ * the control points are transformed, for an arc the center and the endpoints of the axes are transformed
+ * \* the result is exact for affine transformations
+ */
+export function segment_transform(seg : PathSegment, transform_function : (p : Vector2) => Vector2) : PathSegment {
+    switch (seg.type) {
+        case "line"      : return { type : "line" };
+        case "quadratic" : return { type : "quadratic", control : transform_function(seg.control) };
+        case "cubic"     : return {
+            type : "cubic", control1 : transform_function(seg.control1), control2 : transform_function(seg.control2)
+        };
+        case "arc"       : {
+            let center = transform_function(seg.center);
+            let axis1  = transform_function(seg.center.add(seg.axis1)).sub(center);
+            let axis2  = transform_function(seg.center.add(seg.axis2)).sub(center);
+            return { type : "arc", center, axis1, axis2, angle_start : seg.angle_start, angle_end : seg.angle_end };
+        }
+    }
+}
+
+/**
+ * Reverse the direction of a segment
+ */
+export function segment_reverse(seg : PathSegment) : PathSegment {
+    switch (seg.type) {
+        case "line"      : return { type : "line" };
+        case "quadratic" : return { type : "quadratic", control : seg.control.copy() };
+        case "cubic"     : return { type : "cubic", control1 : seg.control2.copy(), control2 : seg.control1.copy() };
+        case "arc"       : return {
+            type : "arc", center : seg.center.copy(), axis1 : seg.axis1.copy(), axis2 : seg.axis2.copy(),
+            angle_start : seg.angle_end, angle_end : seg.angle_start
+        };
+    }
+}
+
+// ====== evaluation =========
+
+/**
+ * Get the point of a segment at parameter t
+ * t can be outside of [0, 1] and will return the extrapolated point
+ * @param seg the segment
+ * @param p0 start point
+ * @param p1 end point
+ * @param t parameter
+ */
+export function segment_point(seg : PathSegment, p0 : Vector2, p1 : Vector2, t : number) : Vector2 {
+    switch (seg.type) {
+        case "line"      : return lerp(p0, p1, t);
+        case "quadratic" : {
+            let s = 1 - t;
+            return p0.scale(s*s).add(seg.control.scale(2*s*t)).add(p1.scale(t*t));
+        }
+        case "cubic"     : {
+            let s = 1 - t;
+            return p0.scale(s*s*s).add(seg.control1.scale(3*s*s*t))
+                .add(seg.control2.scale(3*s*t*t)).add(p1.scale(t*t*t));
+        }
+        case "arc"       : {
+            if (t == 0) return p0.copy();
+            if (t == 1) return p1.copy();
+            return arc_point(seg, seg.angle_start + t * (seg.angle_end - seg.angle_start));
+        }
+    }
+}
+
+/**
+ * Get the derivative (with respect to t) of a segment at parameter t
+ */
+export function segment_derivative(seg : PathSegment, p0 : Vector2, p1 : Vector2, t : number) : Vector2 {
+    switch (seg.type) {
+        case "line"      : return p1.sub(p0);
+        case "quadratic" : {
+            return seg.control.sub(p0).scale(2*(1-t)).add(p1.sub(seg.control).scale(2*t));
+        }
+        case "cubic"     : {
+            let s = 1 - t;
+            return seg.control1.sub(p0).scale(3*s*s)
+                .add(seg.control2.sub(seg.control1).scale(6*s*t))
+                .add(p1.sub(seg.control2).scale(3*t*t));
+        }
+        case "arc"       : {
+            let dangle = seg.angle_end - seg.angle_start;
+            let angle  = seg.angle_start + t * dangle;
+            return seg.axis1.scale(-Math.sin(angle) * dangle).add(seg.axis2.scale(Math.cos(angle) * dangle));
+        }
+    }
+}
+
+// 5 point Gauss-Legendre quadrature
+const GL_NODES   = [0, -0.5384693101056831, 0.5384693101056831, -0.9061798459386640, 0.9061798459386640];
+const GL_WEIGHTS = [0.5688888888888889, 0.4786286704993665, 0.4786286704993665, 0.2369268850561891, 0.2369268850561891];
+const GL_SUBDIVISION = 16;
+
+/**
+ * Get the length of a segment between parameter t0 and t1
+ * (the length of curved segments is calculated using Gauss-Legendre quadrature)
+ */
+export function segment_length(seg : PathSegment, p0 : Vector2, p1 : Vector2,
+    t0 : number = 0, t1 : number = 1) : number {
+    if (seg.type == "line") return p1.sub(p0).length() * Math.abs(t1 - t0);
+    if (seg.type == "arc" && Math.abs(seg.axis1.length() - seg.axis2.length()) < 1e-12
+        && Math.abs(seg.axis1.dot(seg.axis2)) < 1e-12) {
+        // circular arc
+        return seg.axis1.length() * Math.abs((seg.angle_end - seg.angle_start) * (t1 - t0));
+    }
+    let length = 0;
+    let h = (t1 - t0) / GL_SUBDIVISION;
+    for (let i = 0; i < GL_SUBDIVISION; i++) {
+        let mid = t0 + (i + 0.5) * h;
+        for (let k = 0; k < GL_NODES.length; k++) {
+            let t = mid + GL_NODES[k] * h / 2;
+            length += GL_WEIGHTS[k] * segment_derivative(seg, p0, p1, t).length() * h / 2;
+        }
+    }
+    return Math.abs(length);
+}
+
+/**
+ * Get the contribution of a segment to the signed area of a closed path, `½ ∫ p × dp`
+ * (the sum over the segments of a closed path is its signed area, positive if counterclockwise)
+ */
+export function segment_signed_area(seg : PathSegment, p0 : Vector2, p1 : Vector2) : number {
+    switch (seg.type) {
+        case "line" : return p0.cross(p1) / 2;
+        case "arc" : {
+            let c = seg.center;
+            let [a0, a1] = [seg.angle_start, seg.angle_end];
+            return (c.cross(seg.axis1) * (Math.cos(a1) - Math.cos(a0)) + c.cross(seg.axis2) * (Math.sin(a1) - Math.sin(a0))
+                + seg.axis1.cross(seg.axis2) * (a1 - a0)) / 2;
+        }
+        default : {
+            // the integrand of a bezier curve is a polynomial, the quadrature is exact
+            let area = 0;
+            for (let k = 0; k < GL_NODES.length; k++) {
+                let t = (1 + GL_NODES[k]) / 2;
+                area += GL_WEIGHTS[k] * segment_point(seg, p0, p1, t).cross(segment_derivative(seg, p0, p1, t)) / 2;
+            }
+            return area / 2;
+        }
+    }
+}
+
+/**
+ * Get the parameter t of the point at a given fraction of the length of the segment
+ * @param fraction fraction of the length (between 0 and 1)
+ */
+export function segment_t_at_length_fraction(seg : PathSegment, p0 : Vector2, p1 : Vector2, fraction : number) : number {
+    if (seg.type == "line") return fraction;
+    if (fraction <= 0) return 0;
+    if (fraction >= 1) return 1;
+    let total = segment_length(seg, p0, p1);
+    if (total == 0) return fraction;
+    let target = fraction * total;
+
+    // Newton's method, falling back to bisection when it leaves the bracket
+    let lo = 0, hi = 1, t = fraction;
+    for (let i = 0; i < 50; i++) {
+        let err = segment_length(seg, p0, p1, 0, t) - target;
+        if (Math.abs(err) < 1e-12 * Math.max(1, total)) break;
+        if (err > 0) hi = t; else lo = t;
+        let speed = segment_derivative(seg, p0, p1, t).length();
+        let t_next = speed > 0 ? t - err / speed : NaN;
+        t = (t_next > lo && t_next < hi) ? t_next : (lo + hi) / 2;
+    }
+    return t;
+}
+
+function quadratic_roots(a : number, b : number, c : number) : number[] {
+    if (Math.abs(a) < 1e-12) return Math.abs(b) < 1e-12 ? [] : [-c / b];
+    let disc = b*b - 4*a*c;
+    if (disc < 0) return [];
+    let sq = Math.sqrt(disc);
+    return [(-b + sq) / (2*a), (-b - sq) / (2*a)];
+}
+
+/**
+ * Get the parameters t in (0, 1) where the x or y coordinate of the segment is extremal
+ */
+function segment_extrema(seg : PathSegment, p0 : Vector2, p1 : Vector2) : number[] {
+    let ts : number[] = [];
+    switch (seg.type) {
+        case "line" : break;
+        case "quadratic" : {
+            for (let k of ["x", "y"] as const) {
+                let denom = p0[k] - 2*seg.control[k] + p1[k];
+                if (Math.abs(denom) > 1e-12) ts.push((p0[k] - seg.control[k]) / denom);
+            }
+        } break;
+        case "cubic" : {
+            for (let k of ["x", "y"] as const) {
+                let a = -p0[k] + 3*seg.control1[k] - 3*seg.control2[k] + p1[k];
+                let b = 2*(p0[k] - 2*seg.control1[k] + seg.control2[k]);
+                let c = seg.control1[k] - p0[k];
+                ts = ts.concat(quadratic_roots(a, b, c));
+            }
+        } break;
+        case "arc" : {
+            let dangle = seg.angle_end - seg.angle_start;
+            if (dangle == 0) break;
+            let lo = Math.min(seg.angle_start, seg.angle_end);
+            let hi = Math.max(seg.angle_start, seg.angle_end);
+            for (let k of ["x", "y"] as const) {
+                let angle0 = Math.atan2(seg.axis2[k], seg.axis1[k]);
+                for (let n = Math.ceil((lo - angle0) / Math.PI); angle0 + n * Math.PI <= hi; n++) {
+                    ts.push((angle0 + n * Math.PI - seg.angle_start) / dangle);
+                }
+            }
+        } break;
+    }
+    return ts.filter(t => t > 0 && t < 1);
+}
+
+/**
+ * Get the bounding box of a segment
+ * @returns [min, max]
+ */
+export function segment_bounding_box(seg : PathSegment, p0 : Vector2, p1 : Vector2) : [Vector2, Vector2] {
+    let points = [p0, p1].concat(segment_extrema(seg, p0, p1).map(t => segment_point(seg, p0, p1, t)));
+    let min = V2(Math.min(...points.map(p => p.x)), Math.min(...points.map(p => p.y)));
+    let max = V2(Math.max(...points.map(p => p.x)), Math.max(...points.map(p => p.y)));
+    return [min, max];
+}
+
+/**
+ * Split a segment at parameter t
+ * @returns [first segment, the point at t, second segment]
+ */
+export function segment_split(seg : PathSegment, p0 : Vector2, p1 : Vector2, t : number) : [PathSegment, Vector2, PathSegment] {
+    let mid = segment_point(seg, p0, p1, t);
+    switch (seg.type) {
+        case "line" : return [{ type : "line" }, mid, { type : "line" }];
+        case "quadratic" : {
+            let q0 = lerp(p0, seg.control, t);
+            let q1 = lerp(seg.control, p1, t);
+            return [quadratic_segment(q0), mid, quadratic_segment(q1)];
+        }
+        case "cubic" : {
+            let a = lerp(p0, seg.control1, t);
+            let b = lerp(seg.control1, seg.control2, t);
+            let c = lerp(seg.control2, p1, t);
+            let ab = lerp(a, b, t);
+            let bc = lerp(b, c, t);
+            return [cubic_segment(a, ab), mid, cubic_segment(bc, c)];
+        }
+        case "arc" : {
+            let angle_mid = seg.angle_start + t * (seg.angle_end - seg.angle_start);
+            return [
+                elliptical_arc_segment(seg.center.copy(), seg.axis1.copy(), seg.axis2.copy(), seg.angle_start, angle_mid),
+                mid,
+                elliptical_arc_segment(seg.center.copy(), seg.axis1.copy(), seg.axis2.copy(), angle_mid, seg.angle_end),
+            ];
+        }
+    }
+}
+
+/**
+ * Split a segment into n segments of equal parameter range
+ * @returns list of `[segment, end point]` (the start point of the first segment is p0)
+ */
+export function segment_subdivide(seg : PathSegment, p0 : Vector2, p1 : Vector2, n : number) : [PathSegment, Vector2][] {
+    let result : [PathSegment, Vector2][] = [];
+    let rest = seg;
+    let start = p0;
+    for (let i = 0; i < n - 1; i++) {
+        // split the remaining part so that each piece has the same parameter range
+        let [a, mid, b] = segment_split(rest, start, p1, 1 / (n - i));
+        result.push([a, mid]);
+        rest = b;
+        start = mid;
+    }
+    result.push([rest, p1]);
+    return result;
+}
+
+/**
+ * Sample n points of a segment at equally spaced parameter (excluding the start point, including the end point)
+ */
+export function segment_sample(seg : PathSegment, p0 : Vector2, p1 : Vector2, n : number) : Vector2[] {
+    if (seg.type == "line") return [p1.copy()];
+    let points : Vector2[] = [];
+    for (let i = 1; i < n; i++) points.push(segment_point(seg, p0, p1, i / n));
+    points.push(p1.copy());
+    return points;
+}
+
+const CLOSEST_SAMPLES = 32;
+
+/**
+ * Get the parameter t of the point on a segment that is closest to p
+ * (curved segments are sampled, then refined using golden section search)
+ */
+export function segment_closest_t(seg : PathSegment, p0 : Vector2, p1 : Vector2, p : Vector2) : number {
+    if (seg.type == "line") {
+        let d = p1.sub(p0);
+        let len_sq = d.length_sq();
+        if (len_sq == 0) return 0;
+        return Math.min(1, Math.max(0, p.sub(p0).dot(d) / len_sq));
+    }
+    let dist_sq = (t : number) => segment_point(seg, p0, p1, t).sub(p).length_sq();
+    let best = 0;
+    for (let i = 1; i <= CLOSEST_SAMPLES; i++) {
+        if (dist_sq(i / CLOSEST_SAMPLES) < dist_sq(best / CLOSEST_SAMPLES)) best = i;
+    }
+    let lo = Math.max(0, (best - 1) / CLOSEST_SAMPLES);
+    let hi = Math.min(1, (best + 1) / CLOSEST_SAMPLES);
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    for (let i = 0; i < 40; i++) {
+        let a = hi - ratio * (hi - lo);
+        let b = lo + ratio * (hi - lo);
+        if (dist_sq(a) < dist_sq(b)) hi = b; else lo = a;
+    }
+    return (lo + hi) / 2;
+}
+
+/**
+ * Convert a segment into cubic bezier curves (used by the exporters that only support cubic curves)
+ * arcs are split into pieces of at most 90 degrees
+ * @returns list of `[control1, control2, end point]`
+ */
+export function segment_to_cubics(seg : PathSegment, p0 : Vector2, p1 : Vector2) : [Vector2, Vector2, Vector2][] {
+    switch (seg.type) {
+        case "line" : return [[p0, p1, p1]];
+        case "quadratic" : return [[
+            p0.add(seg.control.sub(p0).scale(2/3)),
+            p1.add(seg.control.sub(p1).scale(2/3)),
+            p1,
+        ]];
+        case "cubic" : return [[seg.control1, seg.control2, p1]];
+        case "arc" : {
+            // split into pieces of at most 90 degrees
+            let dangle = seg.angle_end - seg.angle_start;
+            let n = Math.max(1, Math.ceil(Math.abs(dangle) / (Math.PI / 2)));
+            let da = dangle / n;
+            let k = 4/3 * Math.tan(da / 4);
+            let derivative = (a : number) => seg.axis1.scale(-Math.sin(a)).add(seg.axis2.scale(Math.cos(a)));
+            let result : [Vector2, Vector2, Vector2][] = [];
+            let start = p0;
+            for (let i = 1; i <= n; i++) {
+                let a0 = seg.angle_start + da * (i - 1);
+                let a1 = seg.angle_start + da * i;
+                let end = i == n ? p1 : arc_point(seg, a1);
+                result.push([start.add(derivative(a0).scale(k)), end.sub(derivative(a1).scale(k)), end]);
+                start = end;
+            }
+            return result;
+        }
+    }
+}
+
+// ====== svg =========
+
+function fmt(x : number) : string {
+    return (Math.round(x * 1e9) / 1e9).toString();
+}
+
+/**
+ * Get the svg arc parameters `[rx, ry, rotation (in radian)]` of an arc segment
+ * by finding the principal axes of the ellipse
+ */
+function arc_principal_axes(seg : ArcSegment) : [number, number, number] {
+    let u = seg.axis1, v = seg.axis2;
+    let a = u.x*u.x + v.x*v.x;
+    let b = u.x*u.y + v.x*v.y;
+    let d = u.y*u.y + v.y*v.y;
+    let mean = (a + d) / 2;
+    let diff = Math.sqrt(((a - d) / 2)**2 + b*b);
+    let rx = Math.sqrt(Math.max(0, mean + diff));
+    let ry = Math.sqrt(Math.max(0, mean - diff));
+    let rotation = 0.5 * Math.atan2(2*b, a - d);
+    return [rx, ry, rotation];
+}
+
+/**
+ * Convert the segment into the svg path command (the current point must be at p0)
+ * \* svg coordinate has the y axis flipped
+ */
+function segment_to_svg_command(seg : PathSegment, p0 : Vector2, p1 : Vector2) : string {
+    switch (seg.type) {
+        case "line" : return `L ${fmt(p1.x)} ${fmt(-p1.y)}`;
+        case "quadratic" : return `Q ${fmt(seg.control.x)} ${fmt(-seg.control.y)} ${fmt(p1.x)} ${fmt(-p1.y)}`;
+        case "cubic" : return `C ${fmt(seg.control1.x)} ${fmt(-seg.control1.y)} `
+            + `${fmt(seg.control2.x)} ${fmt(-seg.control2.y)} ${fmt(p1.x)} ${fmt(-p1.y)}`;
+        case "arc" : {
+            let [rx, ry, rotation] = arc_principal_axes(seg);
+            let det = seg.axis1.cross(seg.axis2);
+            let dangle = seg.angle_end - seg.angle_start;
+            // counterclockwise in the diagram coordinate is sweep-flag 0 in the svg coordinate
+            let sweep = dangle * det > 0 ? 0 : 1;
+            let rotation_deg = -rotation * 180 / Math.PI;
+            // split the arc so that each piece is less than half of the ellipse
+            let n = Math.max(1, Math.ceil(Math.abs(dangle) / (Math.PI * 0.9)));
+            let commands : string[] = [];
+            for (let i = 1; i <= n; i++) {
+                let p = (i == n) ? p1 : arc_point(seg, seg.angle_start + dangle * i / n);
+                commands.push(`A ${fmt(rx)} ${fmt(ry)} ${fmt(rotation_deg)} 0 ${sweep} ${fmt(p.x)} ${fmt(-p.y)}`);
+            }
+            return commands.join(" ");
+        }
+    }
+}
+
+/**
+ * Convert points and segments into the `d` attribute of an svg path
+ * @param points points of the path
+ * @param segments segments of the path (`segments[i]` connects `points[i]` and the next point)
+ * @param closed whether the path is closed
+ */
+export function path_to_svg_d(points : Vector2[], segments : (PathSegment | null | undefined)[], closed : boolean) : string {
+    if (points.length == 0) return "";
+    let commands = [`M ${fmt(points[0].x)} ${fmt(-points[0].y)}`];
+    let n_segments = closed ? points.length : points.length - 1;
+    for (let i = 0; i < n_segments; i++) {
+        let p0 = points[i];
+        let p1 = points[(i + 1) % points.length];
+        commands.push(segment_to_svg_command(segments[i] ?? line_segment(), p0, p1));
+    }
+    if (closed) commands.push("Z");
+    return commands.join(" ");
+}
+
+/**
+ * Convert the rings of a compound path into the `d` attribute of an svg path
+ * @param rings closed paths (e.g. `Path`)
+ */
+export function rings_to_svg_d(rings : {points : Vector2[], segments : (PathSegment | null | undefined)[]}[]) : string {
+    return rings.map(r => path_to_svg_d(r.points, r.segments, true)).filter(d => d != "").join(" ");
+}
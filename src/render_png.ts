@@ -0,0 +1,777 @@
+import { Diagram, DiagramType, Path, marker_placements, marker_scale } from "./diagram.js";
+import { Vector2 } from "./vector.js";
+import { tab_color, get_color, color_to_rgba } from "./color_palette.js";
+import { str_to_normal_from_mathematical_italic } from './unicode_utils.js';
+import { segment_sample, segment_length } from './path_segment.js';
+import { Paint, is_paint, paint_solid_color } from './paint.js';
+import { marker_geometry } from './marker.js';
+import { glyph_rows, BITMAP_FONT_COLUMNS, BITMAP_FONT_ROWS, BITMAP_FONT_ADVANCE, BITMAP_FONT_HEIGHT } from './bitmap_font.js';
+import { default_diagram_style, default_text_diagram_style, default_textdata, is_texstr } from './draw_svg.js';
+import { calculate_viewbox } from './draw_svg_string.js';
+
+// Headless PNG renderer, it works directly on the Diagram tree so it doesn't need the DOM or a canvas
+// \* polygons are filled with a scanline rasterizer (antialiased with sub-scanlines and exact horizontal coverage)
+// \* strokes are antialiased using the distance to the segments (joins are round)
+// \* texts are drawn with a simple bitmap font (see `bitmap_font.ts`), only printable ascii characters are supported
+// \* gradients and patterns are drawn with a solid color, images are not drawn
+// the layout (viewbox, text scale) is the same as `draw_to_svg_string()` with the same width and height
+
+export type png_options = {
+    width       : number, // width of the image in css pixel
+    height?     : number, // height of the image in css pixel, if undefined, it is calculated from the aspect ratio
+    padding     : number, // padding around the diagram in css pixel
+    render_text : boolean,
+    background? : string, // transparent if undefined
+    dpi         : number, // resolution, the image has `width * dpi / 96` pixels (a css pixel is 1/96 inch)
+}
+
+export const default_png_options : png_options = {
+    width       : 400,
+    height      : undefined,
+    padding     : 10,
+    render_text : true,
+    background  : undefined,
+    dpi         : 96,
+}
+
+type RGBA = [number, number, number, number];
+
+// bounding box of the pixels `[x0, y0, x1, y1]` (the end is exclusive)
+type PixelBox = [number, number, number, number];
+
+/**
+ * Image being rendered
+ */
+type Raster = {
+    width  : number,
+    height : number,
+    pixels : Float32Array, // premultiplied rgba from 0 to 1
+    mask   : Float32Array, // coverage of the shape being drawn
+    clip   : Float32Array | undefined, // coverage of the current clip
+    transform : (p : Vector2) => Vector2, // diagram coordinate to pixel coordinate
+    scale  : number, // pixels per diagram unit
+    pixel  : number, // pixels per css pixel (for non-scaling stroke width)
+}
+
+const SUB_SCANLINES = 4;
+
+function resolve_color(color : string | Paint | undefined) : RGBA | undefined {
+    if (color == undefined) return undefined;
+    if (is_paint(color)) color = paint_solid_color(color);
+    return color_to_rgba(get_color(color, tab_color));
+}
+
+function union_box(a : PixelBox | undefined, b : PixelBox | undefined) : PixelBox | undefined {
+    if (a == undefined) return b;
+    if (b == undefined) return a;
+    return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+/**
+ * Get the bounding box of points expanded by `margin`, clamped to the image
+ */
+function pixel_box(r : Raster, points : Vector2[], margin : number) : PixelBox | undefined {
+    if (points.length == 0) return undefined;
+    let x0 = Math.max(0, Math.floor(Math.min(...points.map(p => p.x)) - margin));
+    let y0 = Math.max(0, Math.floor(Math.min(...points.map(p => p.y)) - margin));
+    let x1 = Math.min(r.width,  Math.ceil(Math.max(...points.map(p => p.x)) + margin));
+    let y1 = Math.min(r.height, Math.ceil(Math.max(...points.map(p => p.y)) + margin));
+    if (x0 >= x1 || y0 >= y1) return undefined;
+    return [x0, y0, x1, y1];
+}
+
+/**
+ * Convert a path into a polyline in pixel coordinate (curved segments are sampled)
+ */
+function flatten_path(r : Raster, path : Path, closed : boolean) : Vector2[] {
+    if (path.points.length == 0) return [];
+    let points = [path.points[0]];
+    for (let i = 0; i < path.segment_count(closed); i++) {
+        let [seg, p0, p1] = path.segment_data(i);
+        if (seg.type == "line") { points.push(p1); continue; }
+        let n = Math.max(2, Math.min(256, Math.ceil(segment_length(seg, p0, p1) * r.scale / 2)));
+        points = points.concat(segment_sample(seg, p0, p1, n));
+    }
+    if (closed && points.length > 1) points.pop(); // the closing point is the first point
+    return points.map(r.transform);
+}
+
+// ====== rasterization =========
+
+/**
+ * Add coverage of a horizontal span to a row
+ */
+function add_span(acc : Float32Array, width : number, xa : number, xb : number, weight : number) : void {
+    xa = Math.max(0, Math.min(width, xa));
+    xb = Math.max(0, Math.min(width, xb));
+    if (xb <= xa) return;
+    let ia = Math.floor(xa), ib = Math.floor(xb);
+    if (ia == ib) { acc[ia] += (xb - xa) * weight; return; }
+    acc[ia] += (ia + 1 - xa) * weight;
+    for (let i = ia + 1; i < ib; i++) acc[i] += weight;
+    if (ib < width) acc[ib] += (xb - ib) * weight;
+}
+
+/**
+ * Rasterize the fill of closed polylines into the mask
+ * @param evenodd whether to use the even-odd fill rule (nonzero otherwise)
+ * @returns the bounding box of the drawn pixels
+ */
+function fill_rings(r : Raster, rings : Vector2[][], evenodd : boolean) : PixelBox | undefined {
+    let edges : { x0 : number, y0 : number, x1 : number, y1 : number, dir : number }[] = [];
+    for (let ring of rings) {
+        for (let i = 0; i < ring.length; i++) {
+            let a = ring[i], b = ring[(i + 1) % ring.length];
+            if (a.y == b.y) continue;
+            edges.push(a.y < b.y ? { x0 : a.x, y0 : a.y, x1 : b.x, y1 : b.y, dir : 1 }
+                                 : { x0 : b.x, y0 : b.y, x1 : a.x, y1 : a.y, dir : -1 });
+        }
+    }
+    let box = pixel_box(r, rings.flat(), 1);
+    if (box == undefined || edges.length == 0) return undefined;
+    let [bx0, by0, bx1, by1] = box;
+
+    let acc = new Float32Array(r.width + 1);
+    for (let y = by0; y < by1; y++) {
+        let row_edges = edges.filter(e => e.y0 < y + 1 && e.y1 > y);
+        if (row_edges.length == 0) continue;
+        acc.fill(0, bx0, bx1 + 1);
+        for (let k = 0; k < SUB_SCANLINES; k++) {
+            let sy = y + (k + 0.5) / SUB_SCANLINES;
+            let crossings : [number, number][] = [];
+            for (let e of row_edges) {
+                if (sy < e.y0 || sy >= e.y1) continue;
+                crossings.push([e.x0 + (sy - e.y0) * (e.x1 - e.x0) / (e.y1 - e.y0), e.dir]);
+            }
+            crossings.sort((a, b) => a[0] - b[0]);
+            let winding = 0;
+            for (let j = 0; j < crossings.length - 1; j++) {
+                winding += evenodd ? 1 : crossings[j][1];
+                let inside = evenodd ? winding % 2 == 1 : winding != 0;
+                if (inside) add_span(acc, r.width, crossings[j][0], crossings[j + 1][0], 1 / SUB_SCANLINES);
+            }
+        }
+        for (let x = bx0; x < bx1; x++) {
+            let i = y * r.width + x;
+            r.mask[i] = Math.max(r.mask[i], Math.min(1, acc[x]));
+        }
+    }
+    return box;
+}
+
+/**
+ * Rasterize a stroked polyline into the mask
+ * @param width stroke width in pixel
+ * @param cap line cap of the ends of an open polyline ('butt', 'round', or 'square')
+ * @returns the bounding box of the drawn pixels
+ */
+function stroke_polyline(r : Raster, points : Vector2[], closed : boolean, width : number, cap : string) : PixelBox | undefined {
+    if (points.length == 0 || !(width > 0)) return undefined;
+    if (points.length == 1) points = [points[0], points[0]];
+    let hw = width / 2;
+    if (!closed && cap == 'square') {
+        // extend the ends by half the width, then draw as butt
+        let n = points.length;
+        let d0 = points[0].sub(points[1]);
+        let d1 = points[n - 1].sub(points[n - 2]);
+        points = [...points];
+        if (d0.length_sq() > 0) points[0] = points[0].add(d0.normalize().scale(hw));
+        if (d1.length_sq() > 0) points[n - 1] = points[n - 1].add(d1.normalize().scale(hw));
+    }
+    let butt = !closed && cap != 'round';
+
+    let n_segments = closed ? points.length : points.length - 1;
+    let result : PixelBox | undefined = undefined;
+    for (let s = 0; s < n_segments; s++) {
+        let a = points[s], b = points[(s + 1) % points.length];
+        let box = pixel_box(r, [a, b], hw + 1);
+        if (box == undefined) continue;
+        result = union_box(result, box);
+        let d = b.sub(a);
+        let len_sq = d.length_sq();
+        let len = Math.sqrt(len_sq);
+        for (let y = box[1]; y < box[3]; y++) {
+            for (let x = box[0]; x < box[2]; x++) {
+                let px = x + 0.5 - a.x, py = y + 0.5 - a.y;
+                let t = len_sq == 0 ? 0 : (px * d.x + py * d.y) / len_sq;
+                let tc = Math.max(0, Math.min(1, t));
+                let dist = Math.hypot(px - d.x * tc, py - d.y * tc);
+                let coverage = Math.max(0, Math.min(1, hw + 0.5 - dist));
+                if (butt && s == 0 && t < 0) coverage *= Math.max(0, Math.min(1, 0.5 + t * len));
+                if (butt && s == n_segments - 1 && t > 1) coverage *= Math.max(0, Math.min(1, 0.5 - (t - 1) * len));
+                let i = y * r.width + x;
+                if (coverage > r.mask[i]) r.mask[i] = coverage;
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Split a polyline into dashes
+ * @param pattern lengths of the dashes and the gaps (in pixel)
+ */
+function dash_polyline(points : Vector2[], closed : boolean, pattern : number[]) : Vector2[][] {
+    if (pattern.length % 2 == 1) pattern = pattern.concat(pattern);
+    if (pattern.length == 0 || pattern.reduce((a, b) => a + b, 0) <= 0) return [points];
+    if (closed) points = [...points, points[0]];
+
+    let dashes : Vector2[][] = [];
+    let index = 0;
+    let remaining = pattern[0];
+    let current : Vector2[] | undefined = [points[0]];
+    for (let i = 0; i < points.length - 1; i++) {
+        let a = points[i], b = points[i + 1];
+        let seg_length = b.sub(a).length();
+        let pos = 0;
+        while (seg_length - pos > remaining) {
+            pos += remaining;
+            let p = a.add(b.sub(a).scale(pos / seg_length));
+            if (current != undefined) { current.push(p); dashes.push(current); current = undefined; }
+            else current = [p];
+            index = (index + 1) % pattern.length;
+            remaining = pattern[index];
+        }
+        remaining -= seg_length - pos;
+        if (current != undefined) current.push(b);
+    }
+    if (current != undefined && current.length > 1) dashes.push(current);
+    return dashes;
+}
+
+/**
+ * Draw the mask with a color on the image, and clear the mask
+ */
+function composite(r : Raster, box : PixelBox | undefined, color : RGBA, opacity : number) : void {
+    if (box == undefined) return;
+    let alpha = color[3] * opacity;
+    for (let y = box[1]; y < box[3]; y++) {
+        for (let x = box[0]; x < box[2]; x++) {
+            let i = y * r.width + x;
+            let coverage = r.mask[i] * (r.clip?.[i] ?? 1);
+            r.mask[i] = 0;
+            if (coverage <= 0) continue;
+            let a = alpha * coverage;
+            for (let c = 0; c < 3; c++) r.pixels[4*i + c] = color[c] * a + r.pixels[4*i + c] * (1 - a);
+            r.pixels[4*i + 3] = a + r.pixels[4*i + 3] * (1 - a);
+        }
+    }
+}
+
+// ====== diagrams =========
+
+/**
+ * Draw the stroke of polylines
+ * @param points_list the polylines (in pixel coordinate)
+ */
+function draw_strokes(r : Raster, style : {[key : string] : any}, points_list : Vector2[][], closed : boolean) : void {
+    let color = resolve_color(style["stroke"]);
+    if (color == undefined) return;
+    let scale = style["vector-effect"] == "non-scaling-stroke" ? r.pixel : r.scale;
+    let width = parseFloat(style["stroke-width"]) * scale;
+    let dasharray = style["stroke-dasharray"] as string | undefined;
+    let pattern = (dasharray == undefined || dasharray == "none") ? [] :
+        dasharray.split(/[\s,]+/).map(parseFloat).filter(x => !isNaN(x) && x >= 0).map(x => x * scale);
+
+    let box : PixelBox | undefined = undefined;
+    for (let points of points_list) {
+        if (pattern.length == 0) {
+            box = union_box(box, stroke_polyline(r, points, closed, width, style["stroke-linecap"]));
+        } else {
+            for (let dash of dash_polyline(points, closed, pattern))
+                box = union_box(box, stroke_polyline(r, dash, false, width, style["stroke-linecap"]));
+        }
+    }
+    composite(r, box, color, parseFloat(style["opacity"] ?? "1"));
+}
+
+function draw_fill(r : Raster, style : {[key : string] : any}, rings : Vector2[][]) : void {
+    let color = resolve_color(style["fill"]);
+    if (color == undefined) return;
+    composite(r, fill_rings(r, rings, style["fill-rule"] == "evenodd"), color, parseFloat(style["opacity"] ?? "1"));
+}
+
+function draw_markers(r : Raster, diagram : Diagram, style : {[key : string] : any}) : void {
+    let scale = marker_scale(diagram); // in diagram unit, the same as the svg markers
+    let stroke = {...style, "stroke-dasharray" : "none", "stroke-linecap" : "round"};
+    for (let [shape, pos, angle] of marker_placements(diagram)) {
+        let geometry = marker_geometry(shape);
+        let points = geometry.type == 'circle' ?
+            Array.from({ length : 24 }, (_, i) => pos.add(new Vector2(geometry.radius * scale, 0).rotate(2 * Math.PI * i / 24))) :
+            geometry.points.map(p => p.scale(scale).rotate(angle).add(pos));
+        let pixel_points = points.map(r.transform);
+        let closed = geometry.type != 'polyline';
+        if (geometry.filled) draw_fill(r, {...stroke, "fill" : style["stroke"]}, [pixel_points]);
+        draw_strokes(r, stroke, [pixel_points], closed);
+    }
+}
+
+function draw_shape(r : Raster, diagram : Diagram) : void {
+    let style = {...default_diagram_style, ...diagram.style}; // use default if not defined
+    switch (diagram.type) {
+        case DiagramType.Polygon : {
+            if (diagram.path == undefined) return;
+            let ring = flatten_path(r, diagram.path, true);
+            draw_fill(r, style, [ring]);
+            draw_strokes(r, style, [ring], true);
+        } break;
+        case DiagramType.CompoundPolygon : {
+            let rings = diagram.children.filter(c => c.path != undefined).map(c => flatten_path(r, c.path!, true));
+            draw_fill(r, style, rings);
+            draw_strokes(r, style, rings, true);
+        } break;
+        case DiagramType.Curve : {
+            if (diagram.path == undefined) return;
+            draw_strokes(r, style, [flatten_path(r, diagram.path, false)], false);
+            draw_markers(r, diagram, style);
+        } break;
+    }
+}
+
+/**
+ * Get the rings of the closed shapes of a clip diagram
+ */
+function clip_rings(r : Raster, diagram : Diagram) : Vector2[][] {
+    switch (diagram.type) {
+        case DiagramType.Polygon : return diagram.path == undefined ? [] : [flatten_path(r, diagram.path, true)];
+        case DiagramType.CompoundPolygon :
+        case DiagramType.Diagram : return diagram.children.flatMap(c => clip_rings(r, c));
+        default : return [];
+    }
+}
+
+/**
+ * Draw with the clip of the diagram (intersected with the current clip)
+ */
+function with_clip(r : Raster, diagram : Diagram, draw : () => void) : void {
+    if (diagram.clippath == undefined) { draw(); return; }
+    let evenodd = diagram.clippath.type == DiagramType.CompoundPolygon && diagram.clippath.style["fill-rule"] == "evenodd";
+    let box = fill_rings(r, clip_rings(r, diagram.clippath), evenodd);
+    let previous = r.clip;
+    let clip = new Float32Array(r.width * r.height);
+    if (box != undefined) {
+        for (let y = box[1]; y < box[3]; y++) {
+            for (let x = box[0]; x < box[2]; x++) {
+                let i = y * r.width + x;
+                clip[i] = r.mask[i] * (previous?.[i] ?? 1);
+                r.mask[i] = 0;
+            }
+        }
+    }
+    r.clip = clip;
+    draw();
+    r.clip = previous;
+}
+
+function f_draw_shapes(r : Raster, diagram : Diagram) : void {
+    if (diagram.type == DiagramType.Diagram) {
+        with_clip(r, diagram, () => diagram.children.forEach(c => f_draw_shapes(r, c)));
+    } else {
+        draw_shape(r, diagram);
+    }
+}
+
+// ====== texts =========
+
+// a piece of text with a single style, `x` and `baseline` are in pixel relative to the text position
+// (`baseline` is positive downward, like svg `dy`)
+type TextSpan = { text : string, size : number, x : number, baseline : number, bold : boolean, italic : boolean,
+    color : RGBA | undefined };
+
+function parse_text_length(length : string | undefined, font_size : number) : number {
+    if (length == undefined) return 0;
+    let value = parseFloat(length);
+    if (isNaN(value)) return 0;
+    return length.trim().endsWith("em") ? value * font_size : value;
+}
+
+/**
+ * Get the span of a piece of text, tex strings (`$...$`) and variables are drawn in italic
+ * @param size font size in pixel
+ */
+function text_span(text : string, style : {[key : string] : any}, is_var : boolean, size : number) : TextSpan {
+    let italic = is_var || style["font-style"] == "italic";
+    if (is_texstr(text)) {
+        text = text.replace(/^\$+|\$+$/g, "");
+        italic = true;
+    }
+    return { text : str_to_normal_from_mathematical_italic(text), size, x : 0, baseline : 0,
+        bold : style["font-weight"] == "bold", italic, color : resolve_color(style["fill"]) };
+}
+
+function span_width(span : TextSpan) : number {
+    return Array.from(span.text).length * BITMAP_FONT_ADVANCE * span.size / BITMAP_FONT_HEIGHT;
+}
+
+/**
+ * Get the rectangles of the glyphs of a span (in the local coordinate of the text, y downward)
+ */
+function span_rects(span : TextSpan) : Vector2[][] {
+    let unit = span.size / BITMAP_FONT_HEIGHT;
+    let rects : Vector2[][] = [];
+    let x = span.x;
+    for (let char of span.text) {
+        let rows = glyph_rows(char);
+        for (let row = 0; row < BITMAP_FONT_ROWS; row++) {
+            let top = span.baseline - (BITMAP_FONT_ROWS - row) * unit;
+            let shear = (y : number) => span.italic ? (span.baseline - y) * 0.2 : 0;
+            // merge the consecutive pixels of a row
+            for (let col = 0; col < BITMAP_FONT_COLUMNS; col++) {
+                if (!(rows[row] & (1 << (BITMAP_FONT_COLUMNS - 1 - col)))) continue;
+                let end = col;
+                while (end + 1 < BITMAP_FONT_COLUMNS && (rows[row] & (1 << (BITMAP_FONT_COLUMNS - 2 - end)))) end++;
+                let x0 = x + col * unit;
+                let x1 = x + (end + 1 + (span.bold ? 0.5 : 0)) * unit;
+                let y0 = top, y1 = top + unit;
+                rects.push([
+                    new Vector2(x0 + shear(y0), y0), new Vector2(x1 + shear(y0), y0),
+                    new Vector2(x1 + shear(y1), y1), new Vector2(x0 + shear(y1), y1),
+                ]);
+                col = end;
+            }
+        }
+        x += BITMAP_FONT_ADVANCE * unit;
+    }
+    return rects;
+}
+
+/**
+ * Draw lines of spans, each line is anchored separately (same as svg text chunks)
+ * @param position position of the text in diagram coordinate
+ * @param angle rotation of the text (clockwise, same as svg)
+ */
+function draw_text_lines(r : Raster, lines : TextSpan[][], position : Vector2, angle : number,
+    anchor : string, opacity : number) : void {
+    let origin = r.transform(position);
+    let u = new Vector2(Math.cos(angle), Math.sin(angle));
+    let v = new Vector2(-Math.sin(angle), Math.cos(angle));
+    for (let line of lines) {
+        // the last column of the advance is the spacing between glyphs, it is not part of the width
+        let last = line[line.length - 1];
+        let width = last == undefined ? 0 :
+            last.x + span_width(last) - (BITMAP_FONT_ADVANCE - BITMAP_FONT_COLUMNS) * last.size / BITMAP_FONT_HEIGHT;
+        let shift = anchor == "middle" ? -width / 2 : anchor == "end" ? -width : 0;
+        for (let span of line) {
+            if (span.color == undefined) continue;
+            let rings = span_rects(span).map(rect => rect.map(p => origin.add(u.scale(p.x + shift)).add(v.scale(p.y))));
+            composite(r, fill_rings(r, rings, false), span.color, opacity);
+        }
+    }
+}
+
+function draw_text(r : Raster, diagram : Diagram, calculated_scale : number) : void {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    let style = {...default_text_diagram_style, ...diagram.style}; // use default if not defined
+    let textdata = {...default_textdata, ...diagram.textdata}; // use default if not defined
+    let scale = textdata["font-scale"] == "auto" ? calculated_scale : parseFloat(textdata["font-scale"] as string);
+    let size = parseFloat(textdata["font-size"] as string) * scale * r.scale;
+
+    let span = text_span(textdata["text"], {...textdata, ...style}, diagram.tags.includes('textvar'), size);
+    span.baseline = parse_text_length(textdata["dy"], size);
+    let angle = parseFloat(textdata["angle"] as string);
+    draw_text_lines(r, [[span]], diagram.path.points[0], isNaN(angle) ? 0 : angle,
+        textdata["text-anchor"] as string, parseFloat(style.opacity as string));
+}
+
+function draw_multiline_text(r : Raster, diagram : Diagram, calculated_scale : number) : void {
+    if (diagram.path == undefined) { throw new Error("Text must have a path"); }
+    if (diagram.multilinedata?.content == undefined) { throw new Error("MultilineText must have multilinedata"); }
+    // use default if not defined, follow the layout of the tspans in `draw_svg.ts`
+    let textdata = {...default_textdata, ...{dy:"0", "text-anchor":"start"}, ...diagram.textdata};
+    let dg_scale_factor = diagram.multilinedata["scale-factor"] ?? 1;
+
+    let lines : TextSpan[][] = [];
+    let baseline = 0, x = 0;
+    let is_firstline = true, is_in_front = true;
+    let newline_dy = "1em";
+    for (let tspandata of diagram.multilinedata.content) {
+        if (tspandata.text == "\n") {
+            is_in_front = true;
+            newline_dy = tspandata.style['dy'] ?? "1em";
+            continue;
+        }
+        let tspanstyle : {[key : string] : any} = {
+            ...default_text_diagram_style, ...textdata, ...{"font-size" : textdata["font-size"]}, ...tspandata.style
+        };
+        let scale = tspanstyle["font-scale"] == "auto" ? calculated_scale : parseFloat(tspanstyle["font-scale"]);
+        let size = parseFloat(tspanstyle["font-size"]) * scale * dg_scale_factor * r.scale;
+
+        let dy = tspandata.style['dy'];
+        if (is_in_front) {
+            if (dy == undefined) dy = is_firstline ? textdata["dy"] as string : newline_dy;
+            lines.push([]);
+            x = 0;
+            is_in_front = false;
+        }
+        baseline += parse_text_length(dy, size);
+        x += parse_text_length(tspandata.style['dx'], size);
+
+        let span = text_span(tspandata.text, tspanstyle, Boolean(tspanstyle["textvar"]), size);
+        span.x = x;
+        span.baseline = baseline;
+        lines[lines.length - 1].push(span);
+        x += span_width(span);
+        is_firstline = false;
+    }
+    let opacity = parseFloat(diagram.style.opacity ?? "1");
+    draw_text_lines(r, lines, diagram.path.points[0], 0, textdata["text-anchor"] as string, isNaN(opacity) ? 1 : opacity);
+}
+
+function f_draw_texts(r : Raster, diagram : Diagram, calculated_scale : number) : void {
+    switch (diagram.type) {
+        case DiagramType.Text          : draw_text(r, diagram, calculated_scale); break;
+        case DiagramType.MultilineText : draw_multiline_text(r, diagram, calculated_scale); break;
+        case DiagramType.Diagram :
+            with_clip(r, diagram, () => diagram.children.forEach(c => f_draw_texts(r, c, calculated_scale)));
+            break;
+    }
+}
+
+// ====== png encoding =========
+
+let crc_table : Uint32Array | undefined = undefined;
+
+function crc32(data : Uint8Array) : number {
+    if (crc_table == undefined) {
+        crc_table = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = (c & 1) ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crc_table[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = crc_table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function adler32(data : Uint8Array) : number {
+    let a = 1, b = 0;
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+// base and extra bits of the deflate length (257-285) and distance (0-29) codes
+const length_base  = [3,4,5,6,7,8,9,10,11,13,15,17,19,23,27,31,35,43,51,59,67,83,99,115,131,163,195,227,258];
+const length_extra = [0,0,0,0,0,0,0,0,1,1,1,1,2,2,2,2,3,3,3,3,4,4,4,4,5,5,5,5,0];
+const dist_base    = [1,2,3,4,5,7,9,13,17,25,33,49,65,97,129,193,257,385,513,769,1025,1537,2049,3073,4097,6145,8193,12289,16385,24577];
+const dist_extra   = [0,0,0,0,1,1,2,2,3,3,4,4,5,5,6,6,7,7,8,8,9,9,10,10,11,11,12,12,13,13];
+
+/**
+ * Compress data into a zlib stream with a single fixed Huffman deflate block
+ * (greedy LZ77 matching with hash chains)
+ */
+function zlib_deflate(data : Uint8Array) : Uint8Array {
+    const WINDOW = 32768, HASH_BITS = 15, MAX_CHAIN = 32, MAX_MATCH = 258;
+    // a literal takes at most 9 bits and a match takes less bits than its literals
+    let out = new Uint8Array(2 + Math.ceil(data.length * 9 / 8) + 8);
+    out[0] = 0x78; out[1] = 0x01;
+    let pos = 2, bit_buffer = 0, bit_count = 0;
+    let write_bits = (value : number, n : number) => {
+        bit_buffer |= value << bit_count;
+        bit_count += n;
+        while (bit_count >= 8) { out[pos++] = bit_buffer & 0xFF; bit_buffer >>>= 8; bit_count -= 8; }
+    };
+    // huffman codes are written from the most significant bit
+    let write_code = (code : number, n : number) => {
+        let reversed = 0;
+        for (let i = 0; i < n; i++) reversed |= ((code >> i) & 1) << (n - 1 - i);
+        write_bits(reversed, n);
+    };
+    let write_symbol = (symbol : number) => {
+        if (symbol < 144)      write_code(0x30 + symbol, 8);
+        else if (symbol < 256) write_code(0x190 + symbol - 144, 9);
+        else if (symbol < 280) write_code(symbol - 256, 7);
+        else                   write_code(0xC0 + symbol - 280, 8);
+    };
+    let write_match = (length : number, distance : number) => {
+        let l = 0;
+        while (l < 28 && length_base[l + 1] <= length) l++;
+        write_symbol(257 + l);
+        write_bits(length - length_base[l], length_extra[l]);
+        let d = 0;
+        while (d < 29 && dist_base[d + 1] <= distance) d++;
+        write_code(d, 5);
+        write_bits(distance - dist_base[d], dist_extra[d]);
+    };
+
+    let head = new Int32Array(1 << HASH_BITS).fill(-1);
+    let prev = new Int32Array(WINDOW);
+    let hash = (i : number) => Math.imul((data[i] << 16) | (data[i + 1] << 8) | data[i + 2], 0x9E3779B1) >>> (32 - HASH_BITS);
+    let insert = (i : number) => {
+        if (i + 2 >= data.length) return;
+        let h = hash(i);
+        prev[i % WINDOW] = head[h];
+        head[h] = i;
+    };
+
+    write_bits(1, 1); // final block
+    write_bits(1, 2); // fixed huffman codes
+    let i = 0;
+    while (i < data.length) {
+        let best_length = 0, best_distance = 0;
+        if (i + 2 < data.length) {
+            let max_length = Math.min(MAX_MATCH, data.length - i);
+            let candidate = head[hash(i)];
+            for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW; chain++) {
+                let length = 0;
+                while (length < max_length && data[candidate + length] == data[i + length]) length++;
+                if (length > best_length) { best_length = length; best_distance = i - candidate; }
+                if (length == max_length) break;
+                candidate = prev[candidate % WINDOW];
+            }
+        }
+        if (best_length >= 3) {
+            write_match(best_length, best_distance);
+            for (let j = 0; j < best_length; j++) insert(i + j);
+            i += best_length;
+        } else {
+            write_symbol(data[i]);
+            insert(i);
+            i++;
+        }
+    }
+    write_symbol(256); // end of block
+    if (bit_count > 0) write_bits(0, 8 - bit_count);
+
+    new DataView(out.buffer).setUint32(pos, adler32(data));
+    return out.subarray(0, pos + 4);
+}
+
+function png_chunk(type : string, data : Uint8Array) : Uint8Array {
+    let out = new Uint8Array(12 + data.length);
+    let view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+}
+
+/**
+ * Predicted value of a byte for a png filter type
+ * @param a the byte on the left, `b` the byte above, `c` the byte above on the left
+ */
+function filter_predictor(type : number, a : number, b : number, c : number) : number {
+    switch (type) {
+        case 1 : return a;                  // sub
+        case 2 : return b;                  // up
+        case 3 : return (a + b) >> 1;       // average
+        case 4 : {                          // paeth
+            let p = a + b - c;
+            let pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+            return (pa <= pb && pa <= pc) ? a : (pb <= pc ? b : c);
+        }
+        default : return 0;                 // none
+    }
+}
+
+/**
+ * Filter the scanlines of an rgba image, each row uses the filter type with the smallest
+ * sum of absolute values (the heuristic recommended by the png specification)
+ * @param rows the unfiltered scanlines (`height` rows of `stride` bytes)
+ * @returns the filtered scanlines, each prefixed by its filter type
+ */
+function filter_rows(rows : Uint8Array, stride : number, height : number) : Uint8Array {
+    const BPP = 4;
+    let out = new Uint8Array(height * (1 + stride));
+    let candidate = new Uint8Array(stride);
+    for (let y = 0; y < height; y++) {
+        let row = rows.subarray(y * stride, (y + 1) * stride);
+        let above = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : new Uint8Array(stride);
+        let best_sum = Infinity;
+        for (let type = 0; type < 5; type++) {
+            let sum = 0;
+            for (let x = 0; x < stride; x++) {
+                let a = x >= BPP ? row[x - BPP] : 0, b = above[x], c = x >= BPP ? above[x - BPP] : 0;
+                let value = (row[x] - filter_predictor(type, a, b, c)) & 0xFF;
+                candidate[x] = value;
+                sum += value < 128 ? value : 256 - value;
+            }
+            if (sum < best_sum) {
+                best_sum = sum;
+                out[y * (1 + stride)] = type;
+                out.set(candidate, y * (1 + stride) + 1);
+            }
+        }
+    }
+    return out;
+}
+
+function encode_png(r : Raster, dpi : number) : Uint8Array {
+    let stride = 4 * r.width;
+    let rows = new Uint8Array(r.height * stride);
+    for (let y = 0; y < r.height; y++) {
+        for (let x = 0; x < r.width; x++) {
+            let i = 4 * (y * r.width + x);
+            let a = r.pixels[i + 3];
+            for (let c = 0; c < 3; c++) rows[i + c] = a > 0 ? Math.round(Math.min(1, r.pixels[i + c] / a) * 255) : 0;
+            rows[i + 3] = Math.round(Math.min(1, a) * 255);
+        }
+    }
+    let ihdr = new Uint8Array(13);
+    let ihdr_view = new DataView(ihdr.buffer);
+    ihdr_view.setUint32(0, r.width);
+    ihdr_view.setUint32(4, r.height);
+    ihdr.set([8, 6, 0, 0, 0], 8); // 8 bit rgba, no interlace
+    let phys = new Uint8Array(9);
+    let phys_view = new DataView(phys.buffer);
+    let pixels_per_meter = Math.round(dpi / 0.0254);
+    phys_view.setUint32(0, pixels_per_meter);
+    phys_view.setUint32(4, pixels_per_meter);
+    phys[8] = 1; // unit is meter
+
+    let chunks = [
+        new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        png_chunk("IHDR", ihdr), png_chunk("pHYs", phys), png_chunk("IDAT", zlib_deflate(filter_rows(rows, stride, r.height))), png_chunk("IEND", new Uint8Array()),
+    ];
+    let out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (let c of chunks) { out.set(c, offset); offset += c.length; }
+    return out;
+}
+
+/**
+ * Render a diagram into a PNG image
+ * \* this function doesn't need the DOM or a canvas, texts are drawn with a simple bitmap font
+ * @param diagram the diagram to render
+ * @param options options for the image
+ * @returns the content of the PNG file
+ */
+export function render_png(diagram : Diagram, options? : Partial<png_options>) : Uint8Array {
+    let opt = {...default_png_options, ...options}; // use default if not defined
+    diagram = diagram.bake_transform();
+    let { viewbox, calculated_scale } = calculate_viewbox(diagram, opt.width, opt.height, opt.padding, opt.render_text);
+    let [vx, vy, vw, vh] = viewbox;
+    let css_height = opt.height ?? (vw > 0 ? opt.width * vh / vw : opt.width);
+
+    let pixel  = opt.dpi / 96;
+    let width  = Math.max(1, Math.round(opt.width * pixel));
+    let height = Math.max(1, Math.round(css_height * pixel));
+    // fit the viewbox in the image (xMidYMid meet), the viewbox is in svg coordinate (y axis flipped)
+    let scale = (vw > 0 && vh > 0) ? Math.min(width / vw, height / vh) : 1;
+    let ox = (width - vw * scale) / 2, oy = (height - vh * scale) / 2;
+
+    let r : Raster = {
+        width, height,
+        pixels : new Float32Array(width * height * 4),
+        mask   : new Float32Array(width * height),
+        clip   : undefined,
+        transform : (p : Vector2) => new Vector2(ox + (p.x - vx) * scale, oy + (-p.y - vy) * scale),
+        scale, pixel,
+    };
+    let background = opt.background == undefined ? undefined : resolve_color(opt.background);
+    if (background != undefined) {
+        for (let i = 0; i < width * height; i++) {
+            for (let c = 0; c < 3; c++) r.pixels[4*i + c] = background[c] * background[3];
+            r.pixels[4*i + 3] = background[3];
+        }
+    }
+
+    f_draw_shapes(r, diagram);
+    if (opt.render_text) f_draw_texts(r, diagram, calculated_scale);
+    return encode_png(r, opt.dpi);
+}
@@ -0,0 +1,180 @@
+// Versioned JSON format of a Diagram
+// ```
+// { "format" : "diagramatics", "version" : 1, "diagram" : { ...the diagram tree } }
+// ```
+// `Diagram.to_json()` writes the current version, `Diagram.from_json()` migrates older versions,
+// validates the tree, and then restores the classes (Diagram, Path, Vector2)
+// the functions here only work on plain JSON objects
+
+export const DIAGRAM_JSON_FORMAT  = "diagramatics";
+export const DIAGRAM_JSON_VERSION = 1;
+
+/**
+ * Error thrown when a serialized diagram can't be loaded
+ * `node_path` is the location of the malformed node (e.g. `diagram.children[2].path.points[0]`)
+ */
+export class DiagramJSONError extends Error {
+    constructor(message : string, public node_path : string = "") {
+        super(node_path == "" ? message : `${message} (at ${node_path})`);
+        this.name = "DiagramJSONError";
+    }
+}
+
+export type DiagramJSON = {
+    format  : string,
+    version : number,
+    diagram : unknown,
+}
+
+/**
+ * Function that upgrades a serialized diagram from one version to the next
+ */
+export type JSONMigration = (data : DiagramJSON) => DiagramJSON;
+
+function is_object(x : unknown) : x is {[key : string] : any} {
+    return typeof x == 'object' && x != null && !Array.isArray(x);
+}
+
+/**
+ * Add the fields that didn't exist in older versions of the diagram tree
+ */
+function fill_missing_fields(node : unknown) : void {
+    if (!is_object(node)) return;
+    for (let key of ["style", "textdata", "multilinedata", "imgdata", "markerdata"]) node[key] ??= {};
+    node["children"] ??= [];
+    node["tags"] ??= [];
+    node["origin"] ??= { x : 0, y : 0 };
+    if (Array.isArray(node["children"])) node["children"].forEach(fill_missing_fields);
+    if (node["clippath"] != undefined) fill_missing_fields(node["clippath"]);
+}
+
+// builtin_migrations[v] upgrades version v to version v+1
+const builtin_migrations : {[version : number] : JSONMigration} = {
+    // version 0 is the raw `JSON.stringify(diagram)` (used by `diagram_from_jsonstring`)
+    0 : (data) => {
+        let diagram = JSON.parse(JSON.stringify(data.diagram));
+        fill_missing_fields(diagram);
+        return { format : DIAGRAM_JSON_FORMAT, version : 1, diagram };
+    },
+};
+// the migrations added by `register_json_migration()`, they can't replace the builtin migrations
+const registered_migrations : Map<number, JSONMigration> = new Map();
+
+/**
+ * Register a migration from `version` to `version + 1`
+ * (used when the format changes, so that diagrams saved by older versions can still be loaded)
+ * @param version the version to migrate from
+ * @param migration the migration function
+ * @throws Error if there is already a migration from `version`
+ */
+export function register_json_migration(version : number, migration : JSONMigration) : void {
+    if (version in builtin_migrations || registered_migrations.has(version))
+        throw new Error("There is already a migration from version " + version);
+    registered_migrations.set(version, migration);
+}
+
+/**
+ * Remove a migration added by `register_json_migration()`
+ * (the builtin migrations can't be removed)
+ * @param version the version to migrate from
+ */
+export function unregister_json_migration(version : number) : void {
+    registered_migrations.delete(version);
+}
+
+/**
+ * Wrap a raw diagram tree (without the version field) as version 0
+ */
+function wrap_legacy(data : unknown) : DiagramJSON {
+    if (is_object(data) && 'version' in data && 'diagram' in data) return data as DiagramJSON;
+    return { format : DIAGRAM_JSON_FORMAT, version : 0, diagram : data };
+}
+
+/**
+ * Migrate a serialized diagram to the current version
+ * @param data parsed JSON (either versioned or a raw diagram tree)
+ */
+export function migrate_diagram_json(data : unknown) : DiagramJSON {
+    let json = wrap_legacy(data);
+    if (typeof json.version != 'number' || !Number.isInteger(json.version))
+        throw new DiagramJSONError("Invalid version : " + json.version, "version");
+    if (json.version > DIAGRAM_JSON_VERSION)
+        throw new DiagramJSONError(`Version ${json.version} is newer than the supported version ${DIAGRAM_JSON_VERSION}`, "version");
+    while (json.version < DIAGRAM_JSON_VERSION) {
+        let migration = builtin_migrations[json.version] ?? registered_migrations.get(json.version);
+        if (migration == undefined) throw new DiagramJSONError("No migration from version " + json.version, "version");
+        let version = json.version;
+        json = migration(json);
+        if (!(json.version > version)) throw new DiagramJSONError("Migration from version " + version + " didn't upgrade the version");
+    }
+    return json;
+}
+
+// ====== validation =========
+
+function check_vector(v : unknown, node_path : string) : void {
+    if (!is_object(v) || typeof v["x"] != 'number' || typeof v["y"] != 'number')
+        throw new DiagramJSONError("Expected a vector {x, y}", node_path);
+}
+
+function check_segment(seg : unknown, node_path : string) : void {
+    if (seg == null) return;
+    if (!is_object(seg)) throw new DiagramJSONError("Expected a segment", node_path);
+    switch (seg["type"]) {
+        case "line" : return;
+        case "quadratic" : check_vector(seg["control"], node_path + ".control"); return;
+        case "cubic" :
+            check_vector(seg["control1"], node_path + ".control1");
+            check_vector(seg["control2"], node_path + ".control2");
+            return;
+        case "arc" :
+            for (let key of ["center", "axis1", "axis2"]) check_vector(seg[key], `${node_path}.${key}`);
+            for (let key of ["angle_start", "angle_end"]) {
+                if (typeof seg[key] != 'number') throw new DiagramJSONError("Expected a number", `${node_path}.${key}`);
+            }
+            return;
+        default : throw new DiagramJSONError("Unknown segment type : " + seg["type"], node_path + ".type");
+    }
+}
+
+function check_path(path : unknown, node_path : string) : void {
+    if (!is_object(path)) throw new DiagramJSONError("Expected a path", node_path);
+    if (!Array.isArray(path["points"])) throw new DiagramJSONError("Expected an array of points", node_path + ".points");
+    path["points"].forEach((p : unknown, i : number) => check_vector(p, `${node_path}.points[${i}]`));
+    if (path["segments"] == undefined) return;
+    if (!Array.isArray(path["segments"])) throw new DiagramJSONError("Expected an array of segments", node_path + ".segments");
+    path["segments"].forEach((s : unknown, i : number) => check_segment(s, `${node_path}.segments[${i}]`));
+}
+
+/**
+ * Check the structure of a serialized diagram tree
+ * @param node the diagram tree
+ * @param types the valid diagram types
+ * @param node_path location of the node (used in the error message)
+ * @throws DiagramJSONError if the node is malformed
+ */
+export function validate_diagram_json(node : unknown, types : string[], node_path : string = "diagram") : void {
+    if (!is_object(node)) throw new DiagramJSONError("Expected a diagram object", node_path);
+    if (!types.includes(node["type"])) throw new DiagramJSONError("Unknown diagram type : " + node["type"], node_path + ".type");
+    check_vector(node["origin"], node_path + ".origin");
+
+    if (!Array.isArray(node["children"])) throw new DiagramJSONError("Expected an array of children", node_path + ".children");
+    node["children"].forEach((c : unknown, i : number) => validate_diagram_json(c, types, `${node_path}.children[${i}]`));
+
+    let needs_path = ["polygon", "curve", "text", "image"].includes(node["type"]);
+    if (node["path"] != undefined || needs_path) check_path(node["path"], node_path + ".path");
+
+    for (let key of ["style", "textdata", "multilinedata", "imgdata", "markerdata"]) {
+        if (node[key] != undefined && !is_object(node[key]))
+            throw new DiagramJSONError("Expected an object", `${node_path}.${key}`);
+    }
+    if (!Array.isArray(node["tags"]) || node["tags"].some((t : unknown) => typeof t != 'string'))
+        throw new DiagramJSONError("Expected an array of strings", node_path + ".tags");
+    if (node["key"] != undefined && typeof node["key"] != 'string')
+        throw new DiagramJSONError("Expected a string", node_path + ".key");
+    if (node["clippath"] != undefined) validate_diagram_json(node["clippath"], types, node_path + ".clippath");
+    if (node["matrix"] != undefined) {
+        if (!is_object(node["matrix"]) || ["a", "b", "c", "d", "e", "f"].some(k => typeof node["matrix"][k] != 'number'))
+            throw new DiagramJSONError("Expected a matrix {a, b, c, d, e, f}", node_path + ".matrix");
+    }
+}
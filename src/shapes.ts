@@ -1,6 +1,7 @@
-import { Diagram, polygon, line, curve, text, diagram_combine } from './diagram.js';
-import { Vector2, V2 } from './vector.js';
-import { to_radian } from './utils.js';
+import { Diagram, polygon, line, curve, text, diagram_combine, compound_polygon } from './diagram.js';
+import { Vector2, V2, Vdir } from './vector.js';
+import { to_radian, range, range_inc } from './utils.js';
+import { arc_segment } from './path_segment.js';
 
 // function helpers to create common shapes
 
@@ -70,12 +71,16 @@ export function regular_polygon_side(n : number, sidelength : number = 1) : Diag
 
 /**
  * Create circle centered at origin
- * *currently implemented as a regular polygon with 50 sides*
+ * *implemented as a polygon of 4 arc segments*
  * @param radius radius of the circle
  * @returns a Diagram object
  */
 export function circle(radius : number = 1) : Diagram {
-    return regular_polygon(50, radius).append_tag('circle');
+    // start from the top, the same as `regular_polygon`
+    let angles = [0, 1, 2, 3, 4].map(i => Math.PI/2 + i*Math.PI/2);
+    let points = angles.slice(0, 4).map(a => Vdir(a).scale(radius));
+    let segments = range(0, 4).map(i => arc_segment(V2(0,0), radius, angles[i], angles[i+1]));
+    return polygon(points, segments).append_tag('circle');
 }
 
 /**
@@ -85,12 +90,22 @@ export function circle(radius : number = 1) : Diagram {
  * @returns a Diagram object
  */
 export function arc(radius : number = 1, angle : number = to_radian(360)) : Diagram {
-    let n = 100;
-    let points : Vector2[] = [];
-    for (let i = 0; i < n; i++) {
-        points.push(V2(radius,0).rotate(i*angle/(n-1)));
-    }
-    return curve(points);
+    // split the arc into pieces of at most 90 degrees
+    let n = Math.max(1, Math.ceil(Math.abs(angle) / (Math.PI/2) - 1e-9));
+    let angles = range_inc(0, n).map(i => i*angle/n);
+    let points = angles.map(a => Vdir(a).scale(radius));
+    let segments = range(0, n).map(i => arc_segment(V2(0,0), radius, angles[i], angles[i+1]));
+    return curve(points, segments);
+}
+
+/**
+ * Create an annulus (a ring between two concentric circles) centered at origin
+ * @param outer_radius radius of the outer circle
+ * @param inner_radius radius of the inner circle
+ * @returns a Diagram object
+ */
+export function annulus(outer_radius : number = 1, inner_radius : number = 0.5) : Diagram {
+    return compound_polygon([circle(outer_radius), circle(inner_radius)], 'evenodd').append_tag('annulus');
 }
 
 /**
@@ -100,10 +115,7 @@ export function arc(radius : number = 1, angle : number = to_radian(360)) : Diag
  * @returns a Diagram object
  */
 export function arrow(v : Vector2, headsize : number = 1) : Diagram {
-    let line_diagram = line(V2(0,0), v);
-    let raw_triangle = polygon([V2(0,0), V2(-headsize, headsize/2), V2(-headsize, -headsize/2)]);
-    let head_triangle = raw_triangle.rotate(v.angle()).position(v);
-    return diagram_combine(line_diagram, head_triangle);
+    return line(V2(0,0), v).markerend('triangle').markersize(headsize);
 }
 
 /**
@@ -125,12 +137,7 @@ export function arrow1(start : Vector2, end : Vector2, headsize : number = 1) :
  * @returns a Diagram object
  */
 export function arrow2(start : Vector2, end : Vector2, headsize : number = 1) : Diagram {
-    let line_diagram = line(start, end);
-    let direction    = end.sub(start);
-    let raw_triangle = polygon([V2(0,0), V2(-headsize, headsize/2), V2(-headsize, -headsize/2)]);
-    let head_triangle  = raw_triangle.rotate(direction.angle()).position(end);
-    let head_triangle2 = raw_triangle.rotate(direction.angle()+Math.PI).position(start);
-    return diagram_combine(line_diagram, head_triangle, head_triangle2);
+    return line(start, end).markerstart('triangle').markerend('triangle').markersize(headsize);
 }
 
 /**
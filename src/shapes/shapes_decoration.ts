@@ -0,0 +1,127 @@
+import { Diagram, DiagramType, curve, polygon, diagram_combine } from '../diagram.js';
+import { Vector2 } from '../vector.js';
+import { linspace } from '../utils.js';
+
+// Decorations placed along a path (polygon, curve, or a diagram containing them)
+// the decorations are real geometry, the positions are taken from `parametric_point()`
+
+/**
+ * Get the point, the unit tangent, and the unit normal (to the left) of a path at t
+ */
+function frame_at(d : Diagram, t : number) : [Vector2, Vector2, Vector2] {
+    let h = 1e-4;
+    let p = d.parametric_point(t);
+    let t0 = Math.max(0, t - h), t1 = Math.min(1, t + h);
+    let tangent = d.parametric_point(t1).sub(d.parametric_point(t0));
+    tangent = tangent.length_sq() == 0 ? new Vector2(1, 0) : tangent.normalize();
+    return [p, tangent, new Vector2(-tangent.y, tangent.x)];
+}
+
+function is_closed(d : Diagram) : boolean {
+    return d.type == DiagramType.Polygon;
+}
+
+/**
+ * Get the number of decorations that fit along a path
+ */
+function count_along(d : Diagram, spacing : number) : number {
+    if (!(spacing > 0)) throw new Error("Spacing must be positive");
+    return Math.max(1, Math.round(d.path_length() / spacing));
+}
+
+/**
+ * Create tick marks evenly spaced along a path
+ * @param d the path
+ * @param spacing distance between the ticks
+ * @param size length of the ticks
+ * @returns a diagram of the ticks (lines perpendicular to the path, centered on it)
+ */
+export function ticks(d : Diagram, spacing : number, size : number = 1) : Diagram {
+    let n = count_along(d, spacing);
+    let marks = linspace(0, n - 1, n).map(i => {
+        let [p, _, normal] = frame_at(d, (i + 0.5) / n);
+        return curve([p.sub(normal.scale(size / 2)), p.add(normal.scale(size / 2))]);
+    });
+    return diagram_combine(...marks);
+}
+
+/**
+ * Create chevrons evenly spaced along a path, pointing in the direction of the path
+ * @param d the path
+ * @param spacing distance between the chevrons
+ * @param size size of the chevrons (width and depth)
+ * @returns a diagram of the chevrons
+ */
+export function chevrons(d : Diagram, spacing : number, size : number = 1) : Diagram {
+    let n = count_along(d, spacing);
+    let marks = linspace(0, n - 1, n).map(i => {
+        let [p, tangent, normal] = frame_at(d, (i + 0.5) / n);
+        let back = p.sub(tangent.scale(size / 2));
+        return curve([back.add(normal.scale(size / 2)), p, back.sub(normal.scale(size / 2))]);
+    });
+    return diagram_combine(...marks);
+}
+
+/**
+ * Create a zig-zag along a path
+ * @param d the path
+ * @param spacing length of one zig-zag period along the path
+ * @param amplitude distance of the corners from the path
+ * @returns a curve (or a polygon if the path is a polygon)
+ */
+export function zigzag(d : Diagram, spacing : number, amplitude : number = 0.5) : Diagram {
+    let n = count_along(d, spacing);
+    let points : Vector2[] = [];
+    for (let i = 0; i <= 4 * n; i++) {
+        // corners at 1/4 and 3/4 of each period
+        let sign = i % 4 == 1 ? 1 : i % 4 == 3 ? -1 : 0;
+        let [p, _, normal] = frame_at(d, i / (4 * n));
+        points.push(p.add(normal.scale(sign * amplitude)));
+    }
+    if (is_closed(d)) return polygon(points.slice(0, -1));
+    return curve(points);
+}
+
+/**
+ * Create a wavy line along a path
+ * @param d the path
+ * @param spacing length of one wave period along the path
+ * @param amplitude amplitude of the wave
+ * @param samples number of points per period
+ * @returns a curve (or a polygon if the path is a polygon)
+ */
+export function wave(d : Diagram, spacing : number, amplitude : number = 0.5, samples : number = 16) : Diagram {
+    let n = count_along(d, spacing);
+    let points = linspace(0, 1, n * samples + 1).map(t => {
+        let [p, _, normal] = frame_at(d, t);
+        return p.add(normal.scale(amplitude * Math.sin(2 * Math.PI * n * t)));
+    });
+    if (is_closed(d)) return polygon(points.slice(0, -1));
+    return curve(points);
+}
+
+/**
+ * Create a coil along a path (a spring that follows the path, see `mechanics.spring()`)
+ * @param d the path
+ * @param coil_number number of coils
+ * @param radius radius of the coil
+ * @param separation_coefficient the coefficient of separation between coils
+ * \* at 0, no coils are overlapping. (there is no max value)
+ * @param samples number of points per coil
+ * @returns a curve
+ */
+export function coil(d : Diagram, coil_number : number = 10, radius : number = 1,
+    separation_coefficient : number = 0.5, samples : number = 20) : Diagram {
+    let length = d.path_length();
+    let R = separation_coefficient;
+    let a = (2 * coil_number + 1) * Math.PI;
+    let b = (length - 2 * R) / a;
+
+    let points = linspace(0, a, Math.ceil(samples * (coil_number + 0.5)) + 1).map(t => {
+        // distance along the path and distance from the path (same as `mechanics.spring()`)
+        let s = Math.min(length, Math.max(0, b * t + R - R * Math.cos(t)));
+        let [p, _, normal] = frame_at(d, length == 0 ? 0 : s / length);
+        return p.add(normal.scale(radius * Math.sin(t)));
+    });
+    return curve(points);
+}
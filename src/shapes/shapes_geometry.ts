@@ -1,7 +1,6 @@
-import { Diagram, polygon, line, diagram_combine, curve } from '../diagram.js';
+import { Diagram, DiagramType, polygon, line, diagram_combine, curve } from '../diagram.js';
 import { Vector2, V2 } from '../vector.js';
 import { linspace } from '../utils.js';
-import { arrow1 } from '../shapes.js';
 
 // ============================= utilities
 /**
@@ -107,6 +106,49 @@ export function line_intersection(l1 : Diagram, l2 : Diagram) : Vector2 {
 }
 
 
+/**
+ * Collect the points of a diagram (curved segments are sampled, texts and images use their bounding box)
+ */
+function diagram_points(d : Diagram) : Vector2[] {
+    switch (d.type) {
+        case DiagramType.Polygon :
+        case DiagramType.Curve :
+            return d.path == undefined ? [] : d.path.flatten(d.type == DiagramType.Polygon).points;
+        case DiagramType.Diagram :
+        case DiagramType.CompoundPolygon :
+            return d.children.map(diagram_points).flat();
+        default : {
+            let [min, max] = d.bounding_box();
+            return [min, V2(max.x, min.y), max, V2(min.x, max.y)];
+        }
+    }
+}
+
+/**
+ * Get the convex hull of points or diagrams
+ * @param input a diagram, a list of diagrams, or a list of points
+ * @returns a polygon Diagram (counter-clockwise)
+ */
+export function convex_hull(input : Diagram | Diagram[] | Vector2[]) : Diagram {
+    let inputs = Array.isArray(input) ? input : [input];
+    let points = inputs.map(x => x instanceof Diagram ? diagram_points(x.bake_transform()) : [x]).flat();
+    points = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+
+    // Andrew's monotone chain
+    let half = (pts : Vector2[]) : Vector2[] => {
+        let hull : Vector2[] = [];
+        for (let p of pts) {
+            while (hull.length >= 2 &&
+                hull[hull.length - 1].sub(hull[hull.length - 2]).cross(p.sub(hull[hull.length - 1])) <= 0) hull.pop();
+            hull.push(p);
+        }
+        hull.pop();
+        return hull;
+    };
+    let hull = half(points).concat(half(points.slice().reverse()));
+    if (hull.length < 3) throw new Error("Convex hull needs at least 3 points that are not collinear");
+    return polygon(hull.map(p => p.copy()));
+}
 
 // ============================= shapes
 
@@ -143,9 +185,6 @@ export function line_extend(l : Diagram, len1 : number, len2 : number) : Diagram
  */
 export function curve_add_arrow(c : Diagram, headsize : number, flip = false) : Diagram {
     if (c.path == undefined) return c;
-    let p1 = flip ? c.path.points[0] : c.path.points[c.path.points.length - 1];
-    let p0 = flip ? c.path.points[1] : c.path.points[c.path.points.length - 2];
-    let arrow = arrow1(p0, p1, headsize);
-    // TODO: clone the style
-    return diagram_combine(c, arrow);
+    let newc = flip ? c.markerstart('triangle') : c.markerend('triangle');
+    return newc.markersize(headsize);
 }
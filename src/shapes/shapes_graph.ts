@@ -1,4 +1,4 @@
-import { Diagram, line, curve, diagram_combine } from '../diagram.js';
+import { Diagram, line, curve, polygon, compound_polygon, diagram_combine } from '../diagram.js';
 import { Vector2, V2 } from '../vector.js';
 import { linspace, range_inc } from '../utils.js';
 import { arrow1, arrow2, textvar } from '../shapes.js'
@@ -19,6 +19,7 @@ export type axes_options = {
     ticksize  : number,
     headsize  : number,
     tick_label_offset? : number,
+    clip?     : boolean,
 }
 
 export let default_axes_options : axes_options = {
@@ -32,6 +33,7 @@ export let default_axes_options : axes_options = {
     ticksize : 0.1,
     headsize : 0.05,
     tick_label_offset : 0,
+    clip     : false,
 }
 
 export function axes_transform(axes_options? : Partial<axes_options>) : (v : Vector2) => Vector2 {
@@ -55,6 +57,24 @@ export function axes_transform(axes_options? : Partial<axes_options>) : (v : Vec
 }
 export let ax = axes_transform
 
+/**
+ * Clip a diagram to the plotting area of the axes
+ * @param diagram diagram to clip (in the transformed coordinate)
+ * @param axes_options options for the axes
+ */
+export function clip_to_axes(diagram : Diagram, axes_options? : Partial<axes_options>) : Diagram {
+    let opt = {...default_axes_options, ...axes_options}; // use default if not defined
+    if (opt.bbox == undefined) {
+        // get values from xrange and yrange
+        let [xmin, xmax] = opt.xrange;
+        let [ymin, ymax] = opt.yrange;
+        opt.bbox = [V2(xmin,ymin), V2(xmax,ymax)];
+    }
+    let [lowerleft, upperright] = opt.bbox;
+    let box = polygon([lowerleft, V2(upperright.x,lowerleft.y), upperright, V2(lowerleft.x,upperright.y)]);
+    return diagram.clip(box);
+}
+
 
 /**
  * Draw xy axes without ticks
@@ -423,11 +443,13 @@ export function plotv(data : Vector2[], axes_options? : Partial<axes_options>) :
     let [ymin, ymax] = opt.yrange;
 
     // split data into segments that are within the range
+    // if the plot is clipped, only split at the undefined points
     let segments : Vector2[][] = [];
     let current_segment : Vector2[] = [];
     for (let i=0; i < data.length; i++) {
         let p = data[i];
-        let is_inside = (p.x >= xmin && p.x <= xmax && p.y >= ymin && p.y <= ymax);
+        let is_inside = opt.clip ? (isFinite(p.x) && isFinite(p.y)) :
+            (p.x >= xmin && p.x <= xmax && p.y >= ymin && p.y <= ymax);
         if (!is_inside) {
             if (current_segment.length > 1) segments.push(current_segment);
             current_segment = [];
@@ -446,7 +468,8 @@ export function plotv(data : Vector2[], axes_options? : Partial<axes_options>) :
         d = diagram_combine(...path_diagrams).stroke('black').fill('none');
     }
 
-    return d.transform(axes_transform(opt));
+    d = d.transform(axes_transform(opt));
+    return opt.clip ? clip_to_axes(d, opt) : d;
 }
 
 /**
@@ -485,9 +508,30 @@ export function under_curvef(f : (x:number)=>number, x_start : number, x_end : n
     let new_opt = {...opt}; // copy opt
     new_opt.xrange = [x_start, x_end];
     new_opt.bbox = undefined;
+    new_opt.clip = false; // the whole area is clipped below
 
     // draw plot from x_start to x_end
     let fplot = plotf(f, new_opt);
     let area_under = fplot.add_points([V2(x_end,0), V2(x_start,0)]).to_polygon();
-    return area_under.transform(axes_transform(opt));
+    area_under = area_under.transform(axes_transform(opt));
+    return opt.clip ? clip_to_axes(area_under, opt) : area_under;
+}
+
+/**
+ * Create the region between two functions
+ * @param f1 first function
+ * @param f2 second function
+ * @param x_start start of the region
+ * @param x_end end of the region
+ * @param axes_options options for the axes
+ * the functions can cross each other, the region is drawn with `fill-rule : evenodd`
+ */
+export function between_curvef(f1 : (x:number)=>number, f2 : (x:number)=>number, x_start : number, x_end : number,
+    axes_options? : Partial<axes_options>) : Diagram {
+    let opt = {...default_axes_options, ...axes_options}; // use default if not defined
+
+    let xdata = linspace(x_start, x_end, opt.n_sample);
+    let points = xdata.map(x => V2(x, f1(x))).concat(xdata.reverse().map(x => V2(x, f2(x))));
+    let region = compound_polygon([polygon(points)], 'evenodd').transform(axes_transform(opt));
+    return opt.clip ? clip_to_axes(region, opt) : region;
 }
@@ -2,6 +2,7 @@ import { Diagram, diagram_combine } from '../diagram.js';
 import { rectangle_corner } from '../shapes.js';
 import { V2, Vector2 } from '../vector.js';
 import { transpose } from '../utils.js';
+import { with_text_auto_scale } from '../text_metrics.js';
 
 enum TableOrientation {
     ROWS    = 'rows',
@@ -17,16 +18,17 @@ export type cell_style = { index : [number,number], fill? : string, stroke? : st
  * can be 'rows' or 'columns'
  * @param min_rowsize minimum size of each row
  * @param min_colsize minimum size of each column
+ * @param text_scale scale used to measure the texts with `font-scale : auto` (see `set_text_auto_scale`)
  * @returns a diagram of the table with the diagrams inside
  */
 export function table(diagrams : Diagram[][], padding : number = 0, orientation : TableOrientation = TableOrientation.ROWS, 
-    min_rowsize : number = 0, min_colsize : number = 0) : Diagram {
+    min_rowsize : number = 0, min_colsize : number = 0, text_scale? : number) : Diagram {
     // if the orientation is columns, then we just transpose the rows and columns
     let diagram_rows = orientation == TableOrientation.ROWS ? diagrams : transpose(diagrams);
 
     function f_size(d? : Diagram) : [number, number] {
         if (d == undefined) return [min_colsize, min_rowsize];
-        let [bottomleft, topright] = d.bounding_box();
+        let [bottomleft, topright] = with_text_auto_scale(text_scale, () => d.bounding_box());
         let width  = topright.x - bottomleft.x + 2*padding;
         let height = topright.y - bottomleft.y + 2*padding;
         return [width, height];
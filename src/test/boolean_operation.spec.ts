@@ -0,0 +1,66 @@
+import { Diagram, DiagramType } from '../diagram.js';
+import { square, circle, annulus } from '../shapes.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+// area of a polygon or compound polygon using the shoelace formula (rings are oriented)
+function area(d : Diagram) : number {
+    let rings = d.type == DiagramType.CompoundPolygon ? d.children : [d];
+    let total = 0;
+    for (let r of rings) {
+        let points = r.path?.points ?? [];
+        for (let i = 0; i < points.length; i++) total += points[i].cross(points[(i+1) % points.length]) / 2;
+    }
+    return total;
+}
+
+describe('Boolean operation', () => {
+    let a = square(2);
+    let b = square(2).translate(V2(1, 1));
+
+    it('union', () => {
+        let u = a.union(b);
+        expect(u.type).to.equal(DiagramType.Polygon);
+        expect(u.path?.points.length).to.equal(8);
+        expect(area(u)).to.be.closeTo(7, 1e-9);
+    });
+    it('intersect', () => {
+        let i = a.intersect(b);
+        expect(i.path?.points.length).to.equal(4);
+        expect(area(i)).to.be.closeTo(1, 1e-9);
+        let [min, max] = i.bounding_box();
+        expect(min.x).to.be.closeTo(0, 1e-9);
+        expect(max.y).to.be.closeTo(1, 1e-9);
+    });
+    it('subtract', () => {
+        expect(area(a.subtract(b))).to.be.closeTo(3, 1e-9);
+        // hole
+        let hole = square(4).subtract(square(2));
+        expect(hole.type).to.equal(DiagramType.CompoundPolygon);
+        expect(area(hole)).to.be.closeTo(12, 1e-9);
+        // no overlap
+        expect(a.subtract(square(2).translate(V2(5, 0))).path?.points.length).to.equal(4);
+    });
+    it('xor', () => {
+        let x = a.xor(b);
+        expect(x.type).to.equal(DiagramType.CompoundPolygon);
+        expect(area(x)).to.be.closeTo(6, 1e-9);
+    });
+    it('coincident edges', () => {
+        let right = square(2).translate(V2(2, 0));
+        let u = a.union(right);
+        expect(u.path?.points.length).to.equal(4);
+        expect(area(u)).to.be.closeTo(8, 1e-9);
+        expect(a.intersect(right).type).to.equal(DiagramType.Curve); // empty
+    });
+    it('curved and compound', () => {
+        let c = circle(1).fill('red');
+        let lens = c.intersect(circle(1).translate(V2(1, 0)));
+        let expected = 2*Math.PI/3 - Math.sqrt(3)/2;
+        expect(area(lens)).to.be.closeTo(expected, 1e-2);
+        expect(lens.style.fill).to.equal('red');
+        let washer = annulus(2, 1).subtract(square(10).translate(V2(5, 0)));
+        expect(area(washer)).to.be.closeTo(3*Math.PI/2, 2e-2);
+    });
+});
@@ -0,0 +1,41 @@
+import { ticks, chevrons, zigzag, wave, coil } from '../shapes/shapes_decoration.js';
+import { line, DiagramType } from '../diagram.js';
+import { circle } from '../shapes.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Decorations', () => {
+    let l = line(V2(0,0), V2(10,0));
+
+    it('ticks and chevrons', () => {
+        let t = ticks(l, 2, 1);
+        expect(t.children.length).to.equal(5);
+        let [a, b] = t.children[0].path?.points ?? [];
+        expect(a.x).to.be.closeTo(1, 1e-9);
+        expect(b.x).to.be.closeTo(1, 1e-9);
+        expect(b.sub(a).length()).to.be.closeTo(1, 1e-9);
+        let c = chevrons(l, 5, 1);
+        expect(c.children.length).to.equal(2);
+        // the tip points along the path
+        expect(c.children[0].path?.points[1].x).to.be.greaterThan(c.children[0].path?.points[0].x ?? Infinity);
+    });
+    it('zigzag and wave', () => {
+        let z = zigzag(l, 2, 0.5);
+        expect(z.type).to.equal(DiagramType.Curve);
+        let [min, max] = z.bounding_box();
+        expect(min.y).to.be.closeTo(-0.5, 1e-9);
+        expect(max.y).to.be.closeTo(0.5, 1e-9);
+        expect(z.path?.points[0]).to.eql(V2(0,0));
+        let w = wave(circle(2), 1, 0.1);
+        expect(w.type).to.equal(DiagramType.Polygon);
+        expect(w.bounding_box()[1].x).to.be.closeTo(2.1, 0.01);
+    });
+    it('coil', () => {
+        let s = coil(l, 5, 1);
+        let points = s.path?.points ?? [];
+        expect(points[0].x).to.be.closeTo(0, 1e-9);
+        expect(points[points.length - 1].x).to.be.closeTo(10, 1e-6);
+        expect(s.bounding_box()[1].y).to.be.closeTo(1, 0.01);
+    });
+});
@@ -0,0 +1,155 @@
+import { Diagram, DiagramType, polygon, line, text, diagram_combine, compound_polygon } from '../diagram.js';
+import { textvar, circle } from '../shapes.js';
+import { V2, Vdir } from '../vector.js';
+import { convex_hull } from '../shapes/shapes_geometry.js';
+import { quadratic_segment, cubic_segment } from '../path_segment.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Diagram query', () => {
+    let square = polygon([V2(0,0), V2(1,0), V2(1,1), V2(0,1)]).append_tag('shape');
+    let figure = diagram_combine(
+        square,
+        diagram_combine(line(V2(0,0), V2(1,1)), textvar('x'), text('label')).append_tag('group'),
+        line(V2(1,0), V2(0,1)).append_tag('shape'),
+    );
+
+    it('find', () => {
+        expect(figure.find('textvar')?.textdata.text).to.equal('x');
+        expect(figure.find('group')?.children.length).to.equal(3);
+        expect(figure.find('missing')).to.be.undefined;
+        expect(figure.find(d => d.type == DiagramType.Text && d.textdata.text == 'label')).to.not.be.undefined;
+    });
+    it('find_all', () => {
+        expect(figure.find_all('line').length).to.equal(2);
+        expect(figure.find_all({ type : DiagramType.Text }).length).to.equal(2);
+        expect(figure.find_all({ tags : ['line', 'shape'] }).length).to.equal(1);
+        expect(figure.find_all({ tags : 'shape', type : [DiagramType.Polygon, DiagramType.Curve] }).length).to.equal(2);
+    });
+    it('update', () => {
+        let updated = figure.update('line', d => d.stroke('red'));
+        expect(updated.find_all('line').map(d => d.style.stroke)).to.eql(['red', 'red']);
+        expect(updated.find('shape')?.style.stroke).to.be.undefined;
+        // the original diagram is not modified
+        expect(figure.find_all('line').map(d => d.style.stroke)).to.eql([undefined, undefined]);
+        // matching subtrees are replaced as a whole
+        let replaced = figure.update('group', () => text('replaced'));
+        expect(replaced.children[1].textdata.text).to.equal('replaced');
+        expect(replaced.find_all('line').length).to.equal(1);
+    });
+});
+
+describe('Diagram hit testing', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+    let ring = compound_polygon([square, square.scale(0.5, V2(1,1))]);
+
+    it('contains', () => {
+        expect(square.contains(V2(1,1))).to.be.true;
+        expect(square.contains(V2(3,1))).to.be.false;
+        expect(ring.contains(V2(1,1))).to.be.false;
+        expect(ring.contains(V2(0.2,1))).to.be.true;
+        expect(line(V2(0,0), V2(1,1)).contains(V2(0.5,0.5))).to.be.false;
+        expect(square.clip(polygon([V2(0,0), V2(1,0), V2(1,1), V2(0,1)])).contains(V2(1.5,1.5))).to.be.false;
+    });
+    it('distance_to and closest_point', () => {
+        expect(square.distance_to(V2(3,1))).to.be.closeTo(1, 1e-9);
+        expect(square.distance_to(V2(1,1.5))).to.be.closeTo(0.5, 1e-9);
+        let c = circle(1);
+        expect(c.distance_to(V2(3,0))).to.be.closeTo(2, 1e-6);
+        let l = line(V2(0,0), V2(4,0));
+        let t = l.closest_point(V2(1,5));
+        expect(t).to.be.closeTo(0.25, 1e-9);
+        // the parameter is consistent with parametric_point
+        let arc_t = c.closest_point(V2(0,3));
+        let point = c.parametric_point(arc_t);
+        expect(point.x).to.be.closeTo(0, 1e-6);
+        expect(point.y).to.be.closeTo(1, 1e-6);
+        let d = diagram_combine(line(V2(0,0), V2(1,0)), line(V2(0,1), V2(3,1)));
+        expect(d.closest_point(V2(2,2))).to.be.closeTo(0.75, 1e-9);
+    });
+    it('hit_test', () => {
+        let figure = diagram_combine(
+            square,
+            diagram_combine(line(V2(-1,-1), V2(3,3)), square.translate(V2(1,1))),
+        );
+        expect(figure.hit_test(V2(2.5,2.5))).to.eql([1, 1]);
+        expect(figure.hit_test(V2(0.5,0.2))).to.eql([0]);
+        expect(figure.hit_test(V2(-0.5,-0.48))).to.be.undefined;
+        expect(figure.hit_test(V2(-0.5,-0.48), 0.1)).to.eql([1, 0]);
+        expect(figure.hit_test(V2(5,5))).to.be.undefined;
+        // lazily transformed diagrams are tested in the transformed position
+        let moved = figure.lazy_transform().translate(V2(10,0));
+        expect(moved.hit_test(V2(12.5,2.5))).to.eql([1, 1]);
+    });
+    it('figures with labels', () => {
+        let figure = diagram_combine(square, diagram_combine(text('label').position(V2(5,5))), text('x').position(V2(1,3)));
+        // texts don't have a path, the parameter only covers the square
+        let t = figure.closest_point(V2(3,1));
+        expect(figure.parametric_point(t).x).to.be.closeTo(2, 1e-9);
+        expect(figure.path_length()).to.be.closeTo(8, 1e-9);
+        // the text is a point when the text scale is unknown
+        expect(figure.hit_test(V2(12,5))).to.be.undefined;
+        expect(figure.hit_test(V2(5,5))).to.eql([1, 0]);
+        expect(figure.hit_test(V2(1,1))).to.eql([0]);
+    });
+});
+
+describe('Polygon measures', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+    let triangle = polygon([V2(0,0), V2(0,3), V2(3,0)]);
+
+    it('area and perimeter', () => {
+        expect(square.area()).to.be.closeTo(4, 1e-9);
+        expect(triangle.area()).to.be.closeTo(4.5, 1e-9);
+        expect(square.perimeter()).to.be.closeTo(8, 1e-9);
+        expect(circle(1).area()).to.be.closeTo(Math.PI, 1e-9);
+        expect(circle(1).scale(V2(2,1)).lazy_transform().rotate(0.3).area()).to.be.closeTo(2*Math.PI, 1e-9);
+        // parabolic segment, 2/3 of the enclosing rectangle
+        let parabola = polygon([V2(0,0), V2(2,0)], [null, quadratic_segment(V2(1,2))]);
+        expect(parabola.area()).to.be.closeTo(4/3, 1e-9);
+        let half_disc = polygon([V2(1,0), V2(-1,0)], [cubic_segment(V2(1,4/3), V2(-1,4/3)), null]);
+        expect(half_disc.area()).to.be.closeTo(1.6, 1e-9);
+        let ring = compound_polygon([square, square.scale(0.5, V2(1,1))]);
+        expect(ring.area()).to.be.closeTo(3, 1e-9);
+        expect(diagram_combine(square, triangle, line(V2(0,0), V2(1,0))).area()).to.be.closeTo(8.5, 1e-9);
+    });
+    it('centroid', () => {
+        expect(square.centroid()).to.eql(V2(1,1));
+        let c = triangle.centroid();
+        expect(c.x).to.be.closeTo(1, 1e-9);
+        expect(c.y).to.be.closeTo(1, 1e-9);
+        let l = line(V2(0,0), V2(4,2)).centroid();
+        expect(l).to.eql(V2(2,1));
+        let d = diagram_combine(square, square.translate(V2(4,0))).centroid();
+        expect(d.x).to.be.closeTo(3, 1e-9);
+    });
+    it('orientation and convexity', () => {
+        expect(square.orientation()).to.equal('counterclockwise');
+        expect(triangle.orientation()).to.equal('clockwise');
+        expect(square.lazy_transform().scale(V2(-1,1)).orientation()).to.equal('clockwise');
+        expect(polygon([V2(0,0), V2(2,0)], [null, quadratic_segment(V2(1,2))]).orientation()).to.equal('counterclockwise');
+        expect(square.is_convex()).to.be.true;
+        let arrow_shape = polygon([V2(0,0), V2(2,1), V2(0,2), V2(1,1)]);
+        expect(arrow_shape.is_convex()).to.be.false;
+        let star = polygon([0, 2, 4, 1, 3].map(i => Vdir(i * 2 * Math.PI / 5)));
+        expect(star.is_convex()).to.be.false;
+    });
+    it('convex_hull', () => {
+        let points = [V2(0,0), V2(1,1), V2(2,0), V2(2,2), V2(0,2), V2(1,0)];
+        let hull = convex_hull(points);
+        expect(hull.path?.points.length).to.equal(4);
+        expect(hull.orientation()).to.equal('counterclockwise');
+        expect(convex_hull([square, triangle]).area()).to.be.closeTo(6, 1e-9);
+        expect(() => convex_hull([V2(0,0), V2(1,1), V2(2,2)])).to.throw();
+    });
+});
+
+describe('Diagram key', () => {
+    it('is kept through copies and serialization', () => {
+        let d = line(V2(0,0), V2(1,0)).set_key('axis');
+        expect(d.translate(V2(1,1)).stroke('red').key).to.equal('axis');
+        expect(diagram_combine(d, text('a')).find({ tags : ['line'] })?.key).to.equal('axis');
+        expect(Diagram.from_json(d.to_json()).key).to.equal('axis');
+        expect(line(V2(0,0), V2(1,0)).key).to.be.undefined;
+    });
+});
@@ -0,0 +1,46 @@
+import { diagram_diff } from '../diagram_diff.js';
+import { square, circle } from '../shapes.js';
+import { diagram_combine, text } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Diagram diff', () => {
+    it('same diagram', () => {
+        let d = diagram_combine(square(1).fill('red'), text("a"));
+        expect(diagram_diff(d, d.copy())).to.eql([]);
+        expect(diagram_diff(square(1), square(1).translate(V2(1e-12, 0)))).to.eql([]);
+    });
+    it('moved points and changed style', () => {
+        let a = diagram_combine(square(1), square(2).append_tag('b'));
+        let b = diagram_combine(square(1).fill('red'), square(2).append_tag('b').translate(V2(0.5, 0)));
+        let diff = diagram_diff(a, b, 1e-6);
+        let style = diff.find(x => x.kind == 'style');
+        expect(style?.path).to.eql([0]);
+        expect(style?.key).to.equal('fill');
+        expect(style?.after).to.equal('red');
+        let moved = diff.filter(x => x.kind == 'geometry');
+        expect(moved.every(x => x.path[0] == 1 && x.tags.includes('b'))).to.be.true;
+        expect(moved.find(x => x.key == 'points')?.distance).to.be.closeTo(0.5, 1e-9);
+        // within tolerance
+        expect(diagram_diff(a, b, 1).filter(x => x.kind == 'geometry')).to.eql([]);
+    });
+    it('curved segments', () => {
+        expect(diagram_diff(circle(1), circle(1).translate(V2(1e-12, 0)), 1e-6)).to.eql([]);
+        let diff = diagram_diff(circle(1), circle(1).translate(V2(0.1, 0)), 1e-6);
+        expect(diff.find(x => x.key == 'segments')?.distance).to.be.closeTo(0.1, 1e-9);
+        let radius = diagram_diff(circle(1), circle(1.01), 0.1);
+        expect(radius).to.eql([]);
+        let polygon_circle = diagram_diff(circle(1), square(1), 1e-6).find(x => x.key == 'segments');
+        expect(polygon_circle).not.to.be.undefined;
+    });
+    it('added, removed, and changed text', () => {
+        let a = diagram_combine(text("a"), square(1));
+        let b = diagram_combine(text("b"));
+        let diff = diagram_diff(a, b);
+        expect(diff.map(x => x.kind)).to.eql(['text', 'removed']);
+        expect(diff[0].before).to.equal('a');
+        expect(diff[1].path).to.eql([1]);
+        expect(diagram_diff(b, a).map(x => x.kind)).to.eql(['text', 'added']);
+    });
+});
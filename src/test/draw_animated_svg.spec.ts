@@ -0,0 +1,59 @@
+import { draw_to_animated_svg_string } from '../draw_animated_svg.js';
+import { polygon, curve, text, diagram_combine } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Animated SVG', () => {
+    let frame = (t : number) => polygon([V2(t,0), V2(t+2,0), V2(t+2,2), V2(t,2)]).fill('red');
+
+    it('interpolates the points of the same shape', () => {
+        let svg = draw_to_animated_svg_string([frame(0), frame(1), frame(2)], { duration : 3 });
+        expect(svg.match(/<polygon /g)).to.have.length(1);
+        expect(svg).to.contain('<animate attributeName="points" values="0,0 2,0 2,-2 0,-2;1,0 3,0 3,-2 1,-2;2,0 4,0 4,-2 2,-2"');
+        expect(svg).to.contain('keyTimes="0;0.5;1" dur="3s" repeatCount="indefinite"');
+    });
+
+    it('interpolates styles', () => {
+        let svg = draw_to_animated_svg_string([frame(0).fill('#ff0000'), frame(0).fill('#0000ff')]);
+        expect(svg).to.contain('<animate attributeName="fill" values="#ff0000;#0000ff"');
+        expect(svg).not.to.contain('attributeName="points"');
+    });
+
+    it('moves texts', () => {
+        let frames = [0, 1].map(t => diagram_combine(frame(t), text('A').position(V2(t, 5))));
+        let svg = draw_to_animated_svg_string(frames);
+        expect(svg).to.contain('<animateTransform attributeName="transform" type="translate" values="0 -5;1 -5"');
+        expect(svg.match(/<text /g)).to.have.length(1);
+    });
+
+    it('alternate plays backward', () => {
+        let svg = draw_to_animated_svg_string([frame(0), frame(1)], { alternate : true, repeat : false });
+        expect(svg).to.contain('values="0,0 2,0 2,-2 0,-2;1,0 3,0 3,-2 1,-2;0,0 2,0 2,-2 0,-2"');
+        expect(svg).to.contain('fill="freeze"');
+    });
+
+    it('falls back to a flipbook when the structure changes', () => {
+        let frames = [frame(0), diagram_combine(frame(1), curve([V2(0,0), V2(1,1)]))];
+        let svg = draw_to_animated_svg_string(frames);
+        expect(svg.match(/<g visibility=/g)).to.have.length(2);
+        expect(svg).to.contain('<animate attributeName="visibility" calcMode="discrete" values="visible;hidden" keyTimes="0;0.5"');
+        expect(svg).to.contain('values="hidden;visible"');
+    });
+
+    it('deterministic ids', () => {
+        let frames = [0, 1].map(t => diagram_combine(frame(t)).clip(frame(0)));
+        let svg = draw_to_animated_svg_string(frames);
+        expect(svg).to.equal(draw_to_animated_svg_string(frames));
+        expect(svg).to.contain('<clipPath id="dg_clip_s0"');
+        // every frame of a flipbook has its own ids
+        let flipbook = draw_to_animated_svg_string([frames[0], diagram_combine(frame(1), curve([V2(0,0), V2(1,1)])).clip(frame(0))]);
+        expect(flipbook).to.contain('id="dg_clip_s0"');
+        expect(flipbook).to.contain('id="dg_clip_s1"');
+    });
+    it('a single frame is static', () => {
+        let svg = draw_to_animated_svg_string([frame(0)]);
+        expect(svg).not.to.contain('<animate');
+        expect(() => draw_to_animated_svg_string([])).to.throw();
+    });
+});
@@ -0,0 +1,91 @@
+import { draw_to_canvas } from '../draw_canvas.js';
+import { polygon, curve, multiline, diagram_combine } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+type MockCanvas = { canvas : HTMLCanvasElement, calls : string[] };
+
+/**
+ * Create a 10x10 canvas whose 2d context records the method calls (e.g. `"lineTo(1,2)"`)
+ * and the assignments of `globalAlpha`
+ */
+function mock_canvas(global_alpha : number = 1) : MockCanvas {
+    let calls : string[] = [];
+    let state : {[key : string] : any} = { globalAlpha : global_alpha, strokeStyle : '#000000' };
+    let stack : {[key : string] : any}[] = [];
+    let methods : {[key : string] : (...args : any[]) => any} = {
+        save    : () => { stack.push({...state}); },
+        restore : () => { state = stack.pop() ?? state; },
+        measureText : (text : string) => ({ width : text.length }),
+    };
+    let ctx = new Proxy({}, {
+        get : (_, name : string) => {
+            if (name in state) return state[name];
+            return (...args : any[]) => {
+                calls.push(`${name}(${args.join(',')})`);
+                return methods[name]?.(...args);
+            };
+        },
+        set : (_, name : string, value : any) => {
+            if (name == 'globalAlpha') calls.push(`globalAlpha=${value}`);
+            state[name] = value;
+            return true;
+        },
+    });
+    let canvas = { width : 10, height : 10, getContext : () => ctx } as unknown as HTMLCanvasElement;
+    return { canvas, calls };
+}
+
+/**
+ * Check that `expected` appears in `calls` in order (not necessarily adjacent)
+ */
+function expect_calls(calls : string[], expected : string[]) : void {
+    let i = 0;
+    for (let call of calls) if (call == expected[i]) i++;
+    expect(i, `${expected[i]} is not called in order in\n${calls.join('\n')}`).to.equal(expected.length);
+}
+
+describe('Canvas', () => {
+    let square = (x : number) => polygon([V2(x,0), V2(x+1,0), V2(x+1,1), V2(x,1)]).fill('red');
+    // the viewbox is drawn 1:1 on the canvas
+    let draw = (canvas : HTMLCanvasElement, d : Parameters<typeof draw_to_canvas>[1]) =>
+        draw_to_canvas(canvas, d, [0, -10, 10, 10], false);
+
+    it('draws polygons', () => {
+        let { canvas, calls } = mock_canvas();
+        draw(canvas, square(1).opacity(0.5));
+        expect_calls(calls, ['save()', 'globalAlpha=0.5', 'beginPath()',
+            'moveTo(1,0)', 'lineTo(2,0)', 'lineTo(2,-1)', 'lineTo(1,-1)', 'closePath()', 'fill(nonzero)', 'stroke()', 'restore()']);
+    });
+
+    it('draws curves with markers', () => {
+        let { canvas, calls } = mock_canvas();
+        draw(canvas, curve([V2(0,0), V2(10,0)]).markerend('triangle').markersize(2).strokewidth(1));
+        let stroke = calls.indexOf('stroke()');
+        expect_calls(calls.slice(0, stroke), ['beginPath()', 'moveTo(0,0)', 'lineTo(10,0)']);
+        // the head is 2 units long, pointing to the end of the curve
+        expect_calls(calls.slice(stroke + 1), ['beginPath()',
+            'moveTo(10,0)', 'lineTo(8,-1)', 'lineTo(8,1)', 'closePath()', 'fill()', 'stroke()', 'restore()']);
+    });
+
+    it('clips groups', () => {
+        let { canvas, calls } = mock_canvas();
+        draw(canvas, diagram_combine(square(0), square(2)).clip(square(0)));
+        let clip = calls.indexOf('clip(nonzero)');
+        expect(clip).to.be.greaterThan(-1);
+        expect_calls(calls.slice(0, clip), ['save()', 'beginPath()', 'moveTo(0,0)', 'closePath()']);
+        // both shapes are drawn inside the clipped group
+        let after = calls.slice(clip);
+        expect(after.filter(c => c == 'fill(nonzero)')).to.have.length(2);
+        expect(after[after.length - 2]).to.equal('restore()'); // the group
+        expect(after[after.length - 1]).to.equal('restore()'); // the canvas transform
+    });
+
+    it('multiplies the opacity', () => {
+        let { canvas, calls } = mock_canvas(0.5);
+        draw_to_canvas(canvas, diagram_combine(square(0).opacity(0.5), multiline([['A']]).position(V2(5,5))),
+            [0, -10, 10, 10], true);
+        expect_calls(calls, ['globalAlpha=0.25', 'fill(nonzero)', 'globalAlpha=0.5', 'fillText(A,0,0)']);
+    });
+});
@@ -0,0 +1,68 @@
+import { draw_to_pdf, draw_to_pdf_pages } from '../draw_pdf.js';
+import { polygon, curve, text, multiline, image, diagram_combine } from '../diagram.js';
+import { circle, arrow } from '../shapes.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+// 2x2 RGB png
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAACCAIAAAD91JpzAAAAEklEQVR4nGP4zwAE/0Ho////AB/uBftt3M6tAAAAAElFTkSuQmCC';
+
+function pdf_to_string(pdf : Uint8Array) : string {
+    return Array.from(pdf).map(b => String.fromCharCode(b)).join("");
+}
+
+describe('PDF', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+
+    it('document structure', () => {
+        let pdf = pdf_to_string(draw_to_pdf(square.fill('red')));
+        expect(pdf.startsWith('%PDF-1.4')).to.be.true;
+        expect(pdf.endsWith('%%EOF\n')).to.be.true;
+        // the cross-reference table points to the objects
+        let xref_offset = parseInt(pdf.substring(pdf.lastIndexOf('startxref') + 10));
+        expect(pdf.substring(xref_offset).startsWith('xref')).to.be.true;
+        let entries = pdf.substring(xref_offset).split('\n').slice(3).filter(l => l.endsWith(' n '));
+        entries.forEach((entry, i) => {
+            expect(pdf.substring(parseInt(entry)).startsWith(`${i + 1} 0 obj`)).to.be.true;
+        });
+        expect(pdf).to.contain('/Count 1');
+    });
+    it('shapes', () => {
+        let pdf = pdf_to_string(draw_to_pdf(diagram_combine(square.fill('red'), curve([V2(0,0), V2(1,1)]).opacity(0.5), circle(1))));
+        // tab_color red is #d62728
+        expect(pdf).to.contain('0.839216 0.152941 0.156863 rg');
+        expect(pdf).to.contain('0 0 m\n2 0 l\n2 2 l\n0 2 l\nh\nB');
+        expect(pdf).to.contain('/ca 0.5 /CA 0.5');
+        expect(pdf).to.contain(' c\n');
+    });
+    it('markers are in diagram unit', () => {
+        let pdf = pdf_to_string(draw_to_pdf(arrow(V2(2,0), 0.5)));
+        // the head of the triangle is 0.5 long and 0.5 wide
+        expect(pdf).to.contain('2 0 m\n1.5 0.25 l\n1.5 -0.25 l\nh\nB');
+    });
+    it('text and image', () => {
+        let pdf = pdf_to_string(draw_to_pdf(diagram_combine(square, text('a(b)').position(V2(1,1)), image(PNG, 2, 2))));
+        expect(pdf).to.contain('/BaseFont /Helvetica');
+        expect(pdf).to.contain('(a\\(b\\)) Tj');
+        expect(pdf).to.contain('/Subtype /Image /Width 2 /Height 2');
+        expect(pdf).to.contain('/Im0 Do');
+        expect(pdf_to_string(draw_to_pdf(text('a'), { render_text : false }))).to.not.contain('Tj');
+    });
+    it('multiline text opacity', () => {
+        let pdf = pdf_to_string(draw_to_pdf(multiline([['a']]).opacity(0.5)));
+        expect(pdf).to.contain('(a) Tj');
+        expect(pdf).to.contain('/ca 0.5');
+    });
+    it('long paths', () => {
+        let points = Array.from({ length : 150000 }, (_, i) => V2(i, Math.sin(i)));
+        let pdf = pdf_to_string(draw_to_pdf(curve(points)));
+        expect(pdf).to.contain('149999 ');
+    });
+    it('multiple pages', () => {
+        let pdf = pdf_to_string(draw_to_pdf_pages([square, circle(1), text('x')], { height : 842 }));
+        expect(pdf).to.contain('/Count 3');
+        expect(pdf.match(/\/Type \/Page /g)?.length).to.equal(3);
+        expect(pdf).to.contain('/MediaBox [0 0 595 842]');
+    });
+});
@@ -0,0 +1,152 @@
+import { draw_to_svg, export_svg } from '../draw_svg.js';
+import { polygon, curve, image, diagram_combine } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { expect } from 'chai';
+import 'mocha';
+
+// the sources of the images loaded by `set_image_href_dataURL()`
+let loaded_images : string[] = [];
+
+/**
+ * Set the globals of a jsdom window
+ */
+function setup_dom() : void {
+    let window = new JSDOM('', { virtualConsole : new VirtualConsole() }).window;
+    let g = globalThis as any;
+    for (let name of ['document', 'Node', 'Element', 'SVGElement', 'SVGSVGElement', 'XMLSerializer']) g[name] = (window as any)[name];
+    // jsdom doesn't implement the element classes of the svg shapes
+    let svg_tags : {[name : string] : string} = { SVGImageElement : 'image', SVGTextElement : 'text',
+        SVGPolygonElement : 'polygon', SVGPolylineElement : 'polyline' };
+    for (let name in svg_tags) {
+        g[name] = { [Symbol.hasInstance] : (x : any) => x instanceof window.Element && x.tagName == svg_tags[name] };
+    }
+    g.Image = class { set src(src : string) { loaded_images.push(src); } };
+}
+
+describe('Keyed SVG drawing', () => {
+    let outer : SVGSVGElement;
+    let square = (x : number) => polygon([V2(x,0), V2(x+1,0), V2(x+1,1), V2(x,1)]);
+    let draw = (d : Parameters<typeof draw_to_svg>[1]) => draw_to_svg(outer, d, false, false);
+    let children = () => Array.from(outer.children[0].children);
+
+    before(setup_dom);
+
+    beforeEach(() => {
+        outer = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+        document.body.appendChild(outer);
+        loaded_images = [];
+    });
+
+    it('reorders keyed siblings', () => {
+        draw(diagram_combine(square(0).set_key('a'), square(2).set_key('b')));
+        let [a, b] = children();
+        draw(diagram_combine(square(2).set_key('b'), square(0).set_key('a').fill('red')));
+        expect(children()).to.deep.equal([b, a]);
+        expect(a.getAttribute('style')).to.contain('fill: #d62728') // red of the tab colors;
+    });
+
+    it('inserts and removes unkeyed siblings', () => {
+        draw(diagram_combine(square(0), square(2), square(4)));
+        let [p0, p1] = children();
+        draw(diagram_combine(square(0), square(3)));
+        expect(children()).to.deep.equal([p0, p1]);
+        expect(p1.getAttribute('points')).to.equal('3,0 4,0 4,-1 3,-1');
+
+        draw(diagram_combine(square(0), curve([V2(0,0), V2(1,1)]), square(3)));
+        let [q0, polyline, q1] = children();
+        expect([q0, q1]).to.deep.equal([p0, p1]);
+        expect(polyline.tagName).to.equal('polyline');
+
+        draw(diagram_combine(square(3)));
+        expect(children()).to.deep.equal([p0]);
+        expect(p0.getAttribute('points')).to.equal('3,0 4,0 4,-1 3,-1');
+    });
+
+    it('removes attributes', () => {
+        let c = curve([V2(0,0), V2(1,1)]).set_key('c');
+        draw(c.markerend('triangle'));
+        let polyline = outer.querySelector('polyline') as Element;
+        expect(polyline.hasAttribute('marker-end')).to.be.true;
+        expect(outer.querySelector('defs')).not.to.be.null;
+        draw(c);
+        expect(outer.querySelector('polyline')).to.equal(polyline);
+        expect(polyline.hasAttribute('marker-end')).to.be.false;
+        expect(outer.querySelector('defs')).to.be.null;
+    });
+
+    it('keeps the loaded image href', () => {
+        draw(image('a.png', 2, 1).set_key('img'));
+        let img = outer.querySelector('image') as Element;
+        expect(loaded_images).to.deep.equal(['a.png']);
+        // simulate the asynchronous load
+        img.setAttribute('href', 'data:a');
+
+        draw(image('a.png', 2, 1).set_key('img').position(V2(1,1)));
+        expect(outer.querySelector('image')).to.equal(img);
+        expect(img.getAttribute('href')).to.equal('data:a');
+        expect(loaded_images).to.deep.equal(['a.png', 'a.png']); // the staged image
+
+        loaded_images = [];
+        draw(image('b.png', 2, 1).set_key('img'));
+        expect(outer.querySelector('image')).to.equal(img);
+        expect(img.getAttribute('_dg_src')).to.equal('b.png');
+        // the old image is shown until the new one is loaded into the existing element
+        expect(img.getAttribute('href')).to.equal('data:a');
+        expect(loaded_images).to.deep.equal(['b.png', 'b.png']);
+    });
+});
+
+describe('SVG export', () => {
+    let outer : SVGSVGElement;
+    let svg = (meta : string, viewbox? : string) => {
+        let element = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+        element.setAttribute("meta", meta);
+        if (viewbox != undefined) element.setAttribute("viewBox", viewbox);
+        element.appendChild(document.createElementNS("http://www.w3.org/2000/svg", "circle"));
+        outer.appendChild(element);
+        return element;
+    };
+    let parse = (svg_string : string) => new JSDOM(svg_string, { contentType : 'image/svg+xml' }).window.document.documentElement;
+
+    before(setup_dom);
+
+    beforeEach(() => {
+        outer = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+        // displayed at 200x200px, the 100x50 viewbox is fitted to 200x100px (a displayed pixel is 0.5 unit)
+        let inner = svg('diagram_svg', '0 -50 100 50');
+        inner.getBoundingClientRect = () => ({ width : 200, height : 200 } as DOMRect);
+    });
+
+    it('size and viewbox', async () => {
+        let svg_string = await export_svg(outer);
+        expect(svg_string.match(/xmlns="http:\/\/www.w3.org\/2000\/svg"/g)).to.have.length(1);
+        let exported = parse(svg_string);
+        expect(exported.getAttribute('viewBox')).to.equal('0 -50 100 50');
+        expect(exported.getAttribute('width')).to.equal('200');
+        expect(exported.getAttribute('height')).to.equal('100');
+        expect(exported.hasAttribute('meta')).to.be.false;
+
+        exported = parse(await export_svg(outer, { padding : 10, scale : 2, background : 'white' }));
+        expect(exported.getAttribute('viewBox')).to.equal('-5 -55 110 60');
+        expect(exported.getAttribute('width')).to.equal('440');
+        expect(exported.getAttribute('height')).to.equal('240');
+        let background = exported.firstElementChild as Element;
+        expect(background.tagName).to.equal('rect');
+        expect(['x', 'y', 'width', 'height'].map(a => background.getAttribute(a))).to.deep.equal(['-5', '-55', '110', '60']);
+    });
+
+    it('layers', async () => {
+        svg('control_svg');
+        svg('dnd_svg', '0 -50 100 50');
+        let exported = parse(await export_svg(outer));
+        // the locator is drawn in the diagram coordinate, the dnd layer is excluded by default
+        expect(exported.querySelectorAll('circle').length).to.equal(2);
+        expect(exported.querySelector('svg')).to.be.null;
+
+        exported = parse(await export_svg(outer, { layers : ['dnd'] }));
+        let layer = exported.querySelector('svg') as Element;
+        expect(['x', 'y', 'width', 'height'].map(a => layer.getAttribute(a))).to.deep.equal(['0', '-50', '100', '50']);
+        expect(layer.getAttribute('viewBox')).to.equal('0 -50 100 50');
+    });
+});
@@ -0,0 +1,139 @@
+import { draw_to_svg_string } from '../draw_svg_string.js';
+import { polygon, curve, text, multiline, image, diagram_combine, compound_polygon, diagram_from_jsonstring } from '../diagram.js';
+import { gradient, pattern } from '../paint.js';
+import { annulus, arrow2 } from '../shapes.js';
+import { subdivide } from '../modifier.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('SVG string', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+
+    it('polygon and curve', () => {
+        let svg = draw_to_svg_string(diagram_combine(square.fill('red'), curve([V2(0,0), V2(1,1)])));
+        expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).to.be.true;
+        expect(svg).to.contain('<polygon points="0,0 2,0 2,-2 0,-2"');
+        expect(svg).to.contain('fill:#d62728');
+        expect(svg).to.contain('<polyline points="0,0 1,-1" style="fill:none');
+    });
+    it('viewbox', () => {
+        let svg = draw_to_svg_string(square, { width : 200, height : 200, padding : 0 });
+        expect(svg).to.contain('viewBox="0 -2 2 2"');
+        expect(svg).to.contain('width="200" height="200"');
+    });
+    it('text', () => {
+        let svg = draw_to_svg_string(diagram_combine(square, text('a<b').position(V2(1,1))), { width : 200 });
+        expect(svg).to.contain('>a&lt;b</text>');
+        expect(svg).to.contain('translate(1 -1)');
+        // font-size is scaled so that it is 18px in a 200px wide svg
+        expect(svg).to.contain('font-size="0.18"');
+    });
+    it('text extends the viewbox', () => {
+        let svg = draw_to_svg_string(diagram_combine(square, text('long label').position(V2(10,1))), { padding : 0 });
+        let viewbox = /viewBox="([^"]*)"/.exec(svg)?.[1].split(' ').map(parseFloat) ?? [];
+        expect(viewbox[0] + viewbox[2]).to.be.greaterThan(10);
+    });
+    it('multiline', () => {
+        let svg = draw_to_svg_string(multiline([['a'], ['\n'], ['b', {'font-weight' : 'bold'}]]));
+        expect(svg).to.contain('<tspan x="0"');
+        expect(svg.match(/<tspan/g)?.length).to.equal(2);
+        expect(svg).to.contain('font-weight="bold"');
+    });
+    it('image', () => {
+        let svg = draw_to_svg_string(image('a.png', 2, 1));
+        expect(svg).to.contain('<image href="a.png"');
+        expect(svg).to.contain('width="2" height="1"');
+    });
+    it('compound polygon', () => {
+        let frame = compound_polygon([square.fill('red'), square.scale(V2(0.5, 0.5))]);
+        let svg = draw_to_svg_string(frame);
+        expect(svg.match(/<path d="M[^"]*Z M[^"]*Z"/)).to.not.be.null;
+        expect(svg).to.contain('fill:#d62728');
+        expect(svg).to.contain('fill-rule:evenodd');
+
+        let ring = annulus(2, 1).translate(V2(1, 0));
+        let [min, max] = ring.bounding_box();
+        expect(min.x).to.be.closeTo(-1, 1e-9);
+        expect(max.x).to.be.closeTo( 3, 1e-9);
+        expect(draw_to_svg_string(ring.fill('blue'))).to.contain('fill:#1f77b4');
+    });
+    it('clip', () => {
+        let clipped = diagram_combine(square.scale(V2(4, 4)), text("a")).clip(square);
+        let [min, max] = clipped.bounding_box();
+        expect(min.x).to.be.closeTo(0, 1e-9);
+        expect(max.y).to.be.closeTo(2, 1e-9);
+        let svg = draw_to_svg_string(clipped);
+        let id = svg.match(/<clipPath id="([^"]+)" clipPathUnits="userSpaceOnUse">/)?.[1];
+        expect(id).to.not.be.undefined;
+        expect(svg.split(`clip-path="url(#${id})"`).length).to.equal(3); // shapes and texts
+        // clipping again keeps both clips
+        let [min2, max2] = clipped.clip(square.translate(V2(1, 0))).bounding_box();
+        expect(min2.x).to.be.closeTo(1, 1e-9);
+        expect(max2.x).to.be.closeTo(2, 1e-9);
+    });
+    it('gradient and pattern', () => {
+        let svg = draw_to_svg_string(square.fill(gradient.linear(['red', [1, 'blue', 0.5]], Math.PI/2)));
+        let id = svg.match(/<defs><linearGradient id="([^"]+)"/)?.[1];
+        expect(id).to.not.be.undefined;
+        expect(svg).to.contain(`fill:url(#${id})`);
+        expect(svg).to.contain('<stop offset="0" stop-color="#d62728" stop-opacity="1"/>');
+        expect(svg).to.contain('stop-opacity="0.5"');
+
+        let hatched = square.fill(pattern.hatch(Math.PI/4, 0.5));
+        expect(draw_to_svg_string(hatched)).to.contain('patternTransform="rotate(-45)"');
+        // paints are kept when the diagram is serialized
+        let restored = diagram_from_jsonstring(JSON.stringify(hatched));
+        expect(restored.style.fill).to.deep.equal(hatched.style.fill);
+        expect(draw_to_svg_string(restored)).to.contain('<pattern');
+    });
+    it('deterministic ids', () => {
+        let d = diagram_combine(square.fill(gradient.linear(['red', 'blue'])), arrow2(V2(0, 0), V2(4, 0), 1)).clip(square);
+        expect(draw_to_svg_string(d)).to.equal(draw_to_svg_string(d));
+        let svg = draw_to_svg_string(d, { id_prefix : 'fig1' });
+        expect(svg).to.contain('id="fig1_clip_s');
+        expect(svg).to.not.contain('id="dg_');
+    });
+    it('markers', () => {
+        let a = arrow2(V2(0, 0), V2(4, 0), 1);
+        let svg = draw_to_svg_string(a.stroke('red'));
+        expect(svg).to.contain('marker-start="url(#');
+        expect(svg).to.contain('marker-end="url(#');
+        expect(svg.match(/<marker [^>]*markerUnits="strokeWidth"/g)?.length).to.equal(2);
+        expect(svg).to.contain('fill="#d62728"');
+        // the heads are included in the bounding box and scale with the stroke width
+        expect(a.bounding_box()[1].y).to.be.closeTo(0.5, 1e-9);
+        expect(a.strokewidth(2).bounding_box()[1].y).to.be.closeTo(1, 1e-9);
+        // markers are kept after modifying the path
+        let m = a.apply(subdivide(4)).markermid('dot');
+        expect(m.markerdata.end).to.equal('triangle');
+        expect(draw_to_svg_string(m)).to.contain('marker-mid="url(#');
+    });
+    it('lazy transform', () => {
+        let d = square.combine(text('a').position(V2(1, 1)));
+        let lazy = d.lazy_transform().rotate(Math.PI/2, V2(0, 0)).translate(V2(1, 0)).scale(2, V2(0, 0));
+        let eager = square.rotate(Math.PI/2, V2(0, 0)).translate(V2(1, 0)).scale(2, V2(0, 0));
+        // the points are not transformed, the matrix is kept instead
+        expect(lazy.children[0].path?.points[1]).to.eql(V2(2, 0));
+        let [min, max] = lazy.bake_transform().children[0].bounding_box();
+        expect(min.x).to.be.closeTo(-2, 1e-9); expect(min.y).to.be.closeTo(0, 1e-9);
+        expect(max.x).to.be.closeTo( 2, 1e-9); expect(max.y).to.be.closeTo(4, 1e-9);
+        expect(eager.bounding_box()[1].x).to.be.closeTo(max.x, 1e-9);
+        // texts follow the rotation and the scale of the matrix
+        let baked_text = lazy.bake_transform().children[1];
+        expect(parseFloat(baked_text.textdata['angle'] as string)).to.be.closeTo(-Math.PI/2, 1e-9);
+        expect(parseFloat(baked_text.textdata['font-size'] as string)).to.be.closeTo(36, 1e-9);
+        expect(baked_text.origin.x).to.be.closeTo(0, 1e-9);
+        expect(baked_text.origin.y).to.be.closeTo(2, 1e-9);
+
+        let svg = draw_to_svg_string(lazy);
+        expect(svg.match(/<g transform="matrix\(/g)?.length).to.equal(2); // shapes and texts
+        // a non-affine transform applies the matrix first
+        let moved = lazy.transform(p => p.add(V2(1, 0)));
+        expect(moved.matrix).to.be.undefined;
+        expect(moved.children[0].bounding_box()[0].x).to.be.closeTo(-1, 1e-9);
+        // the matrix survives serialization
+        let restored = diagram_from_jsonstring(JSON.stringify(lazy));
+        expect(restored.bounding_box()).to.eql(lazy.bounding_box());
+    });
+});
@@ -0,0 +1,57 @@
+import { to_tikz, escape_latex } from '../draw_tikz.js';
+import { polygon, curve, text, multiline, diagram_combine } from '../diagram.js';
+import { circle, arrow } from '../shapes.js';
+import { pattern } from '../paint.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('TikZ', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+
+    it('polygon and curve', () => {
+        let tikz = to_tikz(diagram_combine(square.fill('red'), curve([V2(0,0), V2(1,1)]).strokedasharray([5, 5])));
+        expect(tikz.startsWith('\\begin{tikzpicture}')).to.be.true;
+        expect(tikz.endsWith('\\end{tikzpicture}')).to.be.true;
+        // tab_color is defined once
+        expect(tikz).to.contain('\\definecolor{dgcolor0}{HTML}{D62728}');
+        expect(tikz).to.contain('\\path[fill=dgcolor0, draw=black, line width=0.75pt, line join=round] (0,0) -- (2,0) -- (2,2) -- (0,2) -- cycle;');
+        expect(tikz).to.contain('dash pattern=on 3.75pt off 3.75pt');
+        expect(tikz).to.contain('(0,0) -- (1,1);');
+    });
+    it('unit scale and curved segments', () => {
+        let tikz = to_tikz(square, { unit : 0.5, environment : false });
+        expect(tikz.startsWith('\\path')).to.be.true;
+        expect(tikz).to.contain('(1,0) -- (1,1)');
+        let c = to_tikz(circle(1), { environment : false });
+        expect(c).to.contain('.. controls');
+        expect(c).to.contain('.. cycle;');
+    });
+    it('text', () => {
+        let tikz = to_tikz(diagram_combine(square, text('$x^2$').position(V2(1,1)), text('50% & a_b').position(V2(0,3))));
+        expect(tikz).to.contain('\\node[anchor=center, inner sep=0] at (1,1) {$x^2$};');
+        expect(tikz).to.contain('{50\\% \\& a\\_b}');
+        expect(escape_latex('\\{}')).to.equal('\\textbackslash{}\\{\\}');
+        let m = to_tikz(multiline([['a'], ['\n'], ['b', {'font-weight' : 'bold'}]]));
+        expect(m).to.contain('{a \\\\ \\textbf{b}}');
+        expect(to_tikz(text('a'), { render_text : false })).to.not.contain('\\node');
+    });
+    it('rotated text', () => {
+        let tikz = to_tikz(text('a').textangle(Math.PI/6), { environment : false });
+        expect(tikz).to.contain('rotate=-30');
+        let lazy = diagram_combine(square, text('b').position(V2(1,1))).lazy_transform().rotate(Math.PI/2);
+        expect(to_tikz(lazy, { environment : false })).to.contain('rotate=90');
+    });
+    it('markers are in diagram unit', () => {
+        let tikz = to_tikz(arrow(V2(2,0), 0.5), { environment : false, unit : 2 });
+        expect(tikz).to.contain('\\path[shift={(4,0)}, rotate=0');
+        expect(tikz).to.contain('(0,0) -- (-1,0.5) -- (-1,-0.5) -- cycle;');
+    });
+    it('clip and pattern', () => {
+        let clipped = diagram_combine(square.fill(pattern.hatch(Math.PI/4, 0.5))).clip(polygon([V2(0,0), V2(1,0), V2(1,1)]));
+        let tikz = to_tikz(clipped);
+        expect(tikz.startsWith('% requires \\usetikzlibrary{patterns.meta}')).to.be.true;
+        expect(tikz).to.contain('\\clip (0,0) -- (1,0) -- (1,1) -- cycle;');
+        expect(tikz).to.contain('pattern={Lines[angle=45');
+    });
+});
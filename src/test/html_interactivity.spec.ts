@@ -0,0 +1,60 @@
+import { Interactive } from '../html_interactivity.js';
+import { draw_to_svg } from '../draw_svg.js';
+import { polygon } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Interactive display mode', () => {
+    let outer : SVGSVGElement;
+    // the methods called on the 2d context of the canvas
+    let canvas_calls : string[] = [];
+    let square = polygon([V2(0,0), V2(1,0), V2(1,1), V2(0,1)]).fill('red');
+
+    before(() => {
+        let window = new JSDOM('', { virtualConsole : new VirtualConsole() }).window;
+        let g = globalThis as any;
+        for (let name of ['window', 'document', 'Element', 'SVGElement', 'SVGSVGElement']) g[name] = (window as any)[name];
+        // jsdom doesn't implement the element classes of the svg shapes
+        for (let [name, tag] of [['SVGPolygonElement', 'polygon'], ['SVGPolylineElement', 'polyline']]) {
+            g[name] = { [Symbol.hasInstance] : (x : any) => x instanceof window.Element && x.tagName == tag };
+        }
+        // nor the size of svg elements and the canvas
+        Object.defineProperty(window.SVGSVGElement.prototype, 'width',  { get : () => ({ baseVal : { value : 100 } }) });
+        Object.defineProperty(window.SVGSVGElement.prototype, 'height', { get : () => ({ baseVal : { value : 100 } }) });
+        window.HTMLCanvasElement.prototype.getContext = (() => new Proxy({}, {
+            get : (_, name : string) => (...args : any[]) => { canvas_calls.push(name); },
+            set : () => true,
+        })) as any;
+    });
+
+    beforeEach(() => {
+        outer = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+        document.body.appendChild(outer);
+        canvas_calls = [];
+    });
+
+    it('draw_to_svg is drawn to the canvas', () => {
+        let int = new Interactive(document.createElement('div'), outer);
+        int.display_mode = "canvas";
+        int.draw_function = () => { draw_to_svg(outer, square); };
+        int.draw();
+        expect(outer.querySelector('foreignObject[meta=diagram_canvas] canvas')).not.to.be.null;
+        expect(outer.querySelector('polygon')).to.be.null;
+        expect(canvas_calls).to.include('fill');
+        expect(int.diagram_svg?.getAttribute('viewBox')).not.to.be.null;
+
+        // the drawing is only redirected while `draw_function` is called
+        draw_to_svg(outer, square, false, false);
+        expect(outer.querySelector('polygon')).not.to.be.null;
+    });
+
+    it('svg display mode', () => {
+        let int = new Interactive(document.createElement('div'), outer);
+        int.draw_function = () => { draw_to_svg(outer, square, false, false); };
+        int.draw();
+        expect(outer.querySelector('foreignObject')).to.be.null;
+        expect(outer.querySelector('polygon')).not.to.be.null;
+    });
+});
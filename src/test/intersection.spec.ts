@@ -0,0 +1,40 @@
+import { intersections } from '../intersection.js';
+import { polygon, line, curve, diagram_combine } from '../diagram.js';
+import { circle } from '../shapes.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Intersections', () => {
+    it('line and line', () => {
+        let result = intersections(line(V2(0,0), V2(2,2)), line(V2(0,2), V2(2,0)));
+        expect(result.length).to.equal(1);
+        expect(result[0].point.x).to.be.closeTo(1, 1e-9);
+        expect(result[0].t1).to.be.closeTo(0.5, 1e-9);
+        expect(result[0].t2).to.be.closeTo(0.5, 1e-9);
+        expect(intersections(line(V2(0,0), V2(1,0)), line(V2(0,1), V2(1,1)))).to.eql([]);
+    });
+    it('circle and line', () => {
+        let c = circle(1);
+        let result = intersections(c, line(V2(-2,0.5), V2(2,0.5)));
+        expect(result.length).to.equal(2);
+        for (let r of result) {
+            expect(r.point.length()).to.be.closeTo(1, 1e-9);
+            expect(r.point.y).to.be.closeTo(0.5, 1e-9);
+            // the parameters are consistent with parametric_point
+            expect(c.parametric_point(r.t1).sub(r.point).length()).to.be.closeTo(0, 1e-6);
+        }
+    });
+    it('two circles', () => {
+        let result = intersections(circle(1), circle(1).translate(V2(1,0)));
+        expect(result.length).to.equal(2);
+        for (let r of result) expect(r.point.x).to.be.closeTo(0.5, 1e-9);
+    });
+    it('curve and composite', () => {
+        let parabola = curve([-2, -1, 0, 1, 2].map(x => V2(x, x*x)));
+        let square = polygon([V2(-1.5,0.5), V2(1.5,0.5), V2(1.5,3), V2(-1.5,3)]);
+        let result = intersections(parabola, diagram_combine(square, line(V2(-3,2), V2(3,2))));
+        expect(result.length).to.equal(6); // bottom and side edges of the square, and the line
+        expect(result.map(r => r.point.x)).to.satisfy((xs : number[]) => xs.every((x, i) => i == 0 || x > xs[i-1]));
+    });
+});
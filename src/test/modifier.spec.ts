@@ -0,0 +1,44 @@
+import { polygon, curve } from '../diagram.js';
+import { simplify, smooth_chaikin, spline_through_points } from '../modifier.js';
+import { V2 } from '../vector.js';
+import { range } from '../utils.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Smoothing and simplification', () => {
+    it('simplify', () => {
+        // a noisy line
+        let noisy = curve(range(0, 101).map(i => V2(i, (i % 2) * 0.01)));
+        expect(noisy.apply(simplify(0.1)).path?.points).to.eql([V2(0,0), V2(100,0)]);
+        expect(noisy.apply(simplify(0.001)).path?.points.length).to.equal(101);
+        // extra points on the edges of a square are removed
+        let square = polygon([V2(0,0), V2(1,0), V2(2,0), V2(2,1), V2(2,2), V2(0,2), V2(0,1)]);
+        let simplified = square.apply(simplify(1e-9));
+        expect(simplified.path?.points.length).to.equal(4);
+        expect(simplified.bounding_box()).to.eql(square.bounding_box());
+    });
+    it('smooth_chaikin', () => {
+        let c = curve([V2(0,0), V2(1,1), V2(2,0)]).apply(smooth_chaikin(1));
+        expect(c.path?.points).to.eql([V2(0,0), V2(0.75,0.75), V2(1.25,0.75), V2(2,0)]);
+        let square = polygon([V2(0,0), V2(4,0), V2(4,4), V2(0,4)]);
+        let smoothed = square.apply(smooth_chaikin(2));
+        expect(smoothed.path?.points.length).to.equal(16);
+        // the corners are cut
+        expect(smoothed.contains(V2(0.1,0.1))).to.be.false;
+        expect(smoothed.contains(V2(2,0.1))).to.be.true;
+    });
+    it('spline_through_points', () => {
+        let points = [V2(0,0), V2(1,1), V2(2,0), V2(3,1)];
+        let c = curve(points).apply(spline_through_points());
+        expect(c.path?.segments.length).to.equal(3);
+        expect(c.path?.segments.every(s => s?.type == 'cubic')).to.be.true;
+        // the curve goes through the points
+        let p = c.parametric_point(0, 1);
+        expect(p).to.eql(V2(1,1));
+        let closed = polygon(points).apply(spline_through_points(0.5));
+        expect(closed.path?.segments.length).to.equal(4);
+        // tension 1 gives straight lines
+        let straight = curve(points).apply(spline_through_points(1));
+        expect(straight.path_length()).to.be.closeTo(curve(points).path_length(), 1e-9);
+    });
+});
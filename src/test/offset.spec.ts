@@ -0,0 +1,51 @@
+import { polygon, curve, DiagramType } from '../diagram.js';
+import { offset } from '../modifier.js';
+import { signed_area } from '../offset.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Offset', () => {
+    let square = polygon([V2(0,0), V2(2,0), V2(2,2), V2(0,2)]);
+
+    it('polygon', () => {
+        let outer = square.apply(offset(1));
+        expect(outer.bounding_box()).to.eql([V2(-1,-1), V2(3,3)]);
+        // the orientation of the polygon doesn't change the direction
+        let reversed = polygon([V2(0,2), V2(2,2), V2(2,0), V2(0,0)]).apply(offset(1));
+        expect(reversed.bounding_box()).to.eql([V2(-1,-1), V2(3,3)]);
+        let inner = square.apply(offset(-0.5));
+        expect(inner.bounding_box()).to.eql([V2(0.5,0.5), V2(1.5,1.5)]);
+    });
+    it('joins', () => {
+        let bevel = square.apply(offset(1, 'bevel'));
+        expect(bevel.path?.points.length).to.equal(8);
+        expect(Math.abs(signed_area(bevel.path?.points ?? []))).to.be.closeTo(16 - 2, 1e-9);
+        let round = square.apply(offset(1, 'round'));
+        expect(Math.abs(signed_area(round.path?.points ?? []))).to.be.closeTo(4 + 8 + Math.PI, 0.05);
+        // a sharp corner is beveled when it exceeds the miter limit
+        let sharp = curve([V2(0,0), V2(10,0), V2(0,1)]);
+        expect(sharp.apply(offset(-0.5, 'miter')).path?.points.length).to.equal(4);
+        expect(sharp.apply(offset(-0.5, 'miter', 100)).path?.points.length).to.equal(3);
+    });
+    it('curve', () => {
+        let c = curve([V2(0,0), V2(4,0)]).apply(offset(1));
+        expect(c.type).to.equal(DiagramType.Curve);
+        expect(c.path?.points).to.eql([V2(0,1), V2(4,1)]);
+    });
+    it('stroke_to_outline', () => {
+        let road = curve([V2(0,0), V2(4,0), V2(4,4)]).stroke('red').strokewidth(2).strokelinecap('square');
+        let outline = road.stroke_to_outline();
+        expect(outline.type).to.equal(DiagramType.Polygon);
+        expect(outline.style.fill).to.equal('red');
+        expect(outline.style.stroke).to.equal('none');
+        expect(outline.bounding_box()).to.eql([V2(-1,-1), V2(5,5)]);
+        expect(outline.contains(V2(2,0.9))).to.be.true;
+        expect(outline.contains(V2(2,1.1))).to.be.false;
+
+        let frame = square.stroke_to_outline(0.5);
+        expect(frame.type).to.equal(DiagramType.CompoundPolygon);
+        expect(frame.contains(V2(1,1))).to.be.false;
+        expect(frame.contains(V2(0,1))).to.be.true;
+    });
+});
@@ -0,0 +1,80 @@
+import { polygon, curve } from '../diagram.js';
+import { circle, arc } from '../shapes.js';
+import { quadratic_segment, cubic_segment, segment_split, segment_point } from '../path_segment.js';
+import { subdivide, slicepath } from '../modifier.js';
+import { draw_to_svg_string } from '../draw_svg_string.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Path segments', () => {
+    let c = circle(2);
+
+    it('circle', () => {
+        expect(c.path?.points.length).to.equal(4);
+        expect(c.path_length()).to.be.closeTo(4*Math.PI, 1e-9);
+        let [min, max] = c.bounding_box();
+        expect(min.x).to.be.closeTo(-2, 1e-9); expect(min.y).to.be.closeTo(-2, 1e-9);
+        expect(max.x).to.be.closeTo( 2, 1e-9); expect(max.y).to.be.closeTo( 2, 1e-9);
+    });
+    it('parametric_point', () => {
+        // the circle starts at the top and goes counterclockwise
+        let p = c.parametric_point(1/8);
+        expect(p.x).to.be.closeTo(-Math.sqrt(2), 1e-9);
+        expect(p.y).to.be.closeTo( Math.sqrt(2), 1e-9);
+        let q = arc(1, Math.PI).parametric_point(0.5);
+        expect(q.x).to.be.closeTo(0, 1e-9);
+        expect(q.y).to.be.closeTo(1, 1e-9);
+    });
+    it('transform', () => {
+        let e = c.scale(V2(2, 1)).translate(V2(1, 0));
+        let [min, max] = e.bounding_box();
+        expect(min.x).to.be.closeTo(-3, 1e-9);
+        expect(max.x).to.be.closeTo( 5, 1e-9);
+        expect(max.y).to.be.closeTo( 2, 1e-9);
+    });
+    it('bezier', () => {
+        let q = curve([V2(0,0), V2(2,0)], [quadratic_segment(V2(1,2))]);
+        expect(q.bounding_box()[1].y).to.be.closeTo(1, 1e-9);
+        let cb = curve([V2(0,0), V2(3,0)], [cubic_segment(V2(1,3), V2(2,3))]);
+        expect(cb.bounding_box()[1].y).to.be.closeTo(2.25, 1e-9);
+        // a straight cubic has the length of the line
+        let straight = curve([V2(0,0), V2(3,0)], [cubic_segment(V2(1,0), V2(2,0))]);
+        expect(straight.path_length()).to.be.closeTo(3, 1e-9);
+    });
+    it('split', () => {
+        let seg = cubic_segment(V2(1,3), V2(2,3));
+        let [a, mid, b] = segment_split(seg, V2(0,0), V2(3,0), 0.3);
+        let p = segment_point(seg, V2(0,0), V2(3,0), 0.65);
+        let pb = segment_point(b, mid, V2(3,0), 0.5);
+        expect(pb.x).to.be.closeTo(p.x, 1e-9);
+        expect(pb.y).to.be.closeTo(p.y, 1e-9);
+        expect(a.type).to.equal('cubic');
+    });
+    it('subdivide and slice', () => {
+        let s = c.apply(subdivide(2));
+        expect(s.path?.points.length).to.equal(8);
+        expect(s.path_length()).to.be.closeTo(4*Math.PI, 1e-9);
+        let half = arc(1, 2*Math.PI).apply(slicepath(0, 0.5));
+        expect(half.path_length()).to.be.closeTo(Math.PI, 1e-9);
+    });
+    it('closing edge', () => {
+        // the closing edge is part of the path of a polygon, a curve is not closed
+        let points = [V2(0,0), V2(2,0), V2(2,2)];
+        expect(polygon(points).path_length()).to.be.closeTo(4 + 2*Math.SQRT2, 1e-9);
+        expect(curve(points).path_length()).to.be.closeTo(4, 1e-9);
+        expect(curve(points).apply(subdivide(2)).path?.points).to.eql([V2(0,0), V2(1,0), V2(2,0), V2(2,1), V2(2,2)]);
+        expect(polygon(points).apply(subdivide(2)).path?.points).to.eql(
+            [V2(0,0), V2(1,0), V2(2,0), V2(2,1), V2(2,2), V2(1,1)]);
+    });
+    it('copy', () => {
+        let d = c.copy();
+        expect(d.path?.segments[0]?.type).to.equal('arc');
+        expect(d.path_length()).to.be.closeTo(4*Math.PI, 1e-9);
+    });
+    it('svg path', () => {
+        let svg = draw_to_svg_string(c);
+        expect(svg).to.contain('<path d="M 0 -2 A 2 2 0 0 0 -2 0');
+        expect(svg).to.contain('Z"');
+    });
+});
@@ -0,0 +1,142 @@
+import { render_png } from '../render_png.js';
+import { polygon, curve, text, multiline, diagram_combine } from '../diagram.js';
+import { V2 } from '../vector.js';
+import { inflateSync } from 'zlib';
+import { expect } from 'chai';
+import 'mocha';
+
+type DecodedPNG = { width : number, height : number, dpi : number, pixels : Uint8Array };
+
+/**
+ * Decode a png written by `render_png` (8 bit rgba, not interlaced)
+ */
+function decode_png(png : Uint8Array) : DecodedPNG {
+    let view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    let width = 0, height = 0, dpi = 0;
+    let zlib : number[] = [];
+    let pos = 8;
+    while (pos < png.length) {
+        let length = view.getUint32(pos);
+        let type = String.fromCharCode(...png.subarray(pos + 4, pos + 8));
+        if (type == 'IHDR') { width = view.getUint32(pos + 8); height = view.getUint32(pos + 12); }
+        if (type == 'pHYs') dpi = Math.round(view.getUint32(pos + 8) * 0.0254);
+        if (type == 'IDAT') zlib.push(...png.subarray(pos + 8, pos + 8 + length));
+        pos += 12 + length;
+    }
+    let raw = inflateSync(Uint8Array.from(zlib));
+    let stride = 4 * width;
+    let pixels = new Uint8Array(height * stride);
+    for (let y = 0; y < height; y++) {
+        let type = raw[y * (1 + stride)];
+        for (let x = 0; x < stride; x++) {
+            let a = x >= 4 ? pixels[y * stride + x - 4] : 0;
+            let b = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+            let c = (x >= 4 && y > 0) ? pixels[(y - 1) * stride + x - 4] : 0;
+            let p = a + b - c;
+            let paeth = (Math.abs(p - a) <= Math.abs(p - b) && Math.abs(p - a) <= Math.abs(p - c)) ? a :
+                (Math.abs(p - b) <= Math.abs(p - c) ? b : c);
+            let predictor = [0, a, b, (a + b) >> 1, paeth][type];
+            pixels[y * stride + x] = (raw[y * (1 + stride) + 1 + x] + predictor) & 0xFF;
+        }
+    }
+    return { width, height, dpi, pixels };
+}
+
+function pixel_at(png : DecodedPNG, x : number, y : number) : number[] {
+    let i = 4 * (y * png.width + x);
+    return Array.from(png.pixels.subarray(i, i + 4));
+}
+
+describe('PNG', () => {
+    let square = polygon([V2(0,0), V2(10,0), V2(10,10), V2(0,10)]);
+
+    it('file structure', () => {
+        let png = render_png(square.fill('red'), { width : 50, padding : 0 });
+        expect(Array.from(png.subarray(0, 8))).to.deep.equal([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+        let decoded = decode_png(png);
+        expect(decoded.width).to.equal(50);
+        expect(decoded.height).to.equal(50);
+        expect(decoded.dpi).to.equal(96);
+    });
+
+    it('compresses the pixels', () => {
+        // the uncompressed pixels are 200*200*4 bytes
+        let png = render_png(square.fill('#ff0000'), { width : 200, padding : 10 });
+        expect(png.length).to.be.lessThan(2000);
+        let decoded = decode_png(png);
+        expect(pixel_at(decoded, 100, 100)).to.deep.equal([255, 0, 0, 255]);
+        expect(pixel_at(decoded, 2, 2)[3]).to.equal(0);
+    });
+
+    it('dpi scales the image', () => {
+        let decoded = decode_png(render_png(square, { width : 50, height : 20, padding : 0, dpi : 192 }));
+        expect(decoded.width).to.equal(100);
+        expect(decoded.height).to.equal(40);
+        expect(decoded.dpi).to.equal(192);
+    });
+
+    it('fills polygons', () => {
+        let decoded = decode_png(render_png(square.fill('#ff0000').stroke('none'), { width : 40, padding : 0 }));
+        expect(pixel_at(decoded, 20, 20)).to.deep.equal([255, 0, 0, 255]);
+        expect(pixel_at(decoded, 0, 0)).to.deep.equal([255, 0, 0, 255]);
+    });
+
+    it('antialiases edges', () => {
+        // the edge of the triangle crosses the pixels diagonally
+        let triangle = polygon([V2(0,0), V2(10,0), V2(0,10)]).fill('black').stroke('none');
+        let decoded = decode_png(render_png(triangle, { width : 20, padding : 0 }));
+        let alphas = Array.from({ length : 20 }, (_, x) => pixel_at(decoded, x, 10)[3]);
+        expect(alphas.some(a => a > 0 && a < 255)).to.be.true;
+        expect(pixel_at(decoded, 2, 17)[3]).to.equal(255);
+        expect(pixel_at(decoded, 17, 2)[3]).to.equal(0);
+    });
+
+    it('background', () => {
+        let small = polygon([V2(4,4), V2(6,4), V2(6,6), V2(4,6)]).fill('#0000ff').stroke('none');
+        let d = diagram_combine(square.fill('none').stroke('none'), small);
+        let transparent = decode_png(render_png(d, { width : 40, padding : 0 }));
+        expect(pixel_at(transparent, 1, 1)[3]).to.equal(0);
+        let white = decode_png(render_png(d, { width : 40, padding : 0, background : 'white' }));
+        expect(pixel_at(white, 1, 1)).to.deep.equal([255, 255, 255, 255]);
+        expect(pixel_at(white, 20, 20)).to.deep.equal([0, 0, 255, 255]);
+    });
+
+    it('strokes curves', () => {
+        let c = curve([V2(0,5), V2(10,5)]).stroke('black').strokewidth(4);
+        let d = diagram_combine(square.fill('none').stroke('none'), c);
+        let decoded = decode_png(render_png(d, { width : 40, padding : 0 }));
+        expect(pixel_at(decoded, 20, 20)[3]).to.equal(255);
+        expect(pixel_at(decoded, 20, 17)[3]).to.equal(0);
+    });
+
+    it('markers are in diagram unit', () => {
+        // the head is 4 units long and 4 units wide
+        let a = curve([V2(0,5), V2(10,5)]).markerend('triangle').markersize(4).stroke('black');
+        let d = diagram_combine(square.fill('none').stroke('none'), a);
+        let decoded = decode_png(render_png(d, { width : 40, padding : 0 }));
+        expect(pixel_at(decoded, 30, 17)[3]).to.equal(255);
+        expect(pixel_at(decoded, 35, 26)[3]).to.equal(0);
+    });
+
+    it('draws text with the bitmap font', () => {
+        let bg = square.fill('none').stroke('none');
+        let empty = decode_png(render_png(bg, { width : 60, padding : 0 }));
+        let decoded = decode_png(render_png(diagram_combine(bg, text('Hi').position(V2(5,5))), { width : 60, padding : 0 }));
+        let count = (png : DecodedPNG) => Array.from({ length : png.width * png.height }, (_, i) => png.pixels[4*i + 3]).filter(a => a > 0).length;
+        expect(count(empty)).to.equal(0);
+        expect(count(decoded)).to.be.greaterThan(0);
+        let no_text = decode_png(render_png(diagram_combine(bg, text('Hi').position(V2(5,5))), { width : 60, padding : 0, render_text : false }));
+        expect(count(no_text)).to.equal(0);
+    });
+
+    it('multiline text opacity', () => {
+        let bg = square.fill('none').stroke('none');
+        let max_alpha = (d : Parameters<typeof render_png>[0]) => {
+            let png = decode_png(render_png(diagram_combine(bg, d), { width : 60, padding : 0 }));
+            return Math.max(...Array.from({ length : png.width * png.height }, (_, i) => png.pixels[4*i + 3]));
+        };
+        let lines = multiline([['Hi']]).position(V2(5,5));
+        expect(max_alpha(lines)).to.equal(255);
+        expect(max_alpha(lines.opacity(0.5))).to.be.within(100, 150);
+    });
+});
@@ -0,0 +1,73 @@
+import { Diagram, polygon, text, diagram_combine } from '../diagram.js';
+import { DiagramJSONError, DIAGRAM_JSON_VERSION, register_json_migration, unregister_json_migration } from '../serialization.js';
+import { circle } from '../shapes.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Serialization', () => {
+    let d = diagram_combine(
+        polygon([V2(0,0), V2(2,0), V2(2,2)]).fill('red').append_tag('triangle'),
+        circle(1).markerend('triangle'),
+        text('hello').position(V2(1,3)),
+    ).lazy_transform().rotate(0.5);
+
+    it('round trip', () => {
+        let json = d.to_json();
+        let data = JSON.parse(json);
+        expect(data.version).to.equal(DIAGRAM_JSON_VERSION);
+        let restored = Diagram.from_json(json);
+        expect(restored).to.be.instanceOf(Diagram);
+        expect(restored.children[0].path?.points[1]).to.eql(V2(2,0));
+        expect(restored.children[0].style.fill).to.equal('red');
+        expect(restored.bounding_box()).to.eql(d.bounding_box());
+        expect(Diagram.from_json(data).to_json()).to.equal(json);
+    });
+    it('legacy format', () => {
+        // raw JSON.stringify without the version, saved before `markerdata` existed
+        let raw = JSON.parse(JSON.stringify(polygon([V2(0,0), V2(1,0), V2(1,1)])));
+        delete raw.markerdata;
+        let restored = Diagram.from_json(JSON.stringify(raw));
+        expect(restored.markerdata).to.eql({});
+        expect(restored.path?.points[2]).to.eql(V2(1,1));
+    });
+    it('validation errors', () => {
+        let data = JSON.parse(d.to_json());
+        data.diagram.children[0].path.points[1] = { x : 'a' };
+        expect(() => Diagram.from_json(data)).to.throw(DiagramJSONError, 'diagram.children[0].path.points[1]');
+        let bad_type = JSON.parse(d.to_json());
+        bad_type.diagram.children[2].type = 'square';
+        try {
+            Diagram.from_json(bad_type);
+            expect.fail();
+        } catch (e) {
+            expect((e as DiagramJSONError).node_path).to.equal('diagram.children[2].type');
+        }
+        expect(() => Diagram.from_json('{')).to.throw(DiagramJSONError);
+        expect(() => Diagram.from_json({ format : 'diagramatics', version : 99, diagram : {} })).to.throw(DiagramJSONError, 'newer');
+    });
+    describe('migration', () => {
+        afterEach(() => unregister_json_migration(-1));
+
+        it('registered migration', () => {
+            // pretend that version -1 used `colour` instead of `fill`
+            let old = JSON.parse(polygon([V2(0,0), V2(1,0), V2(1,1)]).to_json());
+            old.version = -1;
+            old.diagram.style = { colour : 'blue' };
+            register_json_migration(-1, data => {
+                let diagram = data.diagram as { style : {[key : string] : string} };
+                diagram.style = { fill : diagram.style['colour'] };
+                return {...data, version : 0 };
+            });
+            let restored = Diagram.from_json(old);
+            expect(restored.style.fill).to.equal('blue');
+        });
+        it('migrations are not replaced', () => {
+            expect(() => register_json_migration(0, data => data)).to.throw(Error, 'version 0');
+            register_json_migration(-1, data => ({...data, version : 0 }));
+            expect(() => register_json_migration(-1, data => data)).to.throw(Error, 'version -1');
+            unregister_json_migration(0);
+            expect(Diagram.from_json(JSON.stringify(polygon([V2(0,0), V2(1,0), V2(1,1)]))).path?.points.length).to.equal(3);
+        });
+    });
+});
@@ -0,0 +1,88 @@
+import { text, multiline, diagram_combine } from '../diagram.js';
+import { square } from '../shapes.js';
+import { set_text_metrics_provider, set_text_auto_scale, approximate_text_width } from '../text_metrics.js';
+import { distribute_horizontal, distribute_horizontal_and_align } from '../alignment.js';
+import { table } from '../shapes/shapes_table.js';
+import { V2 } from '../vector.js';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Text metrics', () => {
+    // every character is 0.5em wide
+    before(() => { set_text_metrics_provider((str, font) => str.length * font.size / 2); set_text_auto_scale(1); });
+    after(() => { set_text_metrics_provider(); set_text_auto_scale(); });
+
+    it('approximate width', () => {
+        let font = { family : 'sans-serif', size : 10, weight : 'normal', style : 'normal' };
+        expect(approximate_text_width('ii', font)).to.be.lessThan(approximate_text_width('MM', font));
+        expect(approximate_text_width('0', font)).to.be.closeTo(5.56, 1e-9);
+        expect(approximate_text_width('abc', {...font, family : 'monospace'})).to.be.closeTo(18, 1e-9);
+    });
+    it('text', () => {
+        // default : font-size 18, text-anchor middle, dy 0.25em
+        let [min, max] = text('abcd').bounding_box();
+        expect(min.x).to.be.closeTo(-18, 1e-9);
+        expect(max.x).to.be.closeTo( 18, 1e-9);
+        expect(max.y).to.be.closeTo(-0.25*18 + 0.75*18, 1e-9);
+        expect(min.y).to.be.closeTo(-0.25*18 - 0.25*18, 1e-9);
+
+        let [tmin, tmax] = text('ab').fontsize(10).move_origin_text('top-left').bounding_box();
+        expect(tmin.x).to.be.closeTo(0, 1e-9);
+        expect(tmax.x).to.be.closeTo(10, 1e-9);
+        expect(tmax.y).to.be.closeTo(0, 1e-9);
+
+        set_text_auto_scale(0.5);
+        expect(text('abcd').bounding_box()[1].x).to.be.closeTo(9, 1e-9);
+        set_text_auto_scale(1);
+        expect(text('abcd').fontscale(2).bounding_box()[1].x).to.be.closeTo(36, 1e-9);
+    });
+    it('rotated text', () => {
+        let [min, max] = text('abcd').textdy('-0.25em').textangle(Math.PI/2).bounding_box();
+        expect(max.x - min.x).to.be.closeTo(18, 1e-9);
+        expect(max.y - min.y).to.be.closeTo(36, 1e-9);
+    });
+    it('multiline', () => {
+        let m = multiline([['ab'], ['\n'], ['abcdef', {'font-size' : '10'}]]).fontsize(20);
+        let [min, max] = m.bounding_box();
+        expect(min.x).to.be.closeTo(0, 1e-9);
+        expect(max.x).to.be.closeTo(30, 1e-9);
+        // first baseline at 0, second baseline at -1em (of the second line)
+        expect(max.y).to.be.closeTo(15, 1e-9);
+        expect(min.y).to.be.closeTo(-12.5, 1e-9);
+    });
+    it('distribute', () => {
+        let d = distribute_horizontal([text('abcd'), text('ab')], 2);
+        let [a, b] = d.children.map(c => c.bounding_box());
+        expect(b[0].x - a[1].x).to.be.closeTo(2, 1e-9);
+    });
+    it('text is a point when the scale is unknown', () => {
+        set_text_auto_scale();
+        let [min, max] = diagram_combine(square(2), text('label')).bounding_box();
+        expect(min).to.eql(V2(-1,-1));
+        expect(max).to.eql(V2(1,1));
+        set_text_auto_scale(1);
+    });
+    it('fixed scale texts are measured when the scale is unknown', () => {
+        set_text_auto_scale();
+        let [min, max] = text('abc').fontscale(0.1).bounding_box();
+        expect(max.x - min.x).to.be.closeTo(2.7, 1e-9);
+        // the labels are placed next to each other
+        let d = distribute_horizontal_and_align([text('label').fontscale(0.1), text('longer label').fontscale(0.1)], 0.5);
+        let [a, b] = d.children.map(c => c.bounding_box());
+        expect(a[1].x - a[0].x).to.be.closeTo(4.5, 1e-9);
+        expect(b[0].x - a[1].x).to.be.closeTo(0.5, 1e-9);
+        set_text_auto_scale(1);
+    });
+    it('layout with a text scale', () => {
+        set_text_auto_scale();
+        // 'abcd' is 18 wide and 'ab' is 9 wide, centered at their origin
+        let d = distribute_horizontal([text('abcd'), text('ab')], 0, 0.5);
+        expect(d.children[1].origin.x).to.be.closeTo(9 + 4.5, 1e-9);
+        expect(text('abcd').move_origin('center-right', 0.5).origin.x).to.be.closeTo(9, 1e-9);
+        let [tmin, tmax] = table([[text('abcd')], [square(1)]], 0, undefined, 0, 0, 0.5).bounding_box();
+        expect(tmax.x - tmin.x).to.be.closeTo(18, 1e-9);
+        // the scale is only used inside the layout
+        expect(text('abcd').bounding_box()[1].x).to.equal(0);
+        set_text_auto_scale(1);
+    });
+});
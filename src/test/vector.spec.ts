@@ -1,4 +1,4 @@
-import { Vector2, V2, Vdir } from '../vector.js';
+import { Vector2, V2, Vdir, Affine2, Transform } from '../vector.js';
 import { expect } from 'chai';
 import 'mocha';
 
@@ -37,3 +37,27 @@ describe('Vector2', () => {
     });
 });
 
+describe('Affine2', () => {
+    let close = (a : Vector2, b : Vector2) => {
+        expect(a.x).to.closeTo(b.x, 1e-9);
+        expect(a.y).to.closeTo(b.y, 1e-9);
+    };
+    it('transform matrices', () => {
+        let p = V2(3, 1);
+        close(Transform.rotate(Math.PI/2, V2(1, 1)).apply(p), V2(1, 3));
+        close(Transform.scale(V2(2, 3), V2(1, 1)).apply(p), V2(5, 1));
+        close(Transform.reflect_over_line(V2(0, 1), V2(1, 2)).apply(p), V2(0, 4));
+        close(Transform.skewX(Math.PI/4, 0).apply(V2(0, 1)), V2(-1, 1));
+    });
+    it('composition and inverse', () => {
+        let r = Transform.rotate(0.3, V2(1, 2));
+        let t = Transform.translate(V2(4, -1));
+        let p = V2(2, 5);
+        close(t.mul(r).apply(p), t.apply(r.apply(p)));
+        close(r.inverse().apply(r.apply(p)), p);
+        expect(Affine2.identity().is_identity()).to.be.true;
+        expect(t.mul(r).rotation()).to.closeTo(0.3, 1e-9);
+        expect(Transform.scale(V2(2, 8), V2(0, 0)).scale_factor()).to.closeTo(4, 1e-9);
+        expect(() => Transform.scale(V2(0, 1), V2(0, 0)).inverse()).to.throw();
+    });
+});
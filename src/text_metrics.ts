@@ -0,0 +1,156 @@
+// Text metrics
+// the width of a text is measured by a pluggable provider,
+// by default the text is measured using a canvas if it is available (browser, worker),
+// and approximated using a table of character widths otherwise (e.g. in Node)
+
+/**
+ * Font used to measure a text
+ * `size` is the font size in pixel
+ */
+export type FontSpec = {
+    family : string,
+    size   : number,
+    weight : string,
+    style  : string,
+}
+
+/**
+ * Function that returns the width of `text` drawn with `font` (in pixel)
+ */
+export type TextMetricsProvider = (text : string, font : FontSpec) => number;
+
+// vertical extent of the glyphs relative to the font size
+// consistent with the `dy` used by `move_origin_text()`
+export const TEXT_ASCENT  = 0.75;
+export const TEXT_DESCENT = 0.25;
+
+// width of the printable ascii characters (from ' ' to '~') in 1/1000 em
+// taken from the metrics of Helvetica
+const CHAR_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_CHAR_WIDTH = 556;
+const WIDE_CHAR_WIDTH    = 1000; // CJK and other fullwidth characters
+const MONOSPACE_CHAR_WIDTH = 600;
+const BOLD_FACTOR = 1.08;
+
+/**
+ * Approximate the width of a text using a table of character widths
+ * @param text text to measure
+ * @param font font of the text
+ * @returns width of the text in pixel
+ */
+export function approximate_text_width(text : string, font : FontSpec) : number {
+    let is_monospace = /mono/i.test(font.family);
+    let total = 0;
+    for (let char of text) {
+        let code = char.codePointAt(0) ?? 0;
+        if (code >= 0x2E80) {
+            total += WIDE_CHAR_WIDTH;
+        } else if (is_monospace) {
+            total += MONOSPACE_CHAR_WIDTH;
+        } else if (code >= 32 && code <= 126) {
+            total += CHAR_WIDTHS[code - 32];
+        } else {
+            total += DEFAULT_CHAR_WIDTH;
+        }
+    }
+    let weight_factor = (font.weight == "bold" || font.weight == "bolder" || parseInt(font.weight) >= 600) ?
+        BOLD_FACTOR : 1;
+    return total / 1000 * font.size * weight_factor;
+}
+
+// context used for measuring, null if canvas is not available
+let canvas_context : CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined = undefined;
+
+function get_canvas_context() : CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+    if (canvas_context !== undefined) return canvas_context;
+    canvas_context = null;
+    if (typeof OffscreenCanvas != "undefined") {
+        canvas_context = new OffscreenCanvas(1, 1).getContext("2d");
+    } else if (typeof document != "undefined") {
+        canvas_context = document.createElement("canvas").getContext("2d");
+    }
+    return canvas_context;
+}
+
+/**
+ * Measure the width of a text using a canvas
+ * @param text text to measure
+ * @param font font of the text
+ * @returns width of the text in pixel, or undefined if canvas is not available
+ */
+export function canvas_text_width(text : string, font : FontSpec) : number | undefined {
+    let ctx = get_canvas_context();
+    if (ctx == null) return undefined;
+    ctx.font = `${font.style} ${font.weight} ${font.size}px ${font.family}`;
+    return ctx.measureText(text).width;
+}
+
+/**
+ * Default provider, use canvas if available and fallback to the approximation
+ */
+export function default_text_width(text : string, font : FontSpec) : number {
+    return canvas_text_width(text, font) ?? approximate_text_width(text, font);
+}
+
+let text_metrics_provider : TextMetricsProvider = default_text_width;
+
+/**
+ * Set the provider used to measure texts
+ * @param provider the provider, if undefined, the default provider is used
+ */
+export function set_text_metrics_provider(provider? : TextMetricsProvider) : void {
+    text_metrics_provider = provider ?? default_text_width;
+}
+
+/**
+ * Measure the width of a text using the current provider
+ * @param text text to measure
+ * @param font font of the text
+ * @returns width of the text in pixel
+ */
+export function measure_text_width(text : string, font : FontSpec) : number {
+    if (text == "") return 0;
+    return text_metrics_provider(text, font);
+}
+
+// the scale of texts with `font-scale : auto` is only known when the diagram is drawn
+// this value is used when measuring them outside of drawing (e.g. in `bounding_box()`)
+// if it is undefined, they are measured as a point at their position (texts with a numeric `font-scale` are always measured)
+// the layout functions (e.g. `distribute_horizontal()`) can also take the scale as an argument
+let text_auto_scale : number | undefined = undefined;
+
+/**
+ * Set the scale used to measure texts with `font-scale : auto` outside of drawing
+ * (diagram unit per pixel)
+ * @param scale the scale, if undefined, texts are measured as a point (the default)
+ */
+export function set_text_auto_scale(scale? : number) : void {
+    if (scale != undefined && !(scale > 0)) throw new Error("Text scale must be positive");
+    text_auto_scale = scale;
+}
+
+export function get_text_auto_scale() : number | undefined {
+    return text_auto_scale;
+}
+
+/**
+ * Call `f` with the scale used to measure texts with `font-scale : auto` set to `scale`
+ * @param scale the scale, if undefined, the current scale is used
+ */
+export function with_text_auto_scale<T>(scale : number | undefined, f : () => T) : T {
+    if (scale == undefined) return f();
+    let prev_scale = text_auto_scale;
+    set_text_auto_scale(scale);
+    try {
+        return f();
+    } finally {
+        text_auto_scale = prev_scale;
+    }
+}
@@ -67,39 +67,104 @@ export function Vdir(angle : number) : Vector2 {
 }
 
 
-// transformation functions
-type TransformFunc = (p : Vector2) => Vector2;
+/**
+ * 2D affine transformation matrix
+ * ```
+ * | a c e |
+ * | b d f |
+ * | 0 0 1 |
+ * ```
+ * (same convention as svg `matrix(a,b,c,d,e,f)`)
+ */
+export class Affine2 {
+    constructor(
+        public a : number = 1, public b : number = 0,
+        public c : number = 0, public d : number = 1,
+        public e : number = 0, public f : number = 0,
+    ) { }
+    static identity() : Affine2 {
+        return new Affine2();
+    }
+    apply(p : Vector2) : Vector2 {
+        return new Vector2(this.a * p.x + this.c * p.y + this.e, this.b * p.x + this.d * p.y + this.f);
+    }
+    /**
+     * Compose two transformations
+     * @returns transformation that applies `m` first, then `this`
+     */
+    mul(m : Affine2) : Affine2 {
+        return new Affine2(
+            this.a * m.a + this.c * m.b, this.b * m.a + this.d * m.b,
+            this.a * m.c + this.c * m.d, this.b * m.c + this.d * m.d,
+            this.a * m.e + this.c * m.f + this.e, this.b * m.e + this.d * m.f + this.f,
+        );
+    }
+    det() : number {
+        return this.a * this.d - this.b * this.c;
+    }
+    inverse() : Affine2 {
+        let det = this.det();
+        if (det == 0) throw new Error("Affine2 is not invertible");
+        return new Affine2(
+            this.d / det, -this.b / det, -this.c / det, this.a / det,
+            (this.c * this.f - this.d * this.e) / det, (this.b * this.e - this.a * this.f) / det,
+        );
+    }
+    is_identity() : boolean {
+        return this.a == 1 && this.b == 0 && this.c == 0 && this.d == 1 && this.e == 0 && this.f == 0;
+    }
+    /**
+     * Rotation angle of the transformation (direction of the transformed x axis)
+     */
+    rotation() : number {
+        return Math.atan2(this.b, this.a);
+    }
+    /**
+     * Average scaling factor of the transformation (square root of the area scaling)
+     */
+    scale_factor() : number {
+        return Math.sqrt(Math.abs(this.det()));
+    }
+    to_function() : (p : Vector2) => Vector2 {
+        return (p : Vector2) => this.apply(p);
+    }
+    copy() : Affine2 {
+        return new Affine2(this.a, this.b, this.c, this.d, this.e, this.f);
+    }
+}
+
+// transformation matrices
 export class Transform {
-    static translate(v : Vector2) : TransformFunc {
-        return (p : Vector2) => p.add(v);
+    static translate(v : Vector2) : Affine2 {
+        return new Affine2(1, 0, 0, 1, v.x, v.y);
     }
-    static rotate(angle : number, pivot : Vector2) : TransformFunc {
-        return (p : Vector2) => p.sub(pivot).rotate(angle).add(pivot);
+    static rotate(angle : number, pivot : Vector2) : Affine2 {
+        let cos = Math.cos(angle), sin = Math.sin(angle);
+        return new Affine2(cos, sin, -sin, cos,
+            pivot.x - cos * pivot.x + sin * pivot.y, pivot.y - sin * pivot.x - cos * pivot.y);
     }
-    static scale(scale : Vector2, origin : Vector2) : TransformFunc {
-        return (p : Vector2) => p.sub(origin).mul(scale).add(origin);
+    static scale(scale : Vector2, origin : Vector2) : Affine2 {
+        return new Affine2(scale.x, 0, 0, scale.y, origin.x * (1 - scale.x), origin.y * (1 - scale.y));
     }
-    static reflect_over_point(q : Vector2) : TransformFunc {
-        return (p : Vector2) => p.sub(q).rotate(Math.PI).add(q);
+    static reflect_over_point(q : Vector2) : Affine2 {
+        return new Affine2(-1, 0, 0, -1, 2 * q.x, 2 * q.y);
     }
-    static reflect_over_line(p1 : Vector2, p2 : Vector2) : TransformFunc {
+    static reflect_over_line(p1 : Vector2, p2 : Vector2) : Affine2 {
         let v = p2.sub(p1);
         let n = v.rotate(Math.PI / 2).normalize();
-        return (p : Vector2) => {
-            let d = n.dot(p.sub(p1));
-            return p.sub(n.scale(2*d));
-        }   
-    }
-    static skewX(angle : number, ybase : number) : TransformFunc {
-        return (p : Vector2) => {
-            let x = p.x + (ybase - p.y) * Math.tan(angle);
-            return new Vector2(x, p.y);
-        }
-    }
-    static skewY(angle : number, xbase : number) : TransformFunc {
-        return (p : Vector2) => {
-            let y = p.y + (xbase - p.x) * Math.tan(angle);
-            return new Vector2(p.x, y);
-        }
+        let k = n.dot(p1);
+        return new Affine2(
+            1 - 2 * n.x * n.x, -2 * n.x * n.y,
+            -2 * n.x * n.y, 1 - 2 * n.y * n.y,
+            2 * n.x * k, 2 * n.y * k,
+        );
+    }
+    static skewX(angle : number, ybase : number) : Affine2 {
+        let tan = Math.tan(angle);
+        return new Affine2(1, 0, -tan, 1, ybase * tan, 0);
+    }
+    static skewY(angle : number, xbase : number) : Affine2 {
+        let tan = Math.tan(angle);
+        return new Affine2(1, -tan, 0, 1, 0, xbase * tan);
     }
 };